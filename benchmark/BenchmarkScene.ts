@@ -0,0 +1,50 @@
+import { VertexArray, float, integer } from "../src/CommonTypes";
+
+/**
+ * A big map with a lot of obstacles shared by the benchmarks.
+ */
+export const areaSize = 4000;
+export const cellSize = 4;
+export const obstacleCount = 1500;
+export const warmUpCount = 2;
+export const runCount = 5;
+
+/**
+ * A deterministic pseudo-random generator to compare runs with the same
+ * obstacles.
+ */
+const createRandom = (seed: integer) => () => {
+  seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+  return seed / 0x80000000;
+};
+
+export const createObstacles = (): VertexArray[] => {
+  const random = createRandom(42);
+  const obstacles: VertexArray[] = [];
+  for (let index = 0; index < obstacleCount; index++) {
+    const centerX = random() * areaSize;
+    const centerY = random() * areaSize;
+    const halfWidth = 10 + random() * 40;
+    const halfHeight = 10 + random() * 40;
+    const angle = random() * Math.PI;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    obstacles.push(
+      [
+        { x: -halfWidth, y: -halfHeight },
+        { x: halfWidth, y: -halfHeight },
+        { x: halfWidth, y: halfHeight },
+        { x: -halfWidth, y: halfHeight },
+      ].map((vertex) => ({
+        x: centerX + cos * vertex.x - sin * vertex.y,
+        y: centerY + sin * vertex.x + cos * vertex.y,
+      }))
+    );
+  }
+  return obstacles;
+};
+
+export const median = (values: float[]) => {
+  const sortedValues = values.slice().sort((a, b) => a - b);
+  return sortedValues[Math.floor(sortedValues.length / 2)];
+};
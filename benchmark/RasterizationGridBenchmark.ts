@@ -0,0 +1,82 @@
+import { BuildDiagnostics } from "../src/BuildDiagnostics";
+import { VertexArray, float } from "../src/CommonTypes";
+import { ContourBuilder } from "../src/ContourBuilder";
+import { ContourPoint } from "../src/ContourPoint";
+import { ObstacleRasterizer } from "../src/ObstacleRasterizer";
+import { RasterizationGrid } from "../src/RasterizationGrid";
+import { RegionGenerator } from "../src/RegionGenerator";
+import {
+  areaSize,
+  cellSize,
+  createObstacles,
+  median,
+  obstacleCount,
+  runCount,
+  warmUpCount,
+} from "./BenchmarkScene";
+
+/**
+ * Measures the stages that work on the {@link RasterizationGrid} for a big
+ * map with a lot of obstacles.
+ *
+ * Run it with `npm run benchmark` before and after a change to compare them.
+ * The ReadMe gives the numbers of the grid with one object by cell that the
+ * typed arrays replaced.
+ */
+const stageNames = [
+  "grid creation",
+  "rasterization",
+  "distance field",
+  "regions",
+  "contours",
+];
+
+const runStages = (obstacles: VertexArray[], durations: float[][]) => {
+  const obstacleRasterizer = new ObstacleRasterizer();
+  const regionGenerator = new RegionGenerator();
+  const contourBuilder = new ContourBuilder();
+  const diagnostics = new BuildDiagnostics(BuildDiagnostics.silentLogger);
+
+  const stages: Array<() => void> = [];
+  let grid: RasterizationGrid;
+  let contours: ContourPoint[][];
+  stages.push(() => {
+    grid = new RasterizationGrid(0, 0, areaSize, areaSize, cellSize, cellSize);
+  });
+  stages.push(() => obstacleRasterizer.rasterizeObstacles(grid, obstacles));
+  stages.push(() => regionGenerator.generateDistanceField(grid));
+  stages.push(() => regionGenerator.generateRegions(grid, 1, diagnostics));
+  stages.push(() => {
+    contours = contourBuilder.buildContours(grid, 1, 0, diagnostics);
+  });
+
+  for (let index = 0; index < stages.length; index++) {
+    const startTime = performance.now();
+    stages[index]();
+    durations[index].push(performance.now() - startTime);
+  }
+  return `${grid.regionCount - 1} regions, ${contours.length} contours`;
+};
+
+const obstacles = createObstacles();
+const durations = stageNames.map((): float[] => []);
+for (let run = 0; run < warmUpCount; run++) {
+  runStages(
+    obstacles,
+    stageNames.map((): float[] => [])
+  );
+}
+let result = "";
+for (let run = 0; run < runCount; run++) {
+  result = runStages(obstacles, durations);
+}
+const dim = 2 + Math.ceil(areaSize / cellSize);
+console.log(`${dim}x${dim} cells, ${obstacleCount} obstacles`);
+console.log(`${result}, median of ${runCount} runs`);
+let total = 0;
+for (let index = 0; index < stageNames.length; index++) {
+  const duration = median(durations[index]);
+  total += duration;
+  console.log(`${stageNames[index]}: ${duration.toFixed(1)} ms`);
+}
+console.log(`total: ${total.toFixed(1)} ms`);
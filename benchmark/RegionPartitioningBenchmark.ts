@@ -0,0 +1,111 @@
+import { BuildDiagnostics } from "../src/BuildDiagnostics";
+import { float } from "../src/CommonTypes";
+import { ContourBuilder } from "../src/ContourBuilder";
+import { ContourPoint } from "../src/ContourPoint";
+import { ConvexPolygonGenerator } from "../src/ConvexPolygonGenerator";
+import {
+  NavMeshBuildConfigResolver,
+  RegionPartitioningMode,
+} from "../src/NavMeshBuildConfig";
+import { ObstacleRasterizer } from "../src/ObstacleRasterizer";
+import { RasterizationGrid } from "../src/RasterizationGrid";
+import { RegionGenerator } from "../src/RegionGenerator";
+import {
+  areaSize,
+  cellSize,
+  createObstacles,
+  median,
+  obstacleCount,
+  runCount,
+  warmUpCount,
+} from "./BenchmarkScene";
+
+/**
+ * Compares the region partitionings on the same map. The stages after the
+ * regions are measured too because they depend on the region shapes.
+ *
+ * Run it with `npm run benchmark:regions`.
+ */
+const partitionings: RegionPartitioningMode[] = [
+  "watershed",
+  "monotone",
+  "layers",
+];
+const stageNames = ["regions", "contours", "polygons"];
+
+const grid = new RasterizationGrid(
+  0,
+  0,
+  areaSize,
+  areaSize,
+  cellSize,
+  cellSize
+);
+const regionGenerator = new RegionGenerator();
+const contourBuilder = new ContourBuilder();
+const convexPolygonGenerator = new ConvexPolygonGenerator();
+new ObstacleRasterizer().rasterizeObstacles(grid, createObstacles());
+regionGenerator.generateDistanceField(grid);
+
+const runStages = (
+  regionPartitioning: RegionPartitioningMode,
+  durations: float[][]
+) => {
+  const regionConfig = {
+    ...NavMeshBuildConfigResolver.defaultConfig,
+    regionPartitioning,
+  };
+  const diagnostics = new BuildDiagnostics(BuildDiagnostics.silentLogger);
+  const stages: Array<() => void> = [];
+  let contours: ContourPoint[][];
+  let polygonCount = 0;
+  stages.push(() => {
+    grid.clearRegions();
+    regionGenerator.generateRegions(grid, 1, diagnostics, regionConfig);
+  });
+  stages.push(() => {
+    contours = contourBuilder.buildContours(grid, 1, 0, diagnostics);
+  });
+  stages.push(() => {
+    polygonCount = convexPolygonGenerator.splitToConvexPolygons(
+      contours,
+      16,
+      diagnostics
+    ).length;
+  });
+
+  for (let index = 0; index < stages.length; index++) {
+    const startTime = performance.now();
+    stages[index]();
+    durations[index].push(performance.now() - startTime);
+  }
+  return (
+    `${grid.regionCount - 1} regions, ${polygonCount} polygons, ` +
+    `${diagnostics.failedTriangulations.length} failed triangulations`
+  );
+};
+
+const dim = 2 + Math.ceil(areaSize / cellSize);
+console.log(`${dim}x${dim} cells, ${obstacleCount} obstacles`);
+console.log(`median of ${runCount} runs`);
+for (const regionPartitioning of partitionings) {
+  const durations = stageNames.map((): float[] => []);
+  for (let run = 0; run < warmUpCount; run++) {
+    runStages(
+      regionPartitioning,
+      stageNames.map((): float[] => [])
+    );
+  }
+  let result = "";
+  for (let run = 0; run < runCount; run++) {
+    result = runStages(regionPartitioning, durations);
+  }
+  console.log(`${regionPartitioning}: ${result}`);
+  let total = 0;
+  for (let index = 0; index < stageNames.length; index++) {
+    const duration = median(durations[index]);
+    total += duration;
+    console.log(`  ${stageNames[index]}: ${duration.toFixed(1)} ms`);
+  }
+  console.log(`  total: ${total.toFixed(1)} ms`);
+}
@@ -13,6 +13,15 @@ export default [
 		},
 		plugins: [typescript()],
 	},
+	{
+		input: 'src/NavMeshWorkerEntry.ts',
+		output: {
+			format: 'iife',
+			file: 'dist/NavMeshGeneratorWorker.js',
+			sourcemap: true,
+		},
+		plugins: [typescript()],
+	},
 	{
 		input: "src/index.ts",
 		output: [{ file: "dist/NavMeshGenerator.d.ts", format: "umd" }],
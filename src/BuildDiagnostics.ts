@@ -0,0 +1,138 @@
+import { Point, integer } from "./CommonTypes";
+
+/**
+ * Receives the messages of the NavMesh generation.
+ */
+export interface NavMeshLogger {
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+/**
+ * A cell whose all neighbors are in other regions.
+ * It can't form a contour so it's discarded.
+ */
+export interface DiscardedIslandCell {
+  /** The cell position on the grid. */
+  x: integer;
+  /** The cell position on the grid. */
+  y: integer;
+  regionID: integer;
+}
+
+/**
+ * There should be one contour by region.
+ */
+export interface ContourRegionMismatch {
+  regionCount: integer;
+  contourCount: integer;
+  discardedContourCount: integer;
+}
+
+/**
+ * A contour that couldn't be split into convex polygons.
+ * It's usually due to bad region formation.
+ */
+export interface FailedTriangulation {
+  contour: Point[];
+}
+
+/**
+ * The number of elements built by each step of the generation.
+ */
+export interface BuildStageCounts {
+  obstacleCells: integer;
+  regions: integer;
+  contours: integer;
+  polygons: integer;
+}
+
+/**
+ * Gathers the issues found during a NavMesh build.
+ *
+ * Every issue is also sent to the logger.
+ */
+export class BuildDiagnostics {
+  static readonly consoleLogger: NavMeshLogger = {
+    warn: (message: string) => console.warn(message),
+    error: (message: string) => console.error(message),
+  };
+
+  static readonly silentLogger: NavMeshLogger = {
+    warn: (message: string) => {},
+    error: (message: string) => {},
+  };
+
+  logger: NavMeshLogger;
+  discardedIslandCells: DiscardedIslandCell[] = [];
+  contourRegionMismatches: ContourRegionMismatch[] = [];
+  failedTriangulations: FailedTriangulation[] = [];
+  stageCounts: BuildStageCounts = {
+    obstacleCells: 0,
+    regions: 0,
+    contours: 0,
+    polygons: 0,
+  };
+
+  constructor(logger: NavMeshLogger = BuildDiagnostics.consoleLogger) {
+    this.logger = logger;
+  }
+
+  /**
+   * @returns true if any issue was found.
+   */
+  hasIssues(): boolean {
+    return (
+      this.discardedIslandCells.length > 0 ||
+      this.contourRegionMismatches.length > 0 ||
+      this.failedTriangulations.length > 0
+    );
+  }
+
+  addDiscardedIslandCell(x: integer, y: integer, regionID: integer): void {
+    this.discardedIslandCells.push({ x, y, regionID });
+    this.logger.warn(
+      "Discarded contour: Island cell. Can't form  a contour. Region: " +
+        regionID
+    );
+  }
+
+  addContourRegionMismatch(
+    regionCount: integer,
+    contourCount: integer,
+    discardedContourCount: integer
+  ): void {
+    this.contourRegionMismatches.push({
+      regionCount,
+      contourCount,
+      discardedContourCount,
+    });
+    this.logger.error(
+      "Contour generation failed: Detected contours does" +
+        " not match the number of regions. Regions: " +
+        regionCount +
+        ", Detected contours: " +
+        (contourCount + discardedContourCount) +
+        " (Actual: " +
+        contourCount +
+        ", Discarded: " +
+        discardedContourCount +
+        ")"
+    );
+  }
+
+  /**
+   * @param contour The vertices are copied.
+   */
+  addFailedTriangulation(contour: Point[]): void {
+    this.failedTriangulations.push({
+      contour: contour.map((point) => ({ x: point.x, y: point.y })),
+    });
+    this.logger.error(
+      "Polygon generation failure: Could not triangulate contour."
+    );
+    this.logger.error(
+      "contour:" + contour.map((point) => point.x + " " + point.y).join(" ; ")
+    );
+  }
+}
@@ -0,0 +1,351 @@
+import { ChunkedRasterizationGrid } from "./ChunkedRasterizationGrid";
+import { float, integer } from "./CommonTypes";
+import { ContourPoint } from "./ContourPoint";
+import { RasterizationCell } from "./RasterizationCell";
+
+/**
+ * Gathers the contours of the chunks of a {@link ChunkedRasterizationGrid}
+ * and adds the contours of the empty chunks.
+ *
+ * The chunks are processed independently so their contours follow the
+ * chunk bounds. The vertices along these bounds are shared by the contours
+ * on both sides to avoid T-junctions between the NavMesh polygons.
+ */
+export class ChunkContourBuilder {
+  private workingMovedPoints: Set<ContourPoint>;
+  private workingBounds: {
+    minX: integer;
+    minY: integer;
+    maxX: integer;
+    maxY: integer;
+  };
+
+  constructor() {
+    this.workingMovedPoints = new Set<ContourPoint>();
+    this.workingBounds = { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  }
+
+  /**
+   * Move contours from a chunk grid to the whole grid basis.
+   *
+   * @param grid
+   * @param chunkIndex the chunk the contours were built from.
+   * @param contours The vertices are moved in place.
+   */
+  moveChunkContours(
+    grid: ChunkedRasterizationGrid,
+    chunkIndex: integer,
+    contours: ContourPoint[][]
+  ): void {
+    const offsetX = grid.chunkCellOffsetX(chunkIndex);
+    const offsetY = grid.chunkCellOffsetY(chunkIndex);
+    // Vertices can be shared by contours.
+    const movedPoints = this.workingMovedPoints;
+    movedPoints.clear();
+    for (const contour of contours) {
+      for (const point of contour) {
+        if (movedPoints.has(point)) {
+          continue;
+        }
+        movedPoints.add(point);
+        point.x += offsetX;
+        point.y += offsetY;
+      }
+    }
+    movedPoints.clear();
+  }
+
+  /**
+   * Add a rectangular contour for the region of each run of empty chunks
+   * (see {@link ChunkedRasterizationGrid.addEmptyChunkRegions}).
+   *
+   * @param grid
+   * @param obstacleCellPadding
+   * @param maxEdgeLength The maximum length (in cells) of the edges along
+   * the area bounds. The value 0 means that edges are never split.
+   * @param outContours receives the contours.
+   * @param outAreaIDs receives the area of each contour. Empty chunks are
+   * in the default area.
+   */
+  buildEmptyChunkContours(
+    grid: ChunkedRasterizationGrid,
+    obstacleCellPadding: integer,
+    maxEdgeLength: float,
+    outContours: ContourPoint[][],
+    outAreaIDs: integer[] = []
+  ): void {
+    const chunkCountX = grid.chunkCountX();
+    const chunkCount = chunkCountX * grid.chunkCountY();
+    const bounds = this.workingBounds;
+    for (let chunkIndex = 0; chunkIndex < chunkCount; chunkIndex++) {
+      const regionID = grid.getEmptyChunkRegionID(chunkIndex);
+      if (
+        regionID === RasterizationCell.OBSTACLE_REGION_ID ||
+        // The run was already added from its 1st chunk.
+        (chunkIndex % chunkCountX > 0 &&
+          grid.getEmptyChunkRegionID(chunkIndex - 1) === regionID)
+      ) {
+        continue;
+      }
+      grid.getEmptyRegionBounds(chunkIndex, bounds);
+      this.pushRectangle(
+        grid,
+        bounds,
+        obstacleCellPadding,
+        maxEdgeLength,
+        outContours
+      );
+      outAreaIDs.push(RasterizationCell.DEFAULT_AREA_ID);
+    }
+  }
+
+  /**
+   * @param bounds the walkable cells of the rectangle: the minimum is
+   * included and the maximum is excluded.
+   */
+  private pushRectangle(
+    grid: ChunkedRasterizationGrid,
+    bounds: { minX: integer; minY: integer; maxX: integer; maxY: integer },
+    obstacleCellPadding: integer,
+    maxEdgeLength: float,
+    outContours: ContourPoint[][]
+  ): void {
+    // The area border ring is an obstacle.
+    const isLeftBorder = bounds.minX === 1 + obstacleCellPadding;
+    const isTopBorder = bounds.minY === 1 + obstacleCellPadding;
+    const isRightBorder = bounds.maxX === grid.dimX() - 1 - obstacleCellPadding;
+    const isBottomBorder =
+      bounds.maxY === grid.dimY() - 1 - obstacleCellPadding;
+    const left = bounds.minX;
+    const top = bounds.minY;
+    const right = bounds.maxX;
+    const bottom = bounds.maxY;
+    // Same winding as the contours of the ContourBuilder.
+    const contour = new Array<ContourPoint>();
+    this.pushEdge(
+      contour,
+      left,
+      top,
+      left,
+      bottom,
+      isLeftBorder ? maxEdgeLength : 0
+    );
+    this.pushEdge(
+      contour,
+      left,
+      bottom,
+      right,
+      bottom,
+      isBottomBorder ? maxEdgeLength : 0
+    );
+    this.pushEdge(
+      contour,
+      right,
+      bottom,
+      right,
+      top,
+      isRightBorder ? maxEdgeLength : 0
+    );
+    this.pushEdge(
+      contour,
+      right,
+      top,
+      left,
+      top,
+      isTopBorder ? maxEdgeLength : 0
+    );
+    outContours.push(contour);
+  }
+
+  /**
+   * Push the vertices of an edge except its end.
+   *
+   * @param maxEdgeLength 0 means that the edge is not split.
+   */
+  private pushEdge(
+    contour: ContourPoint[],
+    ax: integer,
+    ay: integer,
+    bx: integer,
+    by: integer,
+    maxEdgeLength: float
+  ): void {
+    const length = Math.abs(bx - ax) + Math.abs(by - ay);
+    const partCount =
+      maxEdgeLength > 0 ? Math.max(1, Math.ceil(length / maxEdgeLength)) : 1;
+    for (let part = 0; part < partCount; part++) {
+      // Vertices stay on cell corners.
+      const offset = Math.floor((length * part) / partCount);
+      contour.push({
+        x: ax + ((bx - ax) * offset) / length,
+        y: ay + ((by - ay) * offset) / length,
+        region: RasterizationCell.OBSTACLE_REGION_ID,
+      });
+    }
+  }
+
+  /**
+   * Insert in the contour edges along chunk bounds the vertices of the
+   * other contours that are on these edges.
+   *
+   * @param grid
+   * @param contours in the whole grid basis. They are modified in place.
+   */
+  stitchChunkBorders(
+    grid: ChunkedRasterizationGrid,
+    contours: ContourPoint[][]
+  ): void {
+    // The vertex positions along each chunk border line by line position.
+    const verticalLines = new Map<integer, float[]>();
+    const horizontalLines = new Map<integer, float[]>();
+    for (const contour of contours) {
+      for (const point of contour) {
+        if (this.isChunkBorder(point.x, grid.chunkSize, grid.dimX())) {
+          ChunkContourBuilder.addLinePosition(verticalLines, point.x, point.y);
+        }
+        if (this.isChunkBorder(point.y, grid.chunkSize, grid.dimY())) {
+          ChunkContourBuilder.addLinePosition(
+            horizontalLines,
+            point.y,
+            point.x
+          );
+        }
+      }
+    }
+    const sortLine = (positions: float[]) => {
+      positions.sort((a, b) => a - b);
+      let uniqueCount = 0;
+      for (let index = 0; index < positions.length; index++) {
+        if (
+          uniqueCount === 0 ||
+          positions[uniqueCount - 1] !== positions[index]
+        ) {
+          positions[uniqueCount] = positions[index];
+          uniqueCount++;
+        }
+      }
+      positions.length = uniqueCount;
+    };
+    verticalLines.forEach(sortLine);
+    horizontalLines.forEach(sortLine);
+
+    const stitchedContour = new Array<ContourPoint>();
+    for (const contour of contours) {
+      // Contours with 2 vertices are ignored by the triangulation.
+      if (contour.length < 3) {
+        continue;
+      }
+      stitchedContour.length = 0;
+      for (let index = 0; index < contour.length; index++) {
+        const pointA = contour[index];
+        const pointB = contour[(index + 1) % contour.length];
+        stitchedContour.push(pointA);
+        if (pointA.x === pointB.x) {
+          const positions = verticalLines.get(pointA.x);
+          if (positions) {
+            ChunkContourBuilder.pushLinePositions(
+              positions,
+              pointA.y,
+              pointB.y,
+              (position) => ({
+                x: pointA.x,
+                y: position,
+                region: RasterizationCell.OBSTACLE_REGION_ID,
+              }),
+              stitchedContour
+            );
+          }
+        } else if (pointA.y === pointB.y) {
+          const positions = horizontalLines.get(pointA.y);
+          if (positions) {
+            ChunkContourBuilder.pushLinePositions(
+              positions,
+              pointA.x,
+              pointB.x,
+              (position) => ({
+                x: position,
+                y: pointA.y,
+                region: RasterizationCell.OBSTACLE_REGION_ID,
+              }),
+              stitchedContour
+            );
+          }
+        }
+      }
+      if (stitchedContour.length !== contour.length) {
+        contour.length = 0;
+        Array.prototype.push.apply(contour, stitchedContour);
+      }
+    }
+  }
+
+  /**
+   * @param position a vertex coordinate in the whole grid basis.
+   * @param chunkSize
+   * @param dim the grid dimension on the same axis.
+   * @returns true when the position is on a line between 2 chunks.
+   */
+  private isChunkBorder(
+    position: float,
+    chunkSize: integer,
+    dim: integer
+  ): boolean {
+    return (
+      1 < position && position < dim - 1 && (position - 1) % chunkSize === 0
+    );
+  }
+
+  private static addLinePosition(
+    lines: Map<integer, float[]>,
+    line: integer,
+    position: float
+  ): void {
+    let positions = lines.get(line);
+    if (!positions) {
+      positions = [];
+      lines.set(line, positions);
+    }
+    positions.push(position);
+  }
+
+  /**
+   * Push the vertices strictly between 2 positions in the order from A to
+   * B.
+   *
+   * @param positions sorted positions without duplicates.
+   */
+  private static pushLinePositions(
+    positions: float[],
+    positionA: float,
+    positionB: float,
+    createPoint: (position: float) => ContourPoint,
+    outContour: ContourPoint[]
+  ): void {
+    const min = Math.min(positionA, positionB);
+    const max = Math.max(positionA, positionB);
+    // Binary search of the 1st position greater than min.
+    let low = 0;
+    let high = positions.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (positions[middle] <= min) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    let end = low;
+    while (end < positions.length && positions[end] < max) {
+      end++;
+    }
+    if (positionA < positionB) {
+      for (let index = low; index < end; index++) {
+        outContour.push(createPoint(positions[index]));
+      }
+    } else {
+      for (let index = end - 1; index >= low; index--) {
+        outContour.push(createPoint(positions[index]));
+      }
+    }
+  }
+}
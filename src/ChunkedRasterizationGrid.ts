@@ -0,0 +1,763 @@
+import { Point, float, integer } from "./CommonTypes";
+import { RasterizationCell } from "./RasterizationCell";
+import { GridBasis, RasterizationGrid } from "./RasterizationGrid";
+
+/**
+ * The cells of a huge area split in square chunks where only the chunks
+ * near obstacles are allocated.
+ *
+ * A materialized chunk is a {@link RasterizationGrid} with a margin of
+ * cells around the chunk. Obstacles in the margin give the same distance
+ * field as a grid of the whole area up to the margin width, so the margin
+ * must be wider than the obstacle padding. The other chunks are either
+ * empty (fully walkable) or solid (fully blocked) and take 1 byte.
+ *
+ * Cell coordinates are the ones of a grid of the whole area: the border
+ * ring is at 0 and `dimX() - 1`. A cell is at
+ * `x + chunkCellOffsetX(chunkIndex)` when it's at `x` in its chunk grid.
+ * Chunks are identified by their index: `chunkY * chunkCountX() + chunkX`.
+ *
+ * Region IDs are unique in the whole grid: the ones of a chunk grid are
+ * shifted and each run of empty chunks on a chunk row is a region.
+ *
+ * Chunk grids convert positions with the basis of the whole grid so they
+ * have the same obstacle cells as a grid of the whole area. The regions
+ * are not the same though because they are built chunk by chunk:
+ * - regions stop at the chunk bounds, so the small region settings
+ *   (minRegionArea and mergeRegionArea) apply to the part of a region in a
+ *   chunk,
+ * - the cells along the chunk bounds that the watershed or the obstacle
+ *   region borders cleaner leave alone in a chunk are discarded as islands,
+ * - a cell along the chunk bounds that is farther from obstacles than all
+ *   its neighbors in the chunk is lowered to its farthest neighbor (see
+ *   {@link ChunkedRasterizationGrid.closeMargin}).
+ * This way, walkable cells can differ from a grid of the whole area within
+ * a few cells from the chunk bounds.
+ */
+export class ChunkedRasterizationGrid implements GridBasis {
+  static readonly EMPTY_CHUNK = 0;
+  static readonly SOLID_CHUNK = 1;
+  static readonly MATERIALIZED_CHUNK = 2;
+
+  readonly originX: float;
+  readonly originY: float;
+  readonly cellWidth: float;
+  readonly cellHeight: float;
+  /** The cell count on a chunk side. */
+  readonly chunkSize: integer;
+  /**
+   * A grid where every cell is a chunk. It's used to find the chunks an
+   * obstacle touches. Its cell `(chunkX + 1, chunkY + 1)` is the chunk
+   * `(chunkX, chunkY)`.
+   */
+  readonly chunkGrid: RasterizationGrid;
+  /** Like {@link RasterizationGrid.regionCount} for the whole grid. */
+  regionCount: integer = 0;
+
+  private readonly cellCountX: integer;
+  private readonly cellCountY: integer;
+  private readonly chunkCountXValue: integer;
+  private readonly chunkCountYValue: integer;
+  private readonly chunkStates: Uint8Array;
+  private readonly chunks: Map<integer, RasterizationGrid>;
+  private chunkIndexes: integer[];
+  private marginCellCount: integer;
+  /**
+   * What to add to the region IDs of a materialized chunk or the region ID
+   * of an empty chunk.
+   */
+  private readonly chunkRegionIDs: Int32Array;
+  private obstacleCellPadding: integer;
+  private workingBounds: {
+    minX: integer;
+    minY: integer;
+    maxX: integer;
+    maxY: integer;
+  };
+
+  /**
+   * @param left
+   * @param top
+   * @param right
+   * @param bottom
+   * @param cellWidth
+   * @param cellHeight
+   * @param chunkSize the cell count on a chunk side.
+   */
+  constructor(
+    left: float,
+    top: float,
+    right: float,
+    bottom: float,
+    cellWidth: float,
+    cellHeight: float,
+    chunkSize: integer
+  ) {
+    this.cellWidth = cellWidth;
+    this.cellHeight = cellHeight;
+    this.originX = left - cellWidth;
+    this.originY = top - cellHeight;
+    this.chunkSize = chunkSize;
+
+    this.cellCountX = 2 + Math.ceil((right - left) / cellWidth);
+    this.cellCountY = 2 + Math.ceil((bottom - top) / cellHeight);
+    this.chunkCountXValue = Math.max(
+      1,
+      Math.ceil((this.cellCountX - 2) / chunkSize)
+    );
+    this.chunkCountYValue = Math.max(
+      1,
+      Math.ceil((this.cellCountY - 2) / chunkSize)
+    );
+    this.chunkGrid = new RasterizationGrid(
+      left,
+      top,
+      left + this.chunkCountXValue * chunkSize * cellWidth,
+      top + this.chunkCountYValue * chunkSize * cellHeight,
+      chunkSize * cellWidth,
+      chunkSize * cellHeight,
+      2 + this.chunkCountXValue,
+      2 + this.chunkCountYValue
+    );
+    this.chunkStates = new Uint8Array(
+      this.chunkCountXValue * this.chunkCountYValue
+    );
+    this.chunks = new Map<integer, RasterizationGrid>();
+    this.chunkIndexes = [];
+    this.marginCellCount = 1;
+    this.chunkRegionIDs = new Int32Array(this.chunkStates.length);
+    this.obstacleCellPadding = 0;
+    this.workingBounds = { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  }
+
+  /**
+   * Free every chunk.
+   *
+   * @param marginCellCount the margin of the next chunks. It must be
+   * greater than the obstacle padding and at most the chunk size.
+   * @param chunkState the state of the chunks that won't be materialized.
+   */
+  clear(marginCellCount: integer, chunkState: integer): void {
+    this.marginCellCount = marginCellCount;
+    for (let index = 0; index < this.chunkStates.length; index++) {
+      this.chunkStates[index] = chunkState;
+    }
+    this.chunks.clear();
+    this.chunkIndexes.length = 0;
+    this.clearRegions(0);
+  }
+
+  /**
+   * Forget the regions of the chunks but keep their obstacles and distance
+   * fields.
+   *
+   * @param obstacleCellPadding the padding of the next regions.
+   */
+  clearRegions(obstacleCellPadding: integer): void {
+    this.obstacleCellPadding = obstacleCellPadding;
+    for (let index = 0; index < this.chunkRegionIDs.length; index++) {
+      this.chunkRegionIDs[index] = RasterizationCell.OBSTACLE_REGION_ID;
+    }
+    // Region IDs start at 1 like in a RasterizationGrid.
+    this.regionCount = 1;
+  }
+
+  /**
+   * Make the region IDs of a chunk unique in the whole grid once its
+   * regions are generated.
+   */
+  addChunkRegions(chunkIndex: integer): void {
+    const chunk = this.chunks.get(chunkIndex)!;
+    this.chunkRegionIDs[chunkIndex] = this.regionCount - 1;
+    this.regionCount += Math.max(chunk.regionCount - 1, 0);
+  }
+
+  /**
+   * Give a region to each run of empty chunks on a chunk row.
+   *
+   * Empty chunks have no obstacle near them, so they are fully walkable
+   * except for the padding along the area bounds.
+   */
+  addEmptyChunkRegions(): void {
+    const bounds = this.workingBounds;
+    for (let chunkY = 0; chunkY < this.chunkCountYValue; chunkY++) {
+      const rowStart = chunkY * this.chunkCountXValue;
+      const rowEnd = rowStart + this.chunkCountXValue;
+      let chunkIndex = rowStart;
+      while (chunkIndex < rowEnd) {
+        if (
+          this.chunkStates[chunkIndex] !== ChunkedRasterizationGrid.EMPTY_CHUNK
+        ) {
+          chunkIndex++;
+          continue;
+        }
+        const runStart = chunkIndex;
+        while (
+          chunkIndex < rowEnd &&
+          this.chunkStates[chunkIndex] === ChunkedRasterizationGrid.EMPTY_CHUNK
+        ) {
+          chunkIndex++;
+        }
+        if (!this.getRunWalkableBounds(runStart, chunkIndex - 1, bounds)) {
+          // The run is thinner than the padding.
+          continue;
+        }
+        for (let index = runStart; index < chunkIndex; index++) {
+          this.chunkRegionIDs[index] = this.regionCount;
+        }
+        this.regionCount++;
+      }
+    }
+  }
+
+  /**
+   * @returns the region ID of an empty chunk or
+   * {@link RasterizationCell.OBSTACLE_REGION_ID} when it has no walkable
+   * cell.
+   */
+  getEmptyChunkRegionID(chunkIndex: integer): integer {
+    return this.chunkStates[chunkIndex] === ChunkedRasterizationGrid.EMPTY_CHUNK
+      ? this.chunkRegionIDs[chunkIndex]
+      : RasterizationCell.OBSTACLE_REGION_ID;
+  }
+
+  /**
+   * Give the walkable cells of the region of an empty chunk.
+   *
+   * @param chunkIndex an empty chunk with a region.
+   * @param outBounds receives the bounds: the minimum is included and the
+   * maximum is excluded.
+   * @returns the bounds.
+   */
+  getEmptyRegionBounds(
+    chunkIndex: integer,
+    outBounds: { minX: integer; minY: integer; maxX: integer; maxY: integer }
+  ) {
+    const regionID = this.getEmptyChunkRegionID(chunkIndex);
+    const rowStart = chunkIndex - (chunkIndex % this.chunkCountXValue);
+    const rowEnd = rowStart + this.chunkCountXValue;
+    let runStart = chunkIndex;
+    while (
+      runStart > rowStart &&
+      this.getEmptyChunkRegionID(runStart - 1) === regionID
+    ) {
+      runStart--;
+    }
+    let runEnd = chunkIndex + 1;
+    while (runEnd < rowEnd && this.getEmptyChunkRegionID(runEnd) === regionID) {
+      runEnd++;
+    }
+    this.getRunWalkableBounds(runStart, runEnd - 1, outBounds);
+    return outBounds;
+  }
+
+  /**
+   * @param firstChunkIndex
+   * @param lastChunkIndex a chunk on the same row, included.
+   * @param outBounds receives the cells of the chunks that are farther than
+   * the padding from the area border ring.
+   * @returns false when there is no such cell.
+   */
+  private getRunWalkableBounds(
+    firstChunkIndex: integer,
+    lastChunkIndex: integer,
+    outBounds: { minX: integer; minY: integer; maxX: integer; maxY: integer }
+  ): boolean {
+    const padding = this.obstacleCellPadding;
+    this.getChunkBounds(lastChunkIndex, outBounds);
+    const maxX = Math.min(outBounds.maxX, this.cellCountX - 1 - padding);
+    const maxY = Math.min(outBounds.maxY, this.cellCountY - 1 - padding);
+    this.getChunkBounds(firstChunkIndex, outBounds);
+    outBounds.minX = Math.max(outBounds.minX, 1 + padding);
+    outBounds.minY = Math.max(outBounds.minY, 1 + padding);
+    outBounds.maxX = maxX;
+    outBounds.maxY = maxY;
+    return outBounds.minX < outBounds.maxX && outBounds.minY < outBounds.maxY;
+  }
+
+  /**
+   * @returns the chunk of a cell or -1 when the cell is outside of the
+   * area.
+   */
+  chunkIndexOf(x: integer, y: integer): integer {
+    if (
+      x < 1 ||
+      y < 1 ||
+      x >= this.cellCountX - 1 ||
+      y >= this.cellCountY - 1
+    ) {
+      return -1;
+    }
+    return (
+      Math.floor((y - 1) / this.chunkSize) * this.chunkCountXValue +
+      Math.floor((x - 1) / this.chunkSize)
+    );
+  }
+
+  /**
+   * Like {@link RasterizationCell.regionID} of the last regions.
+   *
+   * @returns the region ID of the cell or
+   * {@link RasterizationCell.OBSTACLE_REGION_ID} when it's not walkable or
+   * outside of the area.
+   */
+  getRegionID(x: integer, y: integer): integer {
+    const chunkIndex = this.chunkIndexOf(x, y);
+    if (chunkIndex < 0) {
+      return RasterizationCell.OBSTACLE_REGION_ID;
+    }
+    const chunkState = this.chunkStates[chunkIndex];
+    if (chunkState === ChunkedRasterizationGrid.EMPTY_CHUNK) {
+      return this.distanceToAreaBorder(x, y) > this.obstacleCellPadding
+        ? this.chunkRegionIDs[chunkIndex]
+        : RasterizationCell.OBSTACLE_REGION_ID;
+    }
+    if (chunkState === ChunkedRasterizationGrid.SOLID_CHUNK) {
+      return RasterizationCell.OBSTACLE_REGION_ID;
+    }
+    const chunk = this.chunks.get(chunkIndex)!;
+    const regionID =
+      chunk.regionIDs[
+        chunk.indexOf(
+          x - this.chunkCellOffsetX(chunkIndex),
+          y - this.chunkCellOffsetY(chunkIndex)
+        )
+      ];
+    return regionID === RasterizationCell.OBSTACLE_REGION_ID
+      ? regionID
+      : regionID + this.chunkRegionIDs[chunkIndex];
+  }
+
+  /**
+   * Like {@link RasterizationCell.distanceToObstacle}.
+   *
+   * Chunks only know the obstacles up to their margin, so farther from
+   * obstacles the distance can be less than in a grid of the whole area.
+   *
+   * @returns the distance or 0 when the cell is outside of the area.
+   */
+  getDistanceToObstacle(x: integer, y: integer): integer {
+    const chunkIndex = this.chunkIndexOf(x, y);
+    if (chunkIndex < 0) {
+      return 0;
+    }
+    const chunkState = this.chunkStates[chunkIndex];
+    if (chunkState === ChunkedRasterizationGrid.EMPTY_CHUNK) {
+      // There is no obstacle in the margin around an empty chunk.
+      const bounds = this.getChunkBounds(chunkIndex, this.workingBounds);
+      const depth = Math.min(
+        x - bounds.minX,
+        y - bounds.minY,
+        bounds.maxX - 1 - x,
+        bounds.maxY - 1 - y
+      );
+      return (
+        2 *
+        Math.min(
+          this.distanceToAreaBorder(x, y),
+          depth + this.marginCellCount + 1
+        )
+      );
+    }
+    if (chunkState === ChunkedRasterizationGrid.SOLID_CHUNK) {
+      return 0;
+    }
+    const chunk = this.chunks.get(chunkIndex)!;
+    return chunk.distancesToObstacle[
+      chunk.indexOf(
+        x - this.chunkCellOffsetX(chunkIndex),
+        y - this.chunkCellOffsetY(chunkIndex)
+      )
+    ];
+  }
+
+  /**
+   * @returns the cell count to the area border ring.
+   */
+  private distanceToAreaBorder(x: integer, y: integer): integer {
+    return Math.min(x, y, this.cellCountX - 1 - x, this.cellCountY - 1 - y);
+  }
+
+  /**
+   * Allocate the grid of a chunk.
+   *
+   * @returns the chunk grid where every cell is walkable.
+   */
+  materializeChunk(chunkIndex: integer): RasterizationGrid {
+    const margin = this.marginCellCount;
+    const cellCount = this.chunkSize + 2 * margin;
+    const left =
+      this.originX + (this.chunkCellOffsetX(chunkIndex) + 1) * this.cellWidth;
+    const top =
+      this.originY + (this.chunkCellOffsetY(chunkIndex) + 1) * this.cellHeight;
+    const chunk = new RasterizationGrid(
+      left,
+      top,
+      left + cellCount * this.cellWidth,
+      top + cellCount * this.cellHeight,
+      this.cellWidth,
+      this.cellHeight,
+      2 + cellCount,
+      2 + cellCount
+    );
+    // Obstacles give the same cells as in a grid of the whole area.
+    chunk.setParentBasis(
+      this.originX,
+      this.originY,
+      this.chunkCellOffsetX(chunkIndex),
+      this.chunkCellOffsetY(chunkIndex)
+    );
+    this.chunkStates[chunkIndex] = ChunkedRasterizationGrid.MATERIALIZED_CHUNK;
+    this.chunks.set(chunkIndex, chunk);
+    this.chunkIndexes.push(chunkIndex);
+    return chunk;
+  }
+
+  /**
+   * @returns the chunk grid or null when the chunk is not materialized.
+   */
+  getChunk(chunkIndex: integer): RasterizationGrid | null {
+    const chunk = this.chunks.get(chunkIndex);
+    return chunk ? chunk : null;
+  }
+
+  /**
+   * @returns {@link ChunkedRasterizationGrid.EMPTY_CHUNK},
+   * {@link ChunkedRasterizationGrid.SOLID_CHUNK} or
+   * {@link ChunkedRasterizationGrid.MATERIALIZED_CHUNK}.
+   */
+  getChunkState(chunkIndex: integer): integer {
+    return this.chunkStates[chunkIndex];
+  }
+
+  /**
+   * @returns the indexes of the materialized chunks in the order they were
+   * materialized.
+   */
+  materializedChunkIndexes(): integer[] {
+    return this.chunkIndexes;
+  }
+
+  chunkCountX(): integer {
+    return this.chunkCountXValue;
+  }
+
+  chunkCountY(): integer {
+    return this.chunkCountYValue;
+  }
+
+  /**
+   * @returns the distance in cells from the border ring of a chunk grid to
+   * the cells along the chunk bounds. The regions with a cell this close to
+   * the ring may continue in other chunks.
+   */
+  chunkBoundsCellDistance(): integer {
+    return this.marginCellCount + 1;
+  }
+
+  /**
+   * @returns what to add to the x of a cell in the chunk grid to have it
+   * in this grid.
+   */
+  chunkCellOffsetX(chunkIndex: integer): integer {
+    return (
+      (chunkIndex % this.chunkCountXValue) * this.chunkSize -
+      this.marginCellCount
+    );
+  }
+
+  /**
+   * @returns what to add to the y of a cell in the chunk grid to have it
+   * in this grid.
+   */
+  chunkCellOffsetY(chunkIndex: integer): integer {
+    return (
+      Math.floor(chunkIndex / this.chunkCountXValue) * this.chunkSize -
+      this.marginCellCount
+    );
+  }
+
+  /**
+   * Give the cells of a chunk without its margin.
+   *
+   * The area border ring is not part of any chunk.
+   *
+   * @param outBounds receives the bounds in this grid: the minimum is
+   * included and the maximum is excluded.
+   * @returns the bounds.
+   */
+  getChunkBounds(
+    chunkIndex: integer,
+    outBounds: { minX: integer; minY: integer; maxX: integer; maxY: integer }
+  ) {
+    const chunkX = chunkIndex % this.chunkCountXValue;
+    const chunkY = Math.floor(chunkIndex / this.chunkCountXValue);
+    outBounds.minX = 1 + chunkX * this.chunkSize;
+    outBounds.minY = 1 + chunkY * this.chunkSize;
+    outBounds.maxX = Math.min(
+      outBounds.minX + this.chunkSize,
+      this.cellCountX - 1
+    );
+    outBounds.maxY = Math.min(
+      outBounds.minY + this.chunkSize,
+      this.cellCountY - 1
+    );
+    return outBounds;
+  }
+
+  /**
+   * Find the neighbor chunks with an obstacle of a chunk in their margin.
+   *
+   * @param chunkIndex a rasterized chunk.
+   * @param outChunkIndexes receives the neighbor chunks.
+   */
+  pushChunksInObstacleMargin(
+    chunkIndex: integer,
+    outChunkIndexes: integer[]
+  ): void {
+    const chunk = this.chunks.get(chunkIndex)!;
+    const margin = this.marginCellCount;
+    const offsetX = this.chunkCellOffsetX(chunkIndex);
+    const offsetY = this.chunkCellOffsetY(chunkIndex);
+    const chunkX = chunkIndex % this.chunkCountXValue;
+    const chunkY = Math.floor(chunkIndex / this.chunkCountXValue);
+    const bounds = this.getChunkBounds(chunkIndex, {
+      minX: 0,
+      minY: 0,
+      maxX: 0,
+      maxY: 0,
+    });
+    for (const delta of RasterizationGrid.neighbor8Deltas) {
+      const neighborX = chunkX + delta.x;
+      const neighborY = chunkY + delta.y;
+      if (
+        neighborX < 0 ||
+        neighborX >= this.chunkCountXValue ||
+        neighborY < 0 ||
+        neighborY >= this.chunkCountYValue
+      ) {
+        continue;
+      }
+      // The cells of the chunk that are in the neighbor margin.
+      const minX =
+        delta.x > 0 ? Math.max(bounds.maxX - margin, bounds.minX) : bounds.minX;
+      const maxX =
+        delta.x < 0 ? Math.min(bounds.minX + margin, bounds.maxX) : bounds.maxX;
+      const minY =
+        delta.y > 0 ? Math.max(bounds.maxY - margin, bounds.minY) : bounds.minY;
+      const maxY =
+        delta.y < 0 ? Math.min(bounds.minY + margin, bounds.maxY) : bounds.maxY;
+      if (
+        this.hasObstacleCell(
+          chunk,
+          minX - offsetX,
+          minY - offsetY,
+          maxX - offsetX,
+          maxY - offsetY
+        )
+      ) {
+        outChunkIndexes.push(neighborY * this.chunkCountXValue + neighborX);
+      }
+    }
+  }
+
+  /**
+   * @param minX included
+   * @param minY included
+   * @param maxX excluded
+   * @param maxY excluded
+   */
+  private hasObstacleCell(
+    chunk: RasterizationGrid,
+    minX: integer,
+    minY: integer,
+    maxX: integer,
+    maxY: integer
+  ): boolean {
+    for (let y = minY; y < maxY; y++) {
+      for (let x = minX; x < maxX; x++) {
+        if (chunk.distancesToObstacle[chunk.indexOf(x, y)] === 0) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Block the cells of a chunk grid that are outside of the area like the
+   * border ring of a grid of the whole area.
+   */
+  closeCellsOutsideArea(chunkIndex: integer): void {
+    const offsetX = this.chunkCellOffsetX(chunkIndex);
+    const offsetY = this.chunkCellOffsetY(chunkIndex);
+    this.closeCellsOutside(
+      this.chunks.get(chunkIndex)!,
+      1 - offsetX,
+      1 - offsetY,
+      this.cellCountX - 1 - offsetX,
+      this.cellCountY - 1 - offsetY
+    );
+  }
+
+  /**
+   * Block the margin of a chunk grid once its distance field is generated.
+   *
+   * This way, the regions stop at the chunk bounds and the chunks can be
+   * processed independently. The cells along the chunk bounds that are
+   * farther from obstacles than all their neighbors are lowered to their
+   * farthest neighbor.
+   */
+  closeMargin(chunkIndex: integer): void {
+    const margin = this.marginCellCount;
+    const bounds = this.getChunkBounds(chunkIndex, {
+      minX: 0,
+      minY: 0,
+      maxX: 0,
+      maxY: 0,
+    });
+    const chunk = this.chunks.get(chunkIndex)!;
+    const minX = margin + 1;
+    const minY = margin + 1;
+    const maxX = margin + 1 + bounds.maxX - bounds.minX;
+    const maxY = margin + 1 + bounds.maxY - bounds.minY;
+    this.closeCellsOutside(chunk, minX, minY, maxX, maxY);
+    this.lowerBorderPeaks(chunk, minX, minY, maxX, maxY);
+  }
+
+  /**
+   * Lower the distance of the cells along the chunk bounds that are farther
+   * from obstacles than all their neighbors to the one of their farthest
+   * neighbor.
+   *
+   * Without the margin, such a cell can be walkable while none of its
+   * neighbors are. It would be a region of 1 cell that can't form any
+   * contour. It happens in chunk corners with the euclidean distance field
+   * that doesn't always link diagonal cells. Once lowered, the cell is only
+   * walkable with the paddings where one of its neighbors is walkable too.
+   *
+   * @param minX included
+   * @param minY included
+   * @param maxX excluded
+   * @param maxY excluded
+   */
+  private lowerBorderPeaks(
+    chunk: RasterizationGrid,
+    minX: integer,
+    minY: integer,
+    maxX: integer,
+    maxY: integer
+  ): void {
+    const distancesToObstacle = chunk.distancesToObstacle;
+    const neighborOffsets = chunk.neighborOffsets;
+    for (let y = minY; y < maxY; y++) {
+      const isBorderRow = y === minY || y === maxY - 1;
+      for (let x = minX; x < maxX; x++) {
+        if (!isBorderRow && x !== minX && x !== maxX - 1) {
+          continue;
+        }
+        const cell = chunk.indexOf(x, y);
+        // The margin cells are already closed so they don't count.
+        let neighborDistanceMax = 0;
+        for (let direction = 0; direction < 4; direction++) {
+          neighborDistanceMax = Math.max(
+            neighborDistanceMax,
+            distancesToObstacle[cell + neighborOffsets[direction]]
+          );
+        }
+        // 2 peaks can't be neighbors so the order doesn't matter.
+        if (distancesToObstacle[cell] > neighborDistanceMax) {
+          distancesToObstacle[cell] = neighborDistanceMax;
+        }
+      }
+    }
+  }
+
+  /**
+   * @param minX included
+   * @param minY included
+   * @param maxX excluded
+   * @param maxY excluded
+   */
+  private closeCellsOutside(
+    chunk: RasterizationGrid,
+    minX: integer,
+    minY: integer,
+    maxX: integer,
+    maxY: integer
+  ): void {
+    const distancesToObstacle = chunk.distancesToObstacle;
+    for (let y = 0; y < chunk.dimY(); y++) {
+      const isRowInside = minY <= y && y < maxY;
+      for (let x = 0; x < chunk.dimX(); x++) {
+        if (!isRowInside || x < minX || maxX <= x) {
+          distancesToObstacle[chunk.indexOf(x, y)] = 0;
+        }
+      }
+    }
+  }
+
+  /**
+   * Like {@link RasterizationGrid.obstacleCellCount}, but the cells of
+   * solid chunks count as obstacles and the area border ring is ignored.
+   */
+  obstacleCellCount(): integer {
+    let count = 0;
+    const bounds = { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+    for (let index = 0; index < this.chunkStates.length; index++) {
+      const chunkState = this.chunkStates[index];
+      if (chunkState === ChunkedRasterizationGrid.EMPTY_CHUNK) {
+        continue;
+      }
+      this.getChunkBounds(index, bounds);
+      if (chunkState === ChunkedRasterizationGrid.SOLID_CHUNK) {
+        count += (bounds.maxX - bounds.minX) * (bounds.maxY - bounds.minY);
+        continue;
+      }
+      const chunk = this.chunks.get(index)!;
+      const offsetX = this.chunkCellOffsetX(index);
+      const offsetY = this.chunkCellOffsetY(index);
+      for (let y = bounds.minY; y < bounds.maxY; y++) {
+        for (let x = bounds.minX; x < bounds.maxX; x++) {
+          if (
+            chunk.distancesToObstacle[
+              chunk.indexOf(x - offsetX, y - offsetY)
+            ] === 0
+          ) {
+            count++;
+          }
+        }
+      }
+    }
+    return count;
+  }
+
+  /**
+   * @returns the allocated cell count of the materialized chunks.
+   */
+  materializedCellCount(): integer {
+    let count = 0;
+    this.chunks.forEach((chunk) => (count += chunk.dimX() * chunk.dimY()));
+    return count;
+  }
+
+  convertToGridBasis(position: Point, gridPosition: Point) {
+    gridPosition.x = (position.x - this.originX) / this.cellWidth;
+    gridPosition.y = (position.y - this.originY) / this.cellHeight;
+    return gridPosition;
+  }
+
+  convertFromGridBasis(gridPosition: Point, position: Point) {
+    position.x = gridPosition.x * this.cellWidth + this.originX;
+    position.y = gridPosition.y * this.cellHeight + this.originY;
+    return position;
+  }
+
+  dimY() {
+    return this.cellCountY;
+  }
+
+  dimX() {
+    return this.cellCountX;
+  }
+}
@@ -1,3 +1,4 @@
+import { BuildDiagnostics } from "./BuildDiagnostics";
 import { Point, float, integer } from "./CommonTypes";
 import { ContourPoint } from "./ContourPoint";
 import { Geometry } from "./Geometry";
@@ -53,12 +54,66 @@ export class ContourBuilder {
    *   sqrt(2)/2 so values over 0.71 should give good results but not
    *   necessarily better than 1.
    *
+   * @param maxEdgeLength The maximum length (in cells) of the edges along
+   * obstacles. Longer edges are split. The value 0 means that edges are never
+   * split.
+   * @param diagnostics Gathers the issues found during the operation.
+   * @param outAreaIDs Receives the area of each contour.
    * @return The contours generated from the field.
    */
-  buildContours(grid: RasterizationGrid, threshold: float): ContourPoint[][] {
+  buildContours(
+    grid: RasterizationGrid,
+    threshold: float,
+    maxEdgeLength: float = 0,
+    diagnostics: BuildDiagnostics = new BuildDiagnostics(),
+    outAreaIDs: integer[] = []
+  ): ContourPoint[][] {
     const contours = new Array<ContourPoint[]>(grid.regionCount);
     contours.length = 0;
+    outAreaIDs.length = 0;
+    const steps = this.buildContoursSteps(
+      grid,
+      threshold,
+      maxEdgeLength,
+      diagnostics,
+      contours,
+      outAreaIDs
+    );
+    while (!steps.next().done) {}
+    return contours;
+  }
+
+  /**
+   * Generates a contour set a row at a time.
+   * See {@link ContourBuilder.buildContours}
+   *
+   * @param grid A fully generated field.
+   * @param threshold The maximum distance (in cells) the edge of the contour
+   * may deviate from the source geometry.
+   * @param maxEdgeLength The maximum length (in cells) of the edges along
+   * obstacles.
+   * @param diagnostics Gathers the issues found during the operation.
+   * @param outContours Receives the contours generated from the field.
+   * @param outAreaIDs Receives the area of each contour in the same order.
+   * @return the progress between 0 and 1.
+   */
+  *buildContoursSteps(
+    grid: RasterizationGrid,
+    threshold: float,
+    maxEdgeLength: float,
+    diagnostics: BuildDiagnostics,
+    outContours: ContourPoint[][],
+    outAreaIDs: integer[] = []
+  ): Generator<float, void, void> {
+    const contours = outContours;
+    const regionIDs = grid.regionIDs;
+    const contourFlags = grid.contourFlags;
+    const areaIDs = grid.areaIDs;
+    const neighborOffsets = grid.neighborOffsets;
+    const rowCount = 2 * (grid.dimY() - 2);
     const contoursByRegion = new Array<ContourPoint[]>(grid.regionCount);
+    // Regions don't cross area borders.
+    const regionAreaIDs = new Array<integer>(grid.regionCount);
 
     let discardedContours = 0;
 
@@ -84,46 +139,46 @@ export class ContourBuilder {
     //      1 = neighbor not in same region (neighbor may be the obstacle
     //      region or a real region).
     for (let y = 1; y < grid.dimY() - 1; y++) {
+      yield (y - 1) / rowCount;
       for (let x = 1; x < grid.dimX() - 1; x++) {
-        const cell = grid.get(x, y);
+        const cell = grid.indexOf(x, y);
+        const regionID = regionIDs[cell];
 
         // Note:  This algorithm first sets the flag bits such that
         // 1 = "neighbor is in the same region". At the end it inverts
         // the bits so flags are as expected.
 
         // Default to "not connected to any external region".
-        cell.contourFlags = 0;
-        if (cell.regionID === RasterizationCell.OBSTACLE_REGION_ID)
+        contourFlags[cell] = 0;
+        if (regionID === RasterizationCell.OBSTACLE_REGION_ID)
           // Don't care about cells in the obstacle region.
           continue;
+        regionAreaIDs[regionID] = areaIDs[cell];
 
+        let flags = 0;
         for (
           let direction = 0;
           direction < RasterizationGrid.neighbor4Deltas.length;
           direction++
         ) {
-          const delta = RasterizationGrid.neighbor4Deltas[direction];
-
-          const neighbor = grid.get(cell.x + delta.x, cell.y + delta.y);
-          if (cell.regionID === neighbor.regionID) {
+          const neighbor = cell + neighborOffsets[direction];
+          if (regionID === regionIDs[neighbor]) {
             // Neighbor is in same region as this cell.
             // Set the bit for this neighbor to 1 (Will be inverted later).
-            cell.contourFlags |= 1 << direction;
+            flags |= 1 << direction;
           }
         }
         // Invert the bits so a bit value of 1 indicates neighbor NOT in
         // same region.
-        cell.contourFlags ^= 0xf;
-        if (cell.contourFlags === 0xf) {
+        flags ^= 0xf;
+        if (flags === 0xf) {
           // This is an island cell (All neighbors are from other regions)
           // Get rid of flags.
-          cell.contourFlags = 0;
-          console.warn(
-            "Discarded contour: Island cell. Can't form  a contour. Region: " +
-              cell.regionID
-          );
+          flags = 0;
+          diagnostics.addDiscardedIslandCell(x, y, regionID);
           discardedContours++;
         }
+        contourFlags[cell] = flags;
       }
     }
 
@@ -135,12 +190,14 @@ export class ContourBuilder {
     // The process of building a contour will clear the flags on all cells
     // that make up the contour to ensure they are only processed once.
     for (let y = 1; y < grid.dimY() - 1; y++) {
+      yield (grid.dimY() - 3 + y) / rowCount;
       for (let x = 1; x < grid.dimX() - 1; x++) {
-        const cell = grid.get(x, y);
+        const cell = grid.indexOf(x, y);
+        const regionID = regionIDs[cell];
 
         if (
-          cell.regionID === RasterizationCell.OBSTACLE_REGION_ID ||
-          cell.contourFlags === 0
+          regionID === RasterizationCell.OBSTACLE_REGION_ID ||
+          contourFlags[cell] === 0
         ) {
           // cell is either: Part of the obstacle region, does not
           // represent an edge cell, or was already processed during
@@ -155,7 +212,7 @@ export class ContourBuilder {
         // Locate a direction of the cell's edge which points toward
         // another region (there is at least one).
         let startDirection = 0;
-        while ((cell.contourFlags & (1 << startDirection)) === 0) {
+        while ((contourFlags[cell] & (1 << startDirection)) === 0) {
           startDirection++;
         }
         // We now have a cell that is part of a contour and a direction
@@ -170,10 +227,13 @@ export class ContourBuilder {
         // Perform post processing on the contour in order to
         // create the final, simplified contour.
         this.generateSimplifiedContour(
-          cell.regionID,
+          regionID,
+          regionAreaIDs,
           this.workingRawVertices,
           this.workingSimplifiedVertices,
-          threshold
+          threshold,
+          maxEdgeLength,
+          diagnostics
         );
 
         // The CritterAI implementation filters polygons with less than
@@ -181,7 +241,8 @@ export class ContourBuilder {
         // (not on an obstacle region border).
         const contour = Array.from(this.workingSimplifiedVertices);
         contours.push(contour);
-        contoursByRegion[cell.regionID] = contour;
+        outAreaIDs.push(regionAreaIDs[regionID]);
+        contoursByRegion[regionID] = contour;
       }
     }
 
@@ -201,40 +262,60 @@ export class ContourBuilder {
       // The normal outer contour and an inner contour.
       // The CleanNullRegionBorders algorithm protects
       // against internal encompassed obstacle regions.
-      console.error(
-        "Contour generation failed: Detected contours does" +
-          " not match the number of regions. Regions: " +
-          (grid.regionCount - 1) +
-          ", Detected contours: " +
-          (contours.length + discardedContours) +
-          " (Actual: " +
-          contours.length +
-          ", Discarded: " +
-          discardedContours +
-          ")"
+      // A walkable region fully enclosed by obstacle cells (like the
+      // hole of an obstacle) is not an issue: it has only one contour.
+      diagnostics.addContourRegionMismatch(
+        grid.regionCount - 1,
+        contours.length,
+        discardedContours
       );
       // The CritterAI implementation has more detailed logs.
       // They can be interesting for debugging.
     }
 
-    this.filterNonObstacleVertices(contours, contoursByRegion);
+    this.filterNonObstacleVertices(
+      contours,
+      outAreaIDs,
+      contoursByRegion,
+      regionAreaIDs,
+      diagnostics
+    );
+  }
 
-    return contours;
+  /**
+   * @returns true when the contour of a region of the given area can't
+   * remove its vertices along the border with the other region.
+   */
+  private static isWall(
+    regionID: integer,
+    areaID: integer,
+    regionAreaIDs: integer[]
+  ): boolean {
+    return (
+      regionID === RasterizationCell.OBSTACLE_REGION_ID ||
+      regionAreaIDs[regionID] !== areaID
+    );
   }
 
   /**
-   * Search vertices that are not shared with the obstacle region and
-   * remove them.
+   * Search vertices that are not shared with the obstacle region or
+   * another area and remove them.
    *
    * Some contours will have no vertex left.
    *
    * @param contours
+   * @param contourAreaIDs the area of each contour.
    * @param contoursByRegion Some regions may have been discarded
    * so contours index can't be used.
+   * @param regionAreaIDs the area of each region.
+   * @param diagnostics Gathers the issues found during the operation.
    */
   private filterNonObstacleVertices(
     contours: Array<ContourPoint[]>,
-    contoursByRegion: Array<ContourPoint[]>
+    contourAreaIDs: integer[],
+    contoursByRegion: Array<ContourPoint[]>,
+    regionAreaIDs: integer[],
+    diagnostics: BuildDiagnostics
   ): void {
     // This was not part of the CritterAI implementation.
 
@@ -248,13 +329,19 @@ export class ContourBuilder {
     let movedAnyVertex = false;
     do {
       movedAnyVertex = false;
-      for (const contour of contours) {
+      for (
+        let contourIndex = 0;
+        contourIndex < contours.length;
+        contourIndex++
+      ) {
+        const contour = contours[contourIndex];
+        const areaID = contourAreaIDs[contourIndex];
         for (let vertexIndex = 0; vertexIndex < contour.length; vertexIndex++) {
           const vertex = contour[vertexIndex];
           const nextVertex = contour[(vertexIndex + 1) % contour.length];
           if (
-            vertex.region !== RasterizationCell.OBSTACLE_REGION_ID &&
-            nextVertex.region !== RasterizationCell.OBSTACLE_REGION_ID
+            !ContourBuilder.isWall(vertex.region, areaID, regionAreaIDs) &&
+            !ContourBuilder.isWall(nextVertex.region, areaID, regionAreaIDs)
           ) {
             // This is a vertex in the middle. It must be removed.
 
@@ -277,16 +364,23 @@ export class ContourBuilder {
             let errorFound = false;
             let commonVertex = vertex;
             do {
+              if (
+                ContourBuilder.isWall(
+                  commonVertex.region,
+                  areaID,
+                  regionAreaIDs
+                )
+              ) {
+                // The vertex is on a wall for another contour around it.
+                errorFound = true;
+                break;
+              }
               const neighborContour = contoursByRegion[commonVertex.region];
               if (!neighborContour) {
                 errorFound = true;
-                if (
-                  commonVertex.region !== RasterizationCell.OBSTACLE_REGION_ID
-                ) {
-                  console.warn(
-                    "contour already discarded: " + commonVertex.region
-                  );
-                }
+                diagnostics.logger.warn(
+                  "contour already discarded: " + commonVertex.region
+                );
                 break;
               }
 
@@ -310,7 +404,7 @@ export class ContourBuilder {
               }
               if (!foundVertex) {
                 errorFound = true;
-                console.error(
+                diagnostics.logger.error(
                   "Can't find a common vertex with a neighbor contour. There is probably a superposition."
                 );
                 break;
@@ -320,7 +414,7 @@ export class ContourBuilder {
               continue;
             }
             if (commonVertexContours.length < 3) {
-              console.error(
+              diagnostics.logger.error(
                 `The vertex is shared by only ${commonVertexContours.length} regions.`
               );
             }
@@ -337,7 +431,11 @@ export class ContourBuilder {
                     vertexContour.length
                 ];
               if (
-                previousVertex.region === RasterizationCell.OBSTACLE_REGION_ID
+                ContourBuilder.isWall(
+                  previousVertex.region,
+                  areaID,
+                  regionAreaIDs
+                )
               ) {
                 const deltaX = previousVertex.x - vertex.x;
                 const deltaY = previousVertex.y - vertex.y;
@@ -474,8 +572,8 @@ export class ContourBuilder {
    * valid edge. Otherwise behavior will be undefined.
    *
    * @param grid the grid of cells
-   * @param startCell A cell that is known to be on the edge of a region
-   * (part of a region contour).
+   * @param startCell The index of a cell that is known to be on the edge of
+   * a region (part of a region contour).
    * @param startDirection The direction of the edge of the cell that is
    * known to point
    * across the region edge.
@@ -484,10 +582,13 @@ export class ContourBuilder {
    */
   private buildRawContours(
     grid: RasterizationGrid,
-    startCell: RasterizationCell,
+    startCell: integer,
     startDirection: number,
     outContourVertices: ContourPoint[]
   ) {
+    const regionIDs = grid.regionIDs;
+    const contourFlags = grid.contourFlags;
+    const neighborOffsets = grid.neighborOffsets;
     // Flaw in Algorithm:
     //
     // This method of contour generation can result in an inappropriate
@@ -529,25 +630,22 @@ export class ContourBuilder {
       // will always reference an edge cell from the same region as
       // the start cell.
 
-      if ((cell.contourFlags & (1 << direction)) !== 0) {
+      if ((contourFlags[cell] & (1 << direction)) !== 0) {
         // The current direction is pointing toward an edge.
         // Get this edge's vertex.
         const delta =
           ContourBuilder.leftVertexOfFacingCellBorderDeltas[direction];
 
-        const neighbor = grid.get(
-          cell.x + RasterizationGrid.neighbor4Deltas[direction].x,
-          cell.y + RasterizationGrid.neighbor4Deltas[direction].y
-        );
+        const neighbor = cell + neighborOffsets[direction];
         outContourVertices.push({
-          x: cell.x + delta.x,
-          y: cell.y + delta.y,
-          region: neighbor.regionID,
+          x: grid.xOf(cell) + delta.x,
+          y: grid.yOf(cell) + delta.y,
+          region: regionIDs[neighbor],
         });
 
         // Remove the flag for this edge. We never need to consider
         // it again since we have a vertex for this edge.
-        cell.contourFlags &= ~(1 << direction);
+        contourFlags[cell] &= ~(1 << direction);
         // Rotate in clockwise direction.
         direction = (direction + 1) & 0x3;
       } else {
@@ -557,11 +655,7 @@ export class ContourBuilder {
         // direction back one increment (counterclockwise).
         // By moving the direction back one increment we guarantee we
         // don't miss any edges.
-        const neighbor = grid.get(
-          cell.x + RasterizationGrid.neighbor4Deltas[direction].x,
-          cell.y + RasterizationGrid.neighbor4Deltas[direction].y
-        );
-        cell = neighbor;
+        cell += neighborOffsets[direction];
 
         direction = (direction + 3) & 0x3; // Rotate counterclockwise.
       }
@@ -588,17 +682,24 @@ export class ContourBuilder {
    * - Runs an algorithm's against the contour to follow the edge more closely.
    *
    * @param regionID The region the contour was derived from.
+   * @param regionAreaIDs The area of each region. The borders with other
+   * areas are followed like the obstacle region ones.
    * @param sourceVertices  The source vertices that represent the complex
    * contour.
    * @param outVertices The simplified contour vertices.
    * @param threshold The maximum distance the edge of the contour may deviate
    * from the source geometry.
+   * @param maxEdgeLength The maximum length of the edges along obstacles.
+   * @param diagnostics Gathers the issues found during the operation.
    */
   private generateSimplifiedContour(
     regionID: number,
+    regionAreaIDs: integer[],
     sourceVertices: ContourPoint[],
     outVertices: ContourPoint[],
-    threshold: float
+    threshold: float,
+    maxEdgeLength: float,
+    diagnostics: BuildDiagnostics
   ) {
     let noConnections = true;
     for (const sourceVertex of sourceVertices) {
@@ -674,12 +775,25 @@ export class ContourBuilder {
       }
     }
 
-    this.matchObstacleRegionEdges(sourceVertices, outVertices, threshold);
+    this.matchObstacleRegionEdges(
+      sourceVertices,
+      outVertices,
+      threshold,
+      regionAreaIDs[regionID],
+      regionAreaIDs
+    );
+    if (maxEdgeLength > 0) {
+      this.splitLongObstacleRegionEdges(
+        sourceVertices,
+        outVertices,
+        maxEdgeLength
+      );
+    }
 
     if (outVertices.length < 2) {
       // It will be ignored by the triangulation.
       // It should be rare enough not to handle it now.
-      console.warn(
+      diagnostics.logger.warn(
         "A region is encompassed in another region. It will be ignored."
       );
     }
@@ -715,11 +829,15 @@ export class ContourBuilder {
    * @param inoutResultVertices
    * @param threshold The maximum distance the edge of the contour may deviate
    * from the source geometry.
+   * @param areaID The area of the contour region.
+   * @param regionAreaIDs The area of each region.
    */
   private matchObstacleRegionEdges(
     sourceVertices: ContourPoint[],
     inoutResultVertices: ContourPoint[],
-    threshold: float
+    threshold: float,
+    areaID: integer,
+    regionAreaIDs: integer[]
   ) {
     // This implementation is strongly inspired from CritterAI class "MatchNullRegionEdges".
 
@@ -750,10 +868,14 @@ export class ContourBuilder {
       // Default to no index. No new vert to add.
       let toInsertSourceIndex = -1;
 
-      if (
-        sourceVertices[testedSourceIndex].region ===
-        RasterizationCell.OBSTACLE_REGION_ID
-      ) {
+      const edgeRegionID = sourceVertices[testedSourceIndex].region;
+      if (ContourBuilder.isWall(edgeRegionID, areaID, regionAreaIDs)) {
+        // The contours on both sides of an area border must choose the
+        // same vertices. So, the deviation doesn't depend on the edge
+        // direction and ties are broken by the vertex position.
+        const isAreaBorder =
+          edgeRegionID !== RasterizationCell.OBSTACLE_REGION_ID;
+        const isReversed = isAreaBorder && (bx < ax || (bx === ax && bz < az));
         // This test vertex is part of a obstacle region edge.
         // Loop through the source vertices until the end vertex
         // is found, searching for the vertex that is farthest from
@@ -762,15 +884,34 @@ export class ContourBuilder {
         // Visualizations:
         // http://www.critterai.org/projects/nmgen_study/contourgen.html#nulledgesimple
         while (testedSourceIndex !== sourceIndexB) {
-          const deviation = Geometry.getPointSegmentDistanceSq(
-            sourceVertices[testedSourceIndex].x,
-            sourceVertices[testedSourceIndex].y,
-            ax,
-            az,
-            bx,
-            bz
-          );
-          if (deviation > maxDeviation) {
+          const testedVertex = sourceVertices[testedSourceIndex];
+          const deviation = isReversed
+            ? Geometry.getPointSegmentDistanceSq(
+                testedVertex.x,
+                testedVertex.y,
+                bx,
+                bz,
+                ax,
+                az
+              )
+            : Geometry.getPointSegmentDistanceSq(
+                testedVertex.x,
+                testedVertex.y,
+                ax,
+                az,
+                bx,
+                bz
+              );
+          if (
+            deviation > maxDeviation ||
+            (isAreaBorder &&
+              toInsertSourceIndex !== -1 &&
+              deviation === maxDeviation &&
+              ContourBuilder.isBefore(
+                testedVertex,
+                sourceVertices[toInsertSourceIndex]
+              ))
+          ) {
             // A new maximum deviation was detected.
             maxDeviation = deviation;
             toInsertSourceIndex = testedSourceIndex;
@@ -797,4 +938,83 @@ export class ContourBuilder {
       else resultIndexA++;
     }
   }
+
+  /**
+   * @returns true when the 1st point is before the 2nd one in the order of x
+   * then y.
+   */
+  private static isBefore(a: Point, b: Point): boolean {
+    return a.x < b.x || (a.x === b.x && a.y < b.y);
+  }
+
+  /**
+   * Splits obstacle-region edges that are longer than the allowed length.
+   *
+   * Source vertices are added to the result list until no obstacle-region
+   * edge is too long or until the edges can't be split anymore.
+   *
+   * This implementation is strongly inspired from the edge tessellation of
+   * Recast function "rcSimplifyContour".
+   *
+   * @param sourceVertices
+   * @param inoutResultVertices
+   * @param maxEdgeLength The maximum length of the edges along obstacles.
+   */
+  private splitLongObstacleRegionEdges(
+    sourceVertices: ContourPoint[],
+    inoutResultVertices: ContourPoint[],
+    maxEdgeLength: float
+  ) {
+    const sourceCount = sourceVertices.length;
+    let resultIndexA = 0;
+    while (resultIndexA < inoutResultVertices.length) {
+      const resultIndexB = (resultIndexA + 1) % inoutResultVertices.length;
+
+      const ax = inoutResultVertices[resultIndexA].x;
+      const ay = inoutResultVertices[resultIndexA].y;
+      const sourceIndexA = inoutResultVertices[resultIndexA].region;
+
+      const bx = inoutResultVertices[resultIndexB].x;
+      const by = inoutResultVertices[resultIndexB].y;
+      const sourceIndexB = inoutResultVertices[resultIndexB].region;
+
+      let toInsertSourceIndex = -1;
+      // Only the edges along the obstacle region are split.
+      if (
+        sourceVertices[(sourceIndexA + 1) % sourceCount].region ===
+        RasterizationCell.OBSTACLE_REGION_ID
+      ) {
+        const deltaX = bx - ax;
+        const deltaY = by - ay;
+        if (deltaX * deltaX + deltaY * deltaY > maxEdgeLength * maxEdgeLength) {
+          // The number of source edges between A and B.
+          const sourceEdgeCount =
+            sourceIndexB < sourceIndexA
+              ? sourceIndexB + sourceCount - sourceIndexA
+              : sourceIndexB - sourceIndexA;
+          if (sourceEdgeCount > 1) {
+            // Round according to the segment direction so that the split
+            // is the same whichever way the segment is traversed.
+            if (bx > ax || (bx === ax && by > ay)) {
+              toInsertSourceIndex =
+                (sourceIndexA + Math.floor(sourceEdgeCount / 2)) % sourceCount;
+            } else {
+              toInsertSourceIndex =
+                (sourceIndexA + Math.floor((sourceEdgeCount + 1) / 2)) %
+                sourceCount;
+            }
+          }
+        }
+      }
+
+      if (toInsertSourceIndex !== -1) {
+        inoutResultVertices.splice(resultIndexA + 1, 0, {
+          x: sourceVertices[toInsertSourceIndex].x,
+          y: sourceVertices[toInsertSourceIndex].y,
+          region: toInsertSourceIndex,
+        });
+        // The new edge from A may still be too long.
+      } else resultIndexA++;
+    }
+  }
 }
@@ -1,5 +1,7 @@
+import { BuildDiagnostics } from "./BuildDiagnostics";
 import { Point, float, integer } from "./CommonTypes";
 import { Geometry } from "./Geometry";
+import { RasterizationCell } from "./RasterizationCell";
 
 /**
  * Result of {@link ConvexPolygonGenerator.getPolyMergeInfo}
@@ -32,27 +34,57 @@ export class ConvexPolygonGenerator {
    * and it will be left in an undefined state at the end of
    * the operation.
    * @param maxVerticesPerPolygon cap the vertex number in return polygons.
+   * @param diagnostics Gathers the issues found during the operation.
    * @return convex polygons.
    */
   public splitToConvexPolygons(
     concavePolygons: Point[][],
-    maxVerticesPerPolygon: integer
+    maxVerticesPerPolygon: integer,
+    diagnostics: BuildDiagnostics = new BuildDiagnostics()
   ): Point[][] {
-    // The maximum possible number of polygons assuming that all will
-    // be triangles.
-    let maxPossiblePolygons = 0;
+    const convexPolygons = new Array<Point[]>();
+    const steps = this.splitToConvexPolygonsSteps(
+      concavePolygons,
+      maxVerticesPerPolygon,
+      diagnostics,
+      convexPolygons
+    );
+    while (!steps.next().done) {}
+    return convexPolygons;
+  }
+
+  /**
+   * Builds convex polygons from the provided polygons one polygon at a time.
+   * See {@link ConvexPolygonGenerator.splitToConvexPolygons}
+   *
+   * @param concavePolygons The content is manipulated during the operation.
+   * @param maxVerticesPerPolygon cap the vertex number in return polygons.
+   * @param diagnostics Gathers the issues found during the operation.
+   * @param outConvexPolygons Receives the convex polygons.
+   * @param areaIDs the area of each concave polygon.
+   * @param outAreaIDs Receives the area of each convex polygon.
+   * @return the progress between 0 and 1.
+   */
+  *splitToConvexPolygonsSteps(
+    concavePolygons: Point[][],
+    maxVerticesPerPolygon: integer,
+    diagnostics: BuildDiagnostics,
+    outConvexPolygons: Point[][],
+    areaIDs: integer[] = [],
+    outAreaIDs: integer[] = []
+  ): Generator<float, void, void> {
     // The maximum vertices found in a single contour.
     let maxVerticesPerContour = 0;
     for (const contour of concavePolygons) {
       const count = contour.length;
-      maxPossiblePolygons += count - 2;
       maxVerticesPerContour = Math.max(maxVerticesPerContour, count);
     }
 
-    // Each list is initialized to a size that will minimize resizing.
-
-    const convexPolygons = new Array<Point[]>(maxPossiblePolygons);
+    const convexPolygons = outConvexPolygons;
     convexPolygons.length = 0;
+    outAreaIDs.length = 0;
+
+    // Each list is initialized to a size that will minimize resizing.
 
     // Various working variables.
     // (Values are meaningless outside of the iteration)
@@ -69,7 +101,13 @@ export class ConvexPolygonGenerator {
     workingMergedPolygon.length = 0;
 
     // Split every concave polygon into convex polygons.
-    for (const contour of concavePolygons) {
+    for (
+      let contourIndex = 0;
+      contourIndex < concavePolygons.length;
+      contourIndex++
+    ) {
+      yield contourIndex / concavePolygons.length;
+      const contour = concavePolygons[contourIndex];
       if (contour.length < 3) {
         // CritterAI logged an error here, but we rely on this to filtered
         // polygons that became useless
@@ -103,13 +141,8 @@ export class ConvexPolygonGenerator {
          * holes. In both cases, the problem is likely due to bad
          * region formation.
          */
-        console.error(
-          "Polygon generation failure: Could not triangulate contour."
-        );
-        console.error(
-          "contour:" +
-            contour.map((point) => point.x + " " + point.y).join(" ; ")
-        );
+        // The contour is left untouched when no triangle is found.
+        diagnostics.addFailedTriangulation(contour);
         continue;
       }
 
@@ -199,12 +232,18 @@ export class ConvexPolygonGenerator {
       // Polygon creation for this contour is complete.
       // Add polygons to the global polygon array
       Array.prototype.push.apply(convexPolygons, workingPolygons);
+      const areaID =
+        contourIndex < areaIDs.length
+          ? areaIDs[contourIndex]
+          : RasterizationCell.DEFAULT_AREA_ID;
+      for (let index = 0; index < workingPolygons.length; index++) {
+        outAreaIDs.push(areaID);
+      }
     }
 
     // The original implementation builds polygon adjacency information.
-    // but the library for the pathfinding already does it.
-
-    return convexPolygons;
+    // It's done by NavMeshDataBuilder only when it's needed because
+    // most pathfinding libraries already do it.
   }
 
   /**
@@ -1,5 +1,5 @@
 import { Point, float, integer } from "./CommonTypes";
-import { RasterizationGrid } from "./RasterizationGrid";
+import { GridBasis } from "./RasterizationGrid";
 
 export class GridCoordinateConverter {
   /**
@@ -9,10 +9,7 @@ export class GridCoordinateConverter {
    * @param scaleY for isometry
    * @returns the position on the scene
    */
-  public convertFromGridBasis(
-    grid: RasterizationGrid,
-    polygons: Point[][]
-  ): Point[][] {
+  public convertFromGridBasis(grid: GridBasis, polygons: Point[][]): Point[][] {
     // point can be shared so them must be copied to be scaled.
     return polygons.map((polygon) =>
       polygon.map((point) => grid.convertFromGridBasis(point, { x: 0, y: 0 }))
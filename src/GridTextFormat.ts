@@ -0,0 +1,155 @@
+import { float, integer } from "./CommonTypes";
+import { RasterizationGrid } from "./RasterizationGrid";
+
+/**
+ * Prints the cells of a {@link RasterizationGrid} as text and parses grids
+ * drawn as text.
+ *
+ * There is one line by row of cells, including the border ring, and each
+ * line ends with a line break. It allows to write tests and to reproduce
+ * issues without computing polygons by hand.
+ */
+export class GridTextFormat {
+  static readonly obstacleSymbol = "#";
+  static readonly emptySymbol = ".";
+  /**
+   * The symbols of the distances, region IDs and contour flags. Greater
+   * values are printed with {@link GridTextFormat.overflowSymbol}.
+   */
+  static readonly valueSymbols =
+    "0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ";
+  static readonly overflowSymbol = "+";
+
+  /**
+   * @returns `#` for obstacle cells and `.` for the other ones.
+   */
+  printObstacles(grid: RasterizationGrid): string {
+    return this.print(grid, (cell) =>
+      grid.distancesToObstacle[cell] === 0
+        ? GridTextFormat.obstacleSymbol
+        : GridTextFormat.emptySymbol
+    );
+  }
+
+  /**
+   * @returns the distance to obstacles of every cell (see
+   * {@link RasterizationCell.distanceToObstacle}) or `.` for obstacle
+   * cells.
+   */
+  printDistanceField(grid: RasterizationGrid): string {
+    return this.print(grid, (cell) =>
+      this.getValueSymbol(grid.distancesToObstacle[cell])
+    );
+  }
+
+  /**
+   * @returns the region ID of every cell or `.` for the obstacle region.
+   */
+  printRegions(grid: RasterizationGrid): string {
+    return this.print(grid, (cell) =>
+      this.getValueSymbol(grid.regionIDs[cell])
+    );
+  }
+
+  /**
+   * @returns the contour flags of every cell as a hexadecimal digit (see
+   * {@link RasterizationCell.contourFlags}) or `.` when there is none.
+   */
+  printContourFlags(grid: RasterizationGrid): string {
+    return this.print(grid, (cell) =>
+      this.getValueSymbol(grid.contourFlags[cell])
+    );
+  }
+
+  private print(
+    grid: RasterizationGrid,
+    getSymbol: (cell: integer) => string
+  ): string {
+    let text = "";
+    for (let y = 0; y < grid.dimY(); y++) {
+      for (let x = 0; x < grid.dimX(); x++) {
+        text += getSymbol(grid.indexOf(x, y));
+      }
+      text += "\n";
+    }
+    return text;
+  }
+
+  private getValueSymbol(value: integer): string {
+    if (value === 0) {
+      return GridTextFormat.emptySymbol;
+    }
+    return value < GridTextFormat.valueSymbols.length
+      ? GridTextFormat.valueSymbols[value]
+      : GridTextFormat.overflowSymbol;
+  }
+
+  /**
+   * Build a grid from obstacles drawn with `#` on cells drawn with `.`.
+   *
+   * Spaces around the lines and empty lines are ignored so the text can be
+   * indented. The first cell inside the border ring is at the scene origin.
+   *
+   * @param text the cells like {@link GridTextFormat.printObstacles} gives
+   * them.
+   * @param cellWidth
+   * @param cellHeight
+   * @returns a grid where only the obstacles are set.
+   * @throws Error when the lines don't have the same length or a symbol is
+   * unknown.
+   */
+  parseObstacles(
+    text: string,
+    cellWidth: float = 1,
+    cellHeight: float = cellWidth
+  ): RasterizationGrid {
+    const lines = text
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+    if (lines.length === 0) {
+      throw new Error("Invalid grid text: there is no cell.");
+    }
+    const dimX = lines[0].length;
+    const dimY = lines.length;
+    const grid = new RasterizationGrid(
+      0,
+      0,
+      (dimX - 2) * cellWidth,
+      (dimY - 2) * cellHeight,
+      cellWidth,
+      cellHeight,
+      dimX,
+      dimY
+    );
+    for (let y = 0; y < dimY; y++) {
+      const line = lines[y];
+      if (line.length !== dimX) {
+        throw new Error(
+          "Invalid grid text: the line " +
+            (y + 1) +
+            " has " +
+            line.length +
+            " cells instead of " +
+            dimX +
+            "."
+        );
+      }
+      for (let x = 0; x < dimX; x++) {
+        const symbol = line[x];
+        if (symbol === GridTextFormat.obstacleSymbol) {
+          grid.distancesToObstacle[grid.indexOf(x, y)] = 0;
+        } else if (symbol !== GridTextFormat.emptySymbol) {
+          throw new Error(
+            'Invalid grid text: unknown symbol "' +
+              symbol +
+              '" at line ' +
+              (y + 1) +
+              "."
+          );
+        }
+      }
+    }
+    return grid;
+  }
+}
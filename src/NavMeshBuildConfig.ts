@@ -0,0 +1,388 @@
+import { float, integer } from "./CommonTypes";
+
+/**
+ * How the inside of obstacle polygons is found.
+ *
+ * - evenOdd: a point is inside when a ray from it crosses the polygon edges
+ *   an odd number of times. Overlapping parts of a self-intersecting
+ *   polygon are empty.
+ * - nonZero: a point is inside when the polygon winds around it. Overlapping
+ *   parts are filled, so holes must be wound in the opposite direction of
+ *   the outer ring.
+ */
+export type FillRule = "evenOdd" | "nonZero";
+
+/**
+ * Which cells are blocked by an obstacle.
+ *
+ * - center: the cells whose center is in the obstacle. Obstacles thinner
+ *   than a cell still block a line of cells.
+ * - conservative: every cell touched by the obstacle. It's safer for agents
+ *   that must never overlap an obstacle.
+ * - permissive: the cells covered at least by
+ *   {@link RasterizationConfig.minCoverage}. Small parts of obstacles and
+ *   thin walls don't block anything.
+ *
+ * Walkable areas use the same mode: the cells that would be blocked by
+ * what is outside of them are obstacles.
+ */
+export type RasterizationMode = "center" | "conservative" | "permissive";
+
+/**
+ * How the distances from the cells to the obstacles are measured. Both
+ * count 2 by cell so the padding has the same scale.
+ *
+ * - chamfer: an approximation that counts 3 by diagonal step. The padding
+ *   is octagonal around obstacle corners and a bit too wide along
+ *   diagonal edges.
+ * - euclidean: the exact distance between cell centers, rounded. The
+ *   padding is round and even in every direction, but it's a bit slower.
+ */
+export type DistanceFieldMode = "chamfer" | "euclidean";
+
+/**
+ * The settings used by {@link ObstacleRasterizer}.
+ */
+export interface RasterizationConfig {
+  /**
+   * The rule to fill self-intersecting polygons and holes.
+   */
+  fillRule: FillRule;
+  /**
+   * Which cells are blocked by an obstacle.
+   */
+  rasterizationMode: RasterizationMode;
+  /**
+   * The part of a cell between 0 and 1 that an obstacle must cover to
+   * block it with the permissive mode.
+   */
+  minCoverage: float;
+}
+
+/**
+ * How the walkable cells are split into regions.
+ *
+ * - watershed: regions grow from the cells the farthest from obstacles. It
+ *   gives the best polygons but it's the slowest.
+ * - monotone: regions are spans of cells swept row by row. It's the
+ *   fastest but it gives long and thin polygons.
+ * - layers: the monotone regions are merged as long as the merged region
+ *   doesn't encompass anything. It's almost as fast as monotone with less
+ *   and bigger polygons.
+ */
+export type RegionPartitioningMode = "watershed" | "monotone" | "layers";
+
+/**
+ * The settings used by {@link RegionGenerator}.
+ */
+export interface RegionConfig {
+  /**
+   * How the walkable cells are split into regions.
+   */
+  regionPartitioning: RegionPartitioningMode;
+  /**
+   * The cell count under which groups of connected regions are removed.
+   * It avoids polygons on tiny islands between debris.
+   *
+   * The value 0 means that no region is removed.
+   */
+  minRegionArea: integer;
+  /**
+   * The cell count under which regions are merged into their largest
+   * neighbor region. It avoids slivers of polygons.
+   *
+   * The value 0 means that no region is merged.
+   */
+  mergeRegionArea: integer;
+}
+
+/**
+ * The settings of a NavMesh build.
+ */
+export interface NavMeshBuildConfig extends RasterizationConfig, RegionConfig {
+  /**
+   * A padding in cells to apply around the obstacles.
+   */
+  obstacleCellPadding: integer;
+  /**
+   * How the distances to obstacles are measured to apply the padding.
+   */
+  distanceField: DistanceFieldMode;
+  /**
+   * The distance to obstacles in cells under which the distance field is
+   * not blurred. The blur gives less regions with smoother borders on noisy
+   * obstacles. The padding can change a bit when it's greater than this
+   * threshold.
+   *
+   * The value 0 means that the distance field is not blurred.
+   */
+  smoothingThreshold: integer;
+  /**
+   * The maximum distance (in cells) the edge of the contour may deviate from
+   * the source geometry when the rastered obstacles are vectorized.
+   *
+   * The value 1 gives good results in any situations.
+   * See {@link ContourBuilder.buildContours}
+   */
+  contourThreshold: float;
+  /**
+   * Cap the vertex number in the returned polygons. It must be at least 3.
+   */
+  maxVerticesPerPolygon: integer;
+  /**
+   * The maximum length (in cells) of the edges along obstacles.
+   * Longer edges are split.
+   *
+   * The value 0 means that edges are never split.
+   */
+  maxEdgeLength: float;
+}
+
+export type NavMeshBuildPreset = "accurate" | "fast" | "trianglesOnly";
+
+/**
+ * Settings given to a NavMesh build.
+ *
+ * Missing settings are taken from the preset if any or from the default
+ * settings. Explicit settings override the preset ones.
+ */
+export type NavMeshBuildOptions = Partial<NavMeshBuildConfig> & {
+  preset?: NavMeshBuildPreset;
+};
+
+/**
+ * Completes and checks NavMesh build settings.
+ */
+export class NavMeshBuildConfigResolver {
+  static readonly defaultConfig: Readonly<NavMeshBuildConfig> = {
+    obstacleCellPadding: 0,
+    distanceField: "chamfer",
+    smoothingThreshold: 0,
+    regionPartitioning: "watershed",
+    minRegionArea: 0,
+    mergeRegionArea: 0,
+    contourThreshold: 1,
+    maxVerticesPerPolygon: 16,
+    maxEdgeLength: 0,
+    fillRule: "evenOdd",
+    rasterizationMode: "center",
+    minCoverage: 0.5,
+  };
+
+  static readonly presets: Readonly<
+    Record<NavMeshBuildPreset, Readonly<Partial<NavMeshBuildConfig>>>
+  > = {
+    // Edges with 45° multiples are still followed closely.
+    accurate: {
+      contourThreshold: 0.75,
+      maxVerticesPerPolygon: 16,
+    },
+    // Less contour vertices to process and less polygons to merge.
+    fast: {
+      contourThreshold: 2,
+      maxVerticesPerPolygon: 8,
+    },
+    trianglesOnly: {
+      maxVerticesPerPolygon: 3,
+    },
+  };
+
+  /**
+   * @param options the settings given by the user or a padding in cells
+   * to apply around the obstacles.
+   * @returns a complete and valid configuration.
+   * @throws Error when a setting is not valid.
+   */
+  static resolve(
+    options: integer | NavMeshBuildOptions = {}
+  ): NavMeshBuildConfig {
+    if (typeof options === "number") {
+      options = { obstacleCellPadding: options };
+    }
+    let presetConfig: Readonly<Partial<NavMeshBuildConfig>> = {};
+    if (options.preset !== undefined) {
+      if (
+        !Object.prototype.hasOwnProperty.call(
+          NavMeshBuildConfigResolver.presets,
+          options.preset
+        )
+      ) {
+        throw new Error(
+          "Invalid NavMesh build config: unknown preset: " + options.preset
+        );
+      }
+      presetConfig = NavMeshBuildConfigResolver.presets[options.preset];
+    }
+    const defaultConfig = NavMeshBuildConfigResolver.defaultConfig;
+    const pick = <K extends keyof NavMeshBuildConfig>(
+      name: K
+    ): NavMeshBuildConfig[K] => {
+      const option = (options as NavMeshBuildOptions)[name];
+      if (option !== undefined) {
+        return option as NavMeshBuildConfig[K];
+      }
+      const presetOption = presetConfig[name];
+      if (presetOption !== undefined) {
+        return presetOption as NavMeshBuildConfig[K];
+      }
+      return defaultConfig[name];
+    };
+    const config: NavMeshBuildConfig = {
+      obstacleCellPadding: pick("obstacleCellPadding"),
+      distanceField: pick("distanceField"),
+      smoothingThreshold: pick("smoothingThreshold"),
+      regionPartitioning: pick("regionPartitioning"),
+      minRegionArea: pick("minRegionArea"),
+      mergeRegionArea: pick("mergeRegionArea"),
+      contourThreshold: pick("contourThreshold"),
+      maxVerticesPerPolygon: pick("maxVerticesPerPolygon"),
+      maxEdgeLength: pick("maxEdgeLength"),
+      fillRule: pick("fillRule"),
+      rasterizationMode: pick("rasterizationMode"),
+      minCoverage: pick("minCoverage"),
+    };
+    NavMeshBuildConfigResolver.validate(config);
+    return config;
+  }
+
+  /**
+   * @param config the configuration to check.
+   * @throws Error when a setting is not valid.
+   */
+  static validate(config: NavMeshBuildConfig): void {
+    NavMeshBuildConfigResolver.checkInteger(
+      "obstacleCellPadding",
+      config.obstacleCellPadding,
+      0
+    );
+    NavMeshBuildConfigResolver.checkOneOf(
+      "distanceField",
+      config.distanceField,
+      ["chamfer", "euclidean"]
+    );
+    NavMeshBuildConfigResolver.checkInteger(
+      "smoothingThreshold",
+      config.smoothingThreshold,
+      0
+    );
+    NavMeshBuildConfigResolver.checkOneOf(
+      "regionPartitioning",
+      config.regionPartitioning,
+      ["watershed", "monotone", "layers"]
+    );
+    NavMeshBuildConfigResolver.checkInteger(
+      "minRegionArea",
+      config.minRegionArea,
+      0
+    );
+    NavMeshBuildConfigResolver.checkInteger(
+      "mergeRegionArea",
+      config.mergeRegionArea,
+      0
+    );
+    NavMeshBuildConfigResolver.checkNumber(
+      "contourThreshold",
+      config.contourThreshold,
+      0
+    );
+    NavMeshBuildConfigResolver.checkInteger(
+      "maxVerticesPerPolygon",
+      config.maxVerticesPerPolygon,
+      3
+    );
+    NavMeshBuildConfigResolver.checkNumber(
+      "maxEdgeLength",
+      config.maxEdgeLength,
+      0
+    );
+    NavMeshBuildConfigResolver.checkOneOf("fillRule", config.fillRule, [
+      "evenOdd",
+      "nonZero",
+    ]);
+    NavMeshBuildConfigResolver.checkOneOf(
+      "rasterizationMode",
+      config.rasterizationMode,
+      ["center", "conservative", "permissive"]
+    );
+    NavMeshBuildConfigResolver.checkNumber(
+      "minCoverage",
+      config.minCoverage,
+      0,
+      1
+    );
+  }
+
+  private static checkNumber(
+    name: string,
+    value: float,
+    min: float,
+    max: float = Number.POSITIVE_INFINITY
+  ): void {
+    if (typeof value !== "number" || !isFinite(value)) {
+      throw new Error(
+        "Invalid NavMesh build config: " +
+          name +
+          " must be a finite number but is " +
+          value +
+          "."
+      );
+    }
+    if (value < min) {
+      throw new Error(
+        "Invalid NavMesh build config: " +
+          name +
+          " must be greater than or equal to " +
+          min +
+          " but is " +
+          value +
+          "."
+      );
+    }
+    if (value > max) {
+      throw new Error(
+        "Invalid NavMesh build config: " +
+          name +
+          " must be less than or equal to " +
+          max +
+          " but is " +
+          value +
+          "."
+      );
+    }
+  }
+
+  private static checkOneOf<T>(
+    name: string,
+    value: T,
+    allowedValues: readonly T[]
+  ): void {
+    if (allowedValues.indexOf(value) === -1) {
+      throw new Error(
+        "Invalid NavMesh build config: " +
+          name +
+          " must be one of " +
+          allowedValues.join(", ") +
+          " but is " +
+          value +
+          "."
+      );
+    }
+  }
+
+  private static checkInteger(
+    name: string,
+    value: integer,
+    min: integer
+  ): void {
+    NavMeshBuildConfigResolver.checkNumber(name, value, min);
+    if (Math.floor(value) !== value) {
+      throw new Error(
+        "Invalid NavMesh build config: " +
+          name +
+          " must be an integer but is " +
+          value +
+          "."
+      );
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import { float, integer } from "./CommonTypes";
+
+/**
+ * The steps of a NavMesh build in the order they are done.
+ *
+ * Regions, contours and convex polygons are done once by padding when
+ * several NavMeshes are built at once.
+ */
+export type NavMeshBuildStage =
+  | "rasterization"
+  | "distanceField"
+  | "regions"
+  | "contours"
+  | "convexPolygons"
+  | "done"
+  | "cancelled";
+
+/**
+ * A stage of a {@link NavMeshBuildTask}.
+ */
+export interface NavMeshBuildStageSteps {
+  stage: NavMeshBuildStage;
+  /**
+   * Starts the stage when the previous one is done.
+   * @returns the stage steps yielding the stage progress between 0 and 1.
+   */
+  start: () => Iterator<float>;
+  /** Called when the stage is done. */
+  end?: () => void;
+}
+
+/**
+ * A NavMesh build that can be done a bit at a time to avoid freezing the
+ * game loop.
+ *
+ * Tasks are created by {@link NavMeshGenerator.createBuildTask}.
+ * They share the rasterization grid of their generator so any new build
+ * from the same generator cancels the unfinished task.
+ */
+export class NavMeshBuildTask<Result> {
+  private stages: NavMeshBuildStageSteps[];
+  private buildResult: () => Result;
+  private stageIndex: integer;
+  private stageSteps: Iterator<float> | null;
+  private stageProgress: float;
+  private result: Result | null;
+  private cancelled: boolean;
+
+  /**
+   * @param stages the stages to do in this order.
+   * @param buildResult gives the result once every stage is done.
+   */
+  constructor(stages: NavMeshBuildStageSteps[], buildResult: () => Result) {
+    this.stages = stages;
+    this.buildResult = buildResult;
+    this.stageIndex = 0;
+    this.stageSteps = null;
+    this.stageProgress = 0;
+    this.result = null;
+    this.cancelled = false;
+  }
+
+  /**
+   * Continue the build until it's done or the time budget is spent.
+   *
+   * At least one step is done at each call so the build always progresses
+   * even with a small budget. A step is typically a row of cells.
+   *
+   * @param budgetMs the time in milliseconds the build can take.
+   * @returns true when the build is done or cancelled.
+   */
+  step(budgetMs: float): boolean {
+    if (this.isFinished()) {
+      return true;
+    }
+    const startTime = NavMeshBuildTask.now();
+    do {
+      if (!this.stageSteps) {
+        this.stageSteps = this.stages[this.stageIndex].start();
+        this.stageProgress = 0;
+      }
+      const next = this.stageSteps.next();
+      if (!next.done) {
+        this.stageProgress = next.value;
+        continue;
+      }
+      const stage = this.stages[this.stageIndex];
+      if (stage.end) {
+        stage.end();
+      }
+      this.stageSteps = null;
+      this.stageProgress = 0;
+      this.stageIndex++;
+      if (this.stageIndex === this.stages.length) {
+        this.result = this.buildResult();
+        return true;
+      }
+    } while (NavMeshBuildTask.now() - startTime < budgetMs);
+    return false;
+  }
+
+  /**
+   * Stop the build. It's useful when obstacles changed and the result
+   * won't be up to date.
+   */
+  cancel(): void {
+    if (this.isFinished()) {
+      return;
+    }
+    this.cancelled = true;
+    this.stageSteps = null;
+  }
+
+  /**
+   * @returns true when the build is done or cancelled.
+   */
+  isFinished(): boolean {
+    return this.cancelled || this.stageIndex === this.stages.length;
+  }
+
+  /**
+   * @returns the stage in progress.
+   */
+  getStage(): NavMeshBuildStage {
+    if (this.cancelled) {
+      return "cancelled";
+    }
+    if (this.stageIndex === this.stages.length) {
+      return "done";
+    }
+    return this.stages[this.stageIndex].stage;
+  }
+
+  /**
+   * @returns the progress of the current stage between 0 and 1.
+   */
+  getStageProgress(): float {
+    return this.stageIndex === this.stages.length ? 1 : this.stageProgress;
+  }
+
+  /**
+   * The stage index and count can be used to show an overall progress.
+   *
+   * @returns the index of the current stage.
+   */
+  getStageIndex(): integer {
+    return this.stageIndex;
+  }
+
+  /**
+   * @returns the number of stages of the build.
+   */
+  getStageCount(): integer {
+    return this.stages.length;
+  }
+
+  /**
+   * @returns the built NavMesh or null if the build is not done.
+   */
+  getResult(): Result | null {
+    return this.result;
+  }
+
+  private static now(): float {
+    return typeof performance !== "undefined" ? performance.now() : Date.now();
+  }
+}
@@ -0,0 +1,47 @@
+import { Point, integer } from "./CommonTypes";
+
+/**
+ * A NavMesh where vertices are shared between polygons and where the
+ * polygon adjacency is known.
+ */
+export interface NavMeshData {
+  /** The vertices shared by the polygons. */
+  vertices: Point[];
+  /**
+   * The convex polygons as indexes in {@link NavMeshData.vertices}.
+   *
+   * An edge shared with several polygons is split at their vertices so
+   * polygons can have collinear vertices.
+   */
+  polygons: integer[][];
+  /**
+   * The neighbor polygon index of each polygon edge or -1 when the edge is
+   * a wall.
+   *
+   * The edge i of a polygon goes from its vertex i to its vertex i + 1.
+   */
+  neighbors: integer[][];
+  /**
+   * The area of each polygon (see {@link AreaPolygon.areaID}) to apply
+   * movement costs by terrain type.
+   */
+  areaIDs: integer[];
+  /** The edges shared by 2 polygons. */
+  portals: NavMeshPortal[];
+}
+
+/**
+ * An edge shared by 2 polygons.
+ */
+export interface NavMeshPortal {
+  polygonA: integer;
+  /** The edge index in polygon A. */
+  edgeA: integer;
+  polygonB: integer;
+  /** The edge index in polygon B. */
+  edgeB: integer;
+  /** The 1st extremity in polygon A order. */
+  start: Point;
+  /** The 2nd extremity in polygon A order. */
+  end: Point;
+}
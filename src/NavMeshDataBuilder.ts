@@ -0,0 +1,285 @@
+import { Point, integer } from "./CommonTypes";
+import { NavMeshData } from "./NavMeshData";
+import { RasterizationCell } from "./RasterizationCell";
+import { GridBasis } from "./RasterizationGrid";
+
+/**
+ * Indexes the vertices of convex polygons and builds the polygon adjacency.
+ *
+ * This is the step the CritterAI class "PolyMeshFieldBuilder" does at the
+ * end of the polygon generation.
+ * http://www.critterai.org/projects/nmgen_study/polygen.html
+ */
+export class NavMeshDataBuilder {
+  /**
+   * @param grid the grid the polygons were built from.
+   * @param polygons convex polygons in the grid basis.
+   * @param areaIDs the area of each polygon.
+   * @return the indexed NavMesh in the grid basis. Its vertices are
+   * new instances.
+   */
+  public buildNavMeshData(
+    grid: GridBasis,
+    polygons: Point[][],
+    areaIDs: integer[] = polygons.map(() => RasterizationCell.DEFAULT_AREA_ID)
+  ): NavMeshData {
+    const vertices = new Array<Point>();
+    const indexedPolygons = new Array<integer[]>(polygons.length);
+    indexedPolygons.length = 0;
+
+    // Vertices are on cell corners so their coordinates are integers.
+    const rowLength = grid.dimX() + 1;
+    const vertexIndexes = new Map<integer, integer>();
+    for (const polygon of polygons) {
+      const indexedPolygon = new Array<integer>(polygon.length);
+      indexedPolygon.length = 0;
+      for (const point of polygon) {
+        const key = point.y * rowLength + point.x;
+        let vertexIndex = vertexIndexes.get(key);
+        if (vertexIndex === undefined) {
+          vertexIndex = vertices.length;
+          vertices.push({ x: point.x, y: point.y });
+          vertexIndexes.set(key, vertexIndex);
+        }
+        indexedPolygon.push(vertexIndex);
+      }
+      indexedPolygons.push(indexedPolygon);
+    }
+    this.splitEdgesAtVertices(vertices, indexedPolygons);
+
+    const navMeshData: NavMeshData = {
+      vertices,
+      polygons: indexedPolygons,
+      neighbors: indexedPolygons.map((polygon) => polygon.map(() => -1)),
+      areaIDs: areaIDs.slice(),
+      portals: [],
+    };
+    this.buildAdjacency(navMeshData);
+    return navMeshData;
+  }
+
+  /**
+   * Insert in the polygon edges the vertices of other polygons that lie on
+   * them.
+   *
+   * Contours can meet at T-junctions where an edge is shared with several
+   * edges of the polygons on the other side. Once split, both sides of a
+   * shared edge have the same vertex pair.
+   *
+   * The inserted vertices are collinear so the polygons stay convex, but
+   * they can have more vertices than the maxVerticesPerPolygon setting.
+   *
+   * @param vertices the indexed vertices with integer coordinates.
+   * @param polygons the indexed polygons to update in place.
+   */
+  private splitEdgesAtVertices(vertices: Point[], polygons: integer[][]): void {
+    // Group the edges by the line they are on.
+    const lines = new Array<EdgeLine>();
+    const lineIndexes = new Map<string, integer>();
+    for (let polygonIndex = 0; polygonIndex < polygons.length; polygonIndex++) {
+      const polygon = polygons[polygonIndex];
+      for (let edgeIndex = 0; edgeIndex < polygon.length; edgeIndex++) {
+        const vertexIndex = polygon[edgeIndex];
+        const nextVertexIndex = polygon[(edgeIndex + 1) % polygon.length];
+        if (vertexIndex === nextVertexIndex) {
+          continue;
+        }
+        const vertex = vertices[vertexIndex];
+        const nextVertex = vertices[nextVertexIndex];
+        let directionX = nextVertex.x - vertex.x;
+        let directionY = nextVertex.y - vertex.y;
+        const divisor = greatestCommonDivisor(
+          Math.abs(directionX),
+          Math.abs(directionY)
+        );
+        directionX /= divisor;
+        directionY /= divisor;
+        if (directionX < 0 || (directionX === 0 && directionY < 0)) {
+          directionX = -directionX;
+          directionY = -directionY;
+        }
+        const offset = directionY * vertex.x - directionX * vertex.y;
+        const key = directionX + " " + directionY + " " + offset;
+        let lineIndex = lineIndexes.get(key);
+        if (lineIndex === undefined) {
+          lineIndex = lines.length;
+          lines.push({
+            directionX,
+            directionY,
+            vertexIndexes: [],
+            polygonIndexes: [],
+            edgeIndexes: [],
+          });
+          lineIndexes.set(key, lineIndex);
+        }
+        const line = lines[lineIndex];
+        line.vertexIndexes.push(vertexIndex, nextVertexIndex);
+        line.polygonIndexes.push(polygonIndex);
+        line.edgeIndexes.push(edgeIndex);
+      }
+    }
+
+    // The vertices to insert in each polygon edge.
+    const edgeSplits = new Array<Array<integer[]> | undefined>(polygons.length);
+    for (const line of lines) {
+      if (line.edgeIndexes.length < 2) {
+        continue;
+      }
+      const positionOf = (vertexIndex: integer) =>
+        line.directionX * vertices[vertexIndex].x +
+        line.directionY * vertices[vertexIndex].y;
+      // Vertices on the same line with the same position are the same.
+      const sortedVertexIndexes = line.vertexIndexes
+        .sort((a, b) => positionOf(a) - positionOf(b))
+        .filter(
+          (vertexIndex, index, vertexIndexes) =>
+            index === 0 || vertexIndex !== vertexIndexes[index - 1]
+        );
+      const sortedPositions = sortedVertexIndexes.map(positionOf);
+
+      for (let index = 0; index < line.edgeIndexes.length; index++) {
+        const polygonIndex = line.polygonIndexes[index];
+        const edgeIndex = line.edgeIndexes[index];
+        const polygon = polygons[polygonIndex];
+        const startPosition = positionOf(polygon[edgeIndex]);
+        const endPosition = positionOf(
+          polygon[(edgeIndex + 1) % polygon.length]
+        );
+        const minPosition = Math.min(startPosition, endPosition);
+        const maxPosition = Math.max(startPosition, endPosition);
+
+        // Find the 1st vertex after the edge start.
+        let lower = 0;
+        let upper = sortedPositions.length;
+        while (lower < upper) {
+          const middle = (lower + upper) >> 1;
+          if (sortedPositions[middle] <= minPosition) {
+            lower = middle + 1;
+          } else {
+            upper = middle;
+          }
+        }
+        const splitVertexIndexes = new Array<integer>();
+        for (
+          let sortedIndex = lower;
+          sortedIndex < sortedPositions.length &&
+          sortedPositions[sortedIndex] < maxPosition;
+          sortedIndex++
+        ) {
+          splitVertexIndexes.push(sortedVertexIndexes[sortedIndex]);
+        }
+        if (splitVertexIndexes.length === 0) {
+          continue;
+        }
+        if (startPosition > endPosition) {
+          splitVertexIndexes.reverse();
+        }
+        let polygonSplits = edgeSplits[polygonIndex];
+        if (!polygonSplits) {
+          polygonSplits = new Array<integer[]>(polygon.length);
+          edgeSplits[polygonIndex] = polygonSplits;
+        }
+        polygonSplits[edgeIndex] = splitVertexIndexes;
+      }
+    }
+
+    for (let polygonIndex = 0; polygonIndex < polygons.length; polygonIndex++) {
+      const polygonSplits = edgeSplits[polygonIndex];
+      if (!polygonSplits) {
+        continue;
+      }
+      const polygon = polygons[polygonIndex];
+      const splitPolygon = new Array<integer>();
+      for (let edgeIndex = 0; edgeIndex < polygon.length; edgeIndex++) {
+        splitPolygon.push(polygon[edgeIndex]);
+        const splitVertexIndexes = polygonSplits[edgeIndex];
+        if (splitVertexIndexes) {
+          splitPolygon.push(...splitVertexIndexes);
+        }
+      }
+      polygons[polygonIndex] = splitPolygon;
+    }
+  }
+
+  /**
+   * Fill the neighbors and the portals.
+   *
+   * Polygons are wrapped in the same direction so a shared edge is
+   * traversed in opposite directions by the 2 polygons.
+   *
+   * @param navMeshData an indexed NavMesh without any neighbor.
+   */
+  private buildAdjacency(navMeshData: NavMeshData): void {
+    const vertexCount = navMeshData.vertices.length;
+    // The 1st polygon edge found for each undirected edge.
+    const openEdgePolygons = new Map<integer, integer>();
+    const openEdgeIndexes = new Map<integer, integer>();
+    for (
+      let polygonIndex = 0;
+      polygonIndex < navMeshData.polygons.length;
+      polygonIndex++
+    ) {
+      const polygon = navMeshData.polygons[polygonIndex];
+      for (let edgeIndex = 0; edgeIndex < polygon.length; edgeIndex++) {
+        const vertexIndex = polygon[edgeIndex];
+        const nextVertexIndex = polygon[(edgeIndex + 1) % polygon.length];
+        if (vertexIndex === nextVertexIndex) {
+          continue;
+        }
+        const key =
+          Math.min(vertexIndex, nextVertexIndex) * vertexCount +
+          Math.max(vertexIndex, nextVertexIndex);
+        const otherPolygonIndex = openEdgePolygons.get(key);
+        if (otherPolygonIndex === undefined) {
+          openEdgePolygons.set(key, polygonIndex);
+          openEdgeIndexes.set(key, edgeIndex);
+          continue;
+        }
+        const otherEdgeIndex = openEdgeIndexes.get(key)!;
+        const otherPolygon = navMeshData.polygons[otherPolygonIndex];
+        if (
+          otherPolygonIndex === polygonIndex ||
+          otherPolygon[otherEdgeIndex] !== nextVertexIndex
+        ) {
+          // It's not a valid portal: the polygons are superposed.
+          continue;
+        }
+        openEdgePolygons.delete(key);
+        openEdgeIndexes.delete(key);
+
+        navMeshData.neighbors[otherPolygonIndex][otherEdgeIndex] = polygonIndex;
+        navMeshData.neighbors[polygonIndex][edgeIndex] = otherPolygonIndex;
+        navMeshData.portals.push({
+          polygonA: otherPolygonIndex,
+          edgeA: otherEdgeIndex,
+          polygonB: polygonIndex,
+          edgeB: edgeIndex,
+          start: navMeshData.vertices[nextVertexIndex],
+          end: navMeshData.vertices[vertexIndex],
+        });
+      }
+    }
+  }
+}
+
+/**
+ * The polygon edges on the same line.
+ */
+interface EdgeLine {
+  /** The line direction reduced to its smallest integer vector. */
+  directionX: integer;
+  directionY: integer;
+  /** The extremities of the edges. */
+  vertexIndexes: integer[];
+  polygonIndexes: integer[];
+  edgeIndexes: integer[];
+}
+
+const greatestCommonDivisor = (a: integer, b: integer): integer => {
+  while (b !== 0) {
+    const remainder = a % b;
+    a = b;
+    b = remainder;
+  }
+  return a;
+};
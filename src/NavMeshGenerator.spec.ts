@@ -1,17 +1,34 @@
+import { BuildDiagnostics } from "./BuildDiagnostics";
+import { ChunkedRasterizationGrid } from "./ChunkedRasterizationGrid";
 import { Point, float, integer, VertexArray } from "./CommonTypes";
 import { ContourBuilder } from "./ContourBuilder";
 import { ConvexPolygonGenerator } from "./ConvexPolygonGenerator";
 import { GridCoordinateConverter } from "./GridCoordinateConverter";
+import { GridTextFormat } from "./GridTextFormat";
+import {
+  DistanceFieldMode,
+  FillRule,
+  NavMeshBuildConfigResolver,
+  NavMeshBuildPreset,
+  RasterizationConfig,
+  RegionPartitioningMode,
+} from "./NavMeshBuildConfig";
 import { NavMeshGenerator } from "./NavMeshGenerator";
+import { startNavMeshWorker } from "./NavMeshWorker";
+import { NavMeshWorkerClient } from "./NavMeshWorkerClient";
+import { NavMeshWorkerPort } from "./NavMeshWorkerProtocol";
+import { AreaPolygon, Obstacle, PolygonObstacle } from "./Obstacle";
 import { ObstacleRasterizer } from "./ObstacleRasterizer";
 import { RasterizationGrid } from "./RasterizationGrid";
 import { RegionGenerator } from "./RegionGenerator";
+import { SvgObstacleImporter } from "./SvgObstacleImporter";
 
 describe("NavMeshGenerator", function () {
   // When adding a new case, both can be invert to easily copy/paste results.
   // It's also useful for debugging.
   const logsResults = false;
   const checksResults = true;
+  const gridTextFormat = new GridTextFormat();
 
   let createDiamond = (
     centerX: float,
@@ -62,14 +79,7 @@ describe("NavMeshGenerator", function () {
     grid: RasterizationGrid,
     expectedGridString: string
   ) => {
-    const actualGridString =
-      grid.cells
-        .map((cellRow) =>
-          cellRow
-            .map((cell) => (cell.distanceToObstacle === 0 ? "#" : "."))
-            .join("")
-        )
-        .join("\n") + "\n";
+    const actualGridString = gridTextFormat.printObstacles(grid);
     if (logsResults) {
       console.log("\n" + actualGridString);
     }
@@ -78,25 +88,11 @@ describe("NavMeshGenerator", function () {
     }
   };
 
-  const symbols =
-    "0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ";
-
   const checkDistanceField = (
     grid: RasterizationGrid,
     expectedGridString: string
   ) => {
-    const actualGridString =
-      grid.cells
-        .map((cellRow) =>
-          cellRow
-            .map((cell) =>
-              cell.distanceToObstacle === 0
-                ? "."
-                : symbols[cell.distanceToObstacle]
-            )
-            .join("")
-        )
-        .join("\n") + "\n";
+    const actualGridString = gridTextFormat.printDistanceField(grid);
     if (logsResults) {
       console.log("\n" + actualGridString);
     }
@@ -109,14 +105,7 @@ describe("NavMeshGenerator", function () {
     grid: RasterizationGrid,
     expectedGridString: string
   ) => {
-    const actualGridString =
-      grid.cells
-        .map((cellRow) =>
-          cellRow
-            .map((cell) => (cell.regionID === 0 ? "." : symbols[cell.regionID]))
-            .join("")
-        )
-        .join("\n") + "\n";
+    const actualGridString = gridTextFormat.printRegions(grid);
     if (logsResults) {
       console.log("\n" + actualGridString);
     }
@@ -642,6 +631,141 @@ describe("NavMeshGenerator", function () {
     );
   });
 
+  it("can generate a NavMesh with polygon adjacency", function () {
+    // The mesh is the same as the previous test case.
+    const navMeshGenerator = new NavMeshGenerator(0, 0, 320, 320, 10);
+    const navMeshData = navMeshGenerator.buildNavMeshData(
+      [createRectangle(160, 160, 200, 160)],
+      0
+    );
+    checkPolygons(
+      navMeshData.polygons.map((polygon) =>
+        polygon.map((vertexIndex) => {
+          const point = navMeshData.vertices[vertexIndex];
+          return [point.x, point.y];
+        })
+      ),
+      [
+        [
+          [260, 80],
+          [260, 240],
+          [320, 250],
+          [320, 0],
+        ],
+        [
+          [0, 260],
+          [60, 240],
+          [60, 80],
+          [0, 0],
+        ],
+        [
+          [60, 80],
+          [260, 80],
+          [320, 0],
+          [0, 0],
+        ],
+        [
+          [0, 320],
+          [320, 320],
+          [320, 250],
+          [260, 240],
+          [60, 240],
+          [0, 260],
+        ],
+      ]
+    );
+    expect(navMeshData.vertices.length).to.be(10);
+    expect(navMeshData.neighbors).to.eql([
+      [-1, 3, -1, 2],
+      [3, -1, 2, -1],
+      [-1, 0, -1, 1],
+      [-1, -1, 0, -1, 1, -1],
+    ]);
+    expect(navMeshData.portals.length).to.be(4);
+    for (const portal of navMeshData.portals) {
+      const polygonA = navMeshData.polygons[portal.polygonA];
+      expect(navMeshData.vertices[polygonA[portal.edgeA]]).to.be(portal.start);
+      expect(navMeshData.neighbors[portal.polygonA][portal.edgeA]).to.be(
+        portal.polygonB
+      );
+      expect(navMeshData.neighbors[portal.polygonB][portal.edgeB]).to.be(
+        portal.polygonA
+      );
+    }
+  });
+
+  it("links the polygons that meet at a T-junction", function () {
+    // Rotated rectangles at pseudo-random positions.
+    let seed = 73;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+    const obstacles: VertexArray[] = [];
+    for (let index = 0; index < 8; index++) {
+      obstacles.push(
+        createRectangle(
+          random() * 800,
+          random() * 800,
+          10 + random() * 160,
+          10 + random() * 160,
+          random() * Math.PI
+        )
+      );
+    }
+    const navMeshGenerator = new NavMeshGenerator(0, 0, 800, 800, 5);
+    navMeshGenerator.setLogger(BuildDiagnostics.silentLogger);
+    const navMeshData = navMeshGenerator.buildNavMeshData(obstacles, {
+      obstacleCellPadding: 1,
+      contourThreshold: 0.5,
+    });
+
+    // A wall can't be along the wall of a polygon on the other side.
+    const walls: Array<{
+      polygonIndex: integer;
+      start: Point;
+      end: Point;
+    }> = [];
+    navMeshData.polygons.forEach((polygon, polygonIndex) =>
+      polygon.forEach((vertexIndex, edgeIndex) => {
+        if (navMeshData.neighbors[polygonIndex][edgeIndex] === -1) {
+          walls.push({
+            polygonIndex,
+            start: navMeshData.vertices[vertexIndex],
+            end:
+              navMeshData.vertices[polygon[(edgeIndex + 1) % polygon.length]],
+          });
+        }
+      })
+    );
+    const getPosition = (wall: { start: Point; end: Point }, point: Point) =>
+      (point.x - wall.start.x) * (wall.end.x - wall.start.x) +
+      (point.y - wall.start.y) * (wall.end.y - wall.start.y);
+    const getSide = (wall: { start: Point; end: Point }, point: Point) =>
+      (point.x - wall.start.x) * (wall.end.y - wall.start.y) -
+      (point.y - wall.start.y) * (wall.end.x - wall.start.x);
+    for (const wall of walls) {
+      const length = getPosition(wall, wall.end);
+      for (const otherWall of walls) {
+        if (
+          otherWall.polygonIndex === wall.polygonIndex ||
+          getSide(wall, otherWall.start) !== 0 ||
+          getSide(wall, otherWall.end) !== 0
+        ) {
+          continue;
+        }
+        const otherStart = getPosition(wall, otherWall.start);
+        const otherEnd = getPosition(wall, otherWall.end);
+        if (otherEnd < otherStart) {
+          // The walls are in opposite directions so they must not overlap.
+          expect(Math.min(length, otherStart) <= Math.max(0, otherEnd)).to.be(
+            true
+          );
+        }
+      }
+    }
+  });
+
   // It check that there is no side effect between 2 NavMesh builds.
   it("can generate a 2nd NavMesh through the facade", function () {
     // The meshes are the same as other test cases.
@@ -788,6 +912,1721 @@ describe("NavMeshGenerator", function () {
     }
   });
 
+  it("can build NavMeshes for several paddings at once", function () {
+    const horizontalRectangle = createRectangle(160, 160, 200, 2, Math.PI / 4);
+    const verticalRectangle = createRectangle(160, 160, 2, 200, Math.PI / 4);
+    const obstacles = [horizontalRectangle, verticalRectangle];
+
+    const navMeshGenerator = new NavMeshGenerator(0, 0, 320, 320, 10);
+    const navMeshes = navMeshGenerator.buildNavMeshes(obstacles, [0, 1, 2]);
+    expect(navMeshes.size).to.be(3);
+    for (const obstacleCellPadding of [0, 1, 2]) {
+      // The distance field is shared, but the meshes must be the same as
+      // the ones built separately.
+      const navMesh = new NavMeshGenerator(0, 0, 320, 320, 10).buildNavMesh(
+        obstacles,
+        obstacleCellPadding
+      );
+      expect(navMeshes.get(obstacleCellPadding)).to.eql(navMesh);
+    }
+  });
+
+  it("can build a NavMesh with triangles only", function () {
+    const navMeshGenerator = new NavMeshGenerator(0, 0, 320, 320, 10);
+    const navMesh = navMeshGenerator.buildNavMesh(
+      [createRectangle(160, 160, 200, 160)],
+      { preset: "trianglesOnly" }
+    );
+    expect(navMesh.length).to.be.greaterThan(4);
+    for (const polygon of navMesh) {
+      expect(polygon.length).to.be(3);
+    }
+  });
+
+  it("can split long edges along obstacles", function () {
+    const navMeshGenerator = new NavMeshGenerator(0, 0, 320, 320, 10);
+    const navMesh = navMeshGenerator.buildNavMesh(
+      [createRectangle(160, 160, 200, 160)],
+      { maxEdgeLength: 10 }
+    );
+    for (const polygon of navMesh) {
+      for (let index = 0; index < polygon.length; index++) {
+        const vertex = polygon[index];
+        const nextVertex = polygon[(index + 1) % polygon.length];
+        // The obstacle edges are along the grid so they can be split at
+        // exactly 10 cells.
+        if (
+          (vertex.x === 60 && nextVertex.x === 60) ||
+          (vertex.x === 260 && nextVertex.x === 260)
+        ) {
+          expect(Math.abs(nextVertex.y - vertex.y)).not.to.be.greaterThan(100);
+        }
+        if (
+          (vertex.y === 80 && nextVertex.y === 80) ||
+          (vertex.y === 240 && nextVertex.y === 240)
+        ) {
+          expect(Math.abs(nextVertex.x - vertex.x)).not.to.be.greaterThan(100);
+        }
+      }
+    }
+  });
+
+  it("can build a NavMesh a bit at a time", function () {
+    const horizontalRectangle = createRectangle(160, 160, 200, 2, Math.PI / 4);
+    const verticalRectangle = createRectangle(160, 160, 2, 200, Math.PI / 4);
+    const obstacles = [horizontalRectangle, verticalRectangle];
+
+    const navMeshGenerator = new NavMeshGenerator(0, 0, 320, 320, 10);
+    const buildTask = navMeshGenerator.createBuildTask(obstacles, 1);
+    expect(buildTask.getStage()).to.be("rasterization");
+    const stages: string[] = [];
+    let stepCount = 0;
+    // No time budget: each call does only one step.
+    while (!buildTask.step(0)) {
+      stepCount++;
+      const stage = buildTask.getStage();
+      if (stages[stages.length - 1] !== stage) {
+        stages.push(stage);
+      }
+      const stageProgress = buildTask.getStageProgress();
+      expect(stageProgress).not.to.be.lessThan(0);
+      expect(stageProgress).not.to.be.greaterThan(1);
+    }
+    expect(stepCount).to.be.greaterThan(10);
+    expect(stages).to.eql([
+      "rasterization",
+      "distanceField",
+      "regions",
+      "contours",
+      "convexPolygons",
+    ]);
+    expect(buildTask.getStage()).to.be("done");
+    expect(buildTask.getResult()).to.eql(
+      new NavMeshGenerator(0, 0, 320, 320, 10).buildNavMesh(obstacles, 1)
+    );
+  });
+
+  it("can cancel a stale build", function () {
+    const navMeshGenerator = new NavMeshGenerator(0, 0, 320, 320, 10);
+    const staleTask = navMeshGenerator.createBuildTask([
+      createRectangle(160, 160, 200, 160),
+    ]);
+    staleTask.step(0);
+    // The obstacles moved.
+    const buildTask = navMeshGenerator.createBuildTask([
+      createRectangle(100, 160, 100, 160),
+    ]);
+    expect(staleTask.getStage()).to.be("cancelled");
+    expect(staleTask.step(1000)).to.be(true);
+    expect(staleTask.getResult()).to.be(null);
+
+    expect(buildTask.step(Number.POSITIVE_INFINITY)).to.be(true);
+    expect(buildTask.getResult()).to.eql(
+      new NavMeshGenerator(0, 0, 320, 320, 10).buildNavMesh([
+        createRectangle(100, 160, 100, 160),
+      ])
+    );
+
+    buildTask.cancel();
+    expect(buildTask.getStage()).to.be("done");
+  });
+
+  // A message channel without any thread. It uses the Node API.
+  type FakePort = NavMeshWorkerPort & {
+    otherPort: FakePort | null;
+    emit: (type: string, value: unknown) => void;
+  };
+  const createMessageChannel = (): [FakePort, FakePort] => {
+    const createPort = () => {
+      const listeners = new Map<string, Array<(value: unknown) => void>>();
+      const port: FakePort = {
+        otherPort: null,
+        postMessage: (message: unknown, transfer: ArrayBuffer[]) =>
+          setTimeout(() => port.otherPort!.emit("message", message)),
+        // Each event type has its own value type.
+        on: (type: string, listener: (value: never) => void) => {
+          if (!listeners.has(type)) {
+            listeners.set(type, []);
+          }
+          listeners.get(type)!.push(listener as (value: unknown) => void);
+        },
+        emit: (type: string, value: unknown) =>
+          (listeners.get(type) || []).forEach((listener) => listener(value)),
+      };
+      return port;
+    };
+    const clientPort = createPort();
+    const workerPort = createPort();
+    clientPort.otherPort = workerPort;
+    workerPort.otherPort = clientPort;
+    return [clientPort, workerPort];
+  };
+
+  it("can build a NavMesh in a worker", function () {
+    const [clientPort, workerPort] = createMessageChannel();
+    startNavMeshWorker(workerPort);
+    const client = new NavMeshWorkerClient(clientPort);
+
+    const horizontalRectangle = createRectangle(160, 160, 200, 2, Math.PI / 4);
+    const verticalRectangle = createRectangle(160, 160, 2, 200, Math.PI / 4);
+    const obstacles = [horizontalRectangle, verticalRectangle];
+    const area = { left: 0, top: 0, right: 320, bottom: 320 };
+    const expectedNavMesh = new NavMeshGenerator(
+      0,
+      0,
+      320,
+      320,
+      10
+    ).buildNavMesh(obstacles, 1);
+
+    return Promise.all([
+      client.build(area, 10, obstacles, 1),
+      client.build(area, 10, obstacles, -1).then(
+        () => {
+          throw new Error("The build should have failed.");
+        },
+        (error: Error) => error.message
+      ),
+    ]).then(([navMesh, errorMessage]) => {
+      expect(navMesh).to.eql(expectedNavMesh);
+      expect(errorMessage).to.match(/obstacleCellPadding/);
+    });
+  });
+
+  it("can send obstacle shapes and areas to a worker", function () {
+    const [clientPort, workerPort] = createMessageChannel();
+    startNavMeshWorker(workerPort);
+    const client = new NavMeshWorkerClient(clientPort);
+
+    const obstacles: Obstacle[] = [
+      { type: "circle", center: { x: 80, y: 80 }, radius: 40 },
+      {
+        type: "polyline",
+        vertices: [
+          { x: 160, y: 20 },
+          { x: 300, y: 60 },
+        ],
+        thickness: 4,
+      },
+      {
+        type: "bitmap",
+        data: new Uint8Array([1, 0, 1, 1]),
+        width: 2,
+        height: 2,
+        scale: 20,
+        offset: { x: 200, y: 200 },
+      },
+      {
+        type: "tilemap",
+        tiles: [
+          ["", ""],
+          ["", "#"],
+          ["/", ""],
+        ],
+        tileWidth: 30,
+        tileHeight: 30,
+        isSolid: (tile: string) =>
+          tile === "/"
+            ? [
+                [
+                  { x: 0, y: 30 },
+                  { x: 30, y: 0 },
+                  { x: 30, y: 30 },
+                ],
+              ]
+            : tile === "#",
+      },
+      {
+        type: "instance",
+        shape: createRectangle(0, 0, 40, 20),
+        transform: { position: { x: 100, y: 240 }, rotation: Math.PI / 6 },
+      },
+    ];
+    const areas: AreaPolygon[] = [
+      { areaID: 3, shape: createRectangle(240, 120, 120, 80) },
+    ];
+    const area = { left: 0, top: 0, right: 320, bottom: 320 };
+    const navMeshGenerator = new NavMeshGenerator(0, 0, 320, 320, 10);
+    navMeshGenerator.setAreas(areas);
+    const expectedNavMesh = navMeshGenerator.buildNavMeshData(obstacles, 1);
+
+    return client
+      .buildWithAreas(area, 10, obstacles, areas, 1)
+      .then((result) => {
+        expect(result.polygons).to.eql(
+          expectedNavMesh.polygons.map((polygon) =>
+            polygon.map((vertexIndex) => expectedNavMesh.vertices[vertexIndex])
+          )
+        );
+        expect(result.areaIDs).to.eql(expectedNavMesh.areaIDs);
+        expect(result.areaIDs).to.contain(3);
+      });
+  });
+
+  it("rejects the worker builds when the worker fails", function () {
+    // The worker never answers.
+    const [clientPort] = createMessageChannel();
+    const client = new NavMeshWorkerClient(clientPort);
+    const area = { left: 0, top: 0, right: 320, bottom: 320 };
+    const obstacles = [createRectangle(160, 160, 100, 100)];
+    const getErrorMessage = (navMesh: Promise<VertexArray[]>) =>
+      navMesh.then(
+        () => {
+          throw new Error("The build should have failed.");
+        },
+        (error: Error) => error.message
+      );
+
+    const failedBuild = getErrorMessage(client.build(area, 10, obstacles));
+    clientPort.emit("error", new Error("Out of memory"));
+    const terminatedBuild = getErrorMessage(client.build(area, 10, obstacles));
+    client.terminate();
+    const nextBuild = getErrorMessage(client.build(area, 10, obstacles));
+
+    return Promise.all([failedBuild, terminatedBuild, nextBuild]).then(
+      ([failedMessage, terminatedMessage, nextMessage]) => {
+        expect(failedMessage).to.be("Out of memory");
+        expect(terminatedMessage).to.match(/terminated/);
+        expect(nextMessage).to.match(/terminated/);
+      }
+    );
+  });
+
+  it("rejects invalid build settings", function () {
+    const navMeshGenerator = new NavMeshGenerator(0, 0, 320, 320, 10);
+    expect(() => navMeshGenerator.buildNavMesh([], -1)).to.throwException(
+      /obstacleCellPadding/
+    );
+    expect(() =>
+      navMeshGenerator.buildNavMesh([], { maxVerticesPerPolygon: 2 })
+    ).to.throwException(/maxVerticesPerPolygon/);
+    expect(() =>
+      navMeshGenerator.buildNavMesh([], { contourThreshold: NaN })
+    ).to.throwException(/contourThreshold/);
+    expect(() =>
+      navMeshGenerator.buildNavMesh([], {
+        preset: ("slow" as unknown) as NavMeshBuildPreset,
+      })
+    ).to.throwException(/preset/);
+    expect(() =>
+      navMeshGenerator.buildNavMesh([], {
+        fillRule: ("winding" as unknown) as FillRule,
+      })
+    ).to.throwException(/fillRule/);
+    expect(() =>
+      navMeshGenerator.buildNavMesh([], { minCoverage: 2 })
+    ).to.throwException(/minCoverage/);
+  });
+
+  it("gives the build diagnostics", function () {
+    const messages: string[] = [];
+    const navMeshGenerator = new NavMeshGenerator(0, 0, 320, 320, 10);
+    navMeshGenerator.setLogger({
+      warn: (message: string) => messages.push(message),
+      error: (message: string) => messages.push(message),
+    });
+    navMeshGenerator.buildNavMesh([createRectangle(160, 160, 200, 160)], 0);
+    const diagnostics = navMeshGenerator.getLastBuildDiagnostics();
+    expect(diagnostics.hasIssues()).to.be(false);
+    expect(messages).to.eql([]);
+    expect(diagnostics.stageCounts).to.eql({
+      obstacleCells: 20 * 16,
+      // The region around the obstacle is split in 2 to avoid holes.
+      regions: 2,
+      contours: 2,
+      polygons: 4,
+    });
+  });
+
+  it("reports island cells", function () {
+    const grid = new RasterizationGrid(0, 0, 100, 100, 20, 20);
+    for (let y = 1; y < grid.dimY() - 1; y++) {
+      for (let x = 1; x < grid.dimX() - 1; x++) {
+        grid.get(x, y).regionID = 1;
+      }
+    }
+    grid.get(3, 3).regionID = 2;
+    grid.regionCount = 3;
+
+    const diagnostics = new BuildDiagnostics(BuildDiagnostics.silentLogger);
+    new ContourBuilder().buildContours(grid, 1, 0, diagnostics);
+    expect(diagnostics.discardedIslandCells).to.eql([
+      { x: 3, y: 3, regionID: 2 },
+    ]);
+    // The region 1 has an inner contour around the island cell.
+    expect(diagnostics.contourRegionMismatches).to.eql([
+      { regionCount: 2, contourCount: 2, discardedContourCount: 1 },
+    ]);
+  });
+
+  it("keeps the cells of a parsed grid with walkable areas", function () {
+    // 6 cells of 0.1 don't give exactly 0.6 but the cells must be the same.
+    const grid = gridTextFormat.parseObstacles(
+      "........\n" +
+        "........\n" +
+        "........\n" +
+        "...#....\n" +
+        "........\n" +
+        "........\n" +
+        "........\n" +
+        "........\n",
+      0.1
+    );
+    const navMeshGenerator = NavMeshGenerator.fromGrid(grid);
+    navMeshGenerator.buildNavMesh([]);
+    const lastBuildGrid = navMeshGenerator.getLastBuildGrid()!;
+    expect(lastBuildGrid.dimX()).to.be(8);
+    expect(lastBuildGrid.dimY()).to.be(8);
+
+    navMeshGenerator.setWalkableAreas([createRectangle(0.3, 0.3, 0.4, 0.4)]);
+    navMeshGenerator.buildNavMesh([]);
+    expect(gridTextFormat.printObstacles(lastBuildGrid)).to.be(
+      "########\n" +
+        "########\n" +
+        "##....##\n" +
+        "##.#..##\n" +
+        "##....##\n" +
+        "##....##\n" +
+        "########\n" +
+        "########\n"
+    );
+    expect(navMeshGenerator.isWalkable({ x: 0.25, y: 0.25 })).to.be(false);
+    expect(navMeshGenerator.isWalkable({ x: 0.45, y: 0.35 })).to.be(true);
+  });
+
+  it("can print and parse grids as text", function () {
+    // Lines can be indented.
+    const grid = gridTextFormat.parseObstacles(
+      `
+      ..........
+      ..........
+      ...##.....
+      ...##.....
+      ..........
+      ..........
+      ..........
+      `,
+      10
+    );
+    expect(grid.dimX()).to.be(10);
+    expect(grid.dimY()).to.be(7);
+    expect(grid.convertToGridBasis({ x: 0, y: 0 }, { x: 0, y: 0 })).to.eql({
+      x: 1,
+      y: 1,
+    });
+    expect(gridTextFormat.printObstacles(grid)).to.be(
+      "..........\n" +
+        "..........\n" +
+        "...##.....\n" +
+        "...##.....\n" +
+        "..........\n" +
+        "..........\n" +
+        "..........\n"
+    );
+
+    new RegionGenerator().generateDistanceField(grid);
+    expect(gridTextFormat.printDistanceField(grid)).to.be(
+      "..........\n" +
+        ".22222222.\n" +
+        ".22..2442.\n" +
+        ".22..2442.\n" +
+        ".23223442.\n" +
+        ".22222222.\n" +
+        "..........\n"
+    );
+
+    new RegionGenerator().generateRegions(grid, 0);
+    expect(gridTextFormat.printRegions(grid)).to.be(
+      "..........\n" +
+        ".22222222.\n" +
+        ".22..1111.\n" +
+        ".22..1111.\n" +
+        ".22111111.\n" +
+        ".22111111.\n" +
+        "..........\n"
+    );
+
+    // A generator can build from the parsed obstacles and the grid of its
+    // last build can be printed.
+    const navMeshGenerator = NavMeshGenerator.fromGrid(grid);
+    const navMesh = navMeshGenerator.buildNavMesh([]);
+    expect(navMesh.length).to.be.greaterThan(0);
+    expect(navMeshGenerator.isWalkable({ x: 25, y: 15 })).to.be(false);
+    const lastBuildGrid = navMeshGenerator.getLastBuildGrid()!;
+    expect(gridTextFormat.printRegions(lastBuildGrid)).to.be(
+      gridTextFormat.printRegions(grid)
+    );
+    // The obstacles of the grid are kept between builds and the border ring
+    // is closed.
+    navMeshGenerator.buildNavMesh([createRectangle(65, 45, 10, 10)]);
+    expect(gridTextFormat.printObstacles(lastBuildGrid)).to.be(
+      "##########\n" +
+        "#........#\n" +
+        "#..##....#\n" +
+        "#..##....#\n" +
+        "#........#\n" +
+        "#......#.#\n" +
+        "##########\n"
+    );
+
+    grid.contourFlags[grid.indexOf(1, 1)] = 0b1010;
+    expect(gridTextFormat.printContourFlags(grid).split("\n")[1]).to.be(
+      ".a........"
+    );
+
+    expect(() => gridTextFormat.parseObstacles("...\n..\n")).to.throwError(
+      /the line 2 has 2 cells instead of 3/
+    );
+    expect(() => gridTextFormat.parseObstacles("..x\n")).to.throwError(
+      /unknown symbol "x"/
+    );
+  });
+
+  it("can generate an exact Euclidean distance field", function () {
+    const grid = gridTextFormat.parseObstacles(
+      `
+      ...............
+      ...............
+      ...............
+      ...............
+      ...............
+      ...............
+      ...............
+      .......#.......
+      ...............
+      ...............
+      ...............
+      ...............
+      ...............
+      ...............
+      ...............
+      `
+    );
+    new RegionGenerator().generateDistanceField(grid, "euclidean");
+    // The chamfer distances would be greater between the axes and the
+    // diagonals: 8 instead of 7 at 3 cells by 2 cells.
+    expect(gridTextFormat.printDistanceField(grid)).to.be(
+      "...............\n" +
+        ".2222222222222.\n" +
+        ".2444444444442.\n" +
+        ".2466666666642.\n" +
+        ".2468766678642.\n" +
+        ".2467644467642.\n" +
+        ".2466432346642.\n" +
+        ".246642.246642.\n" +
+        ".2466432346642.\n" +
+        ".2467644467642.\n" +
+        ".2468766678642.\n" +
+        ".2466666666642.\n" +
+        ".2444444444442.\n" +
+        ".2222222222222.\n" +
+        "...............\n"
+    );
+
+    const navMeshGenerator = new NavMeshGenerator(0, 0, 200, 200, 10);
+    const navMesh = navMeshGenerator.buildNavMesh(
+      [createRectangle(100, 100, 40, 40, Math.PI / 4)],
+      { obstacleCellPadding: 2, distanceField: "euclidean" }
+    );
+    expect(navMesh.length).to.be.greaterThan(0);
+
+    // The cell in the corner of the chunk at (49, 49) is walkable but its
+    // neighbors in the chunk are in the padding.
+    const chunkedNavMeshGenerator = new NavMeshGenerator(
+      0,
+      0,
+      1000,
+      1000,
+      10,
+      1,
+      16
+    );
+    chunkedNavMeshGenerator.buildNavMesh(
+      [createRectangle(550, 550, 100, 100)],
+      { obstacleCellPadding: 2, distanceField: "euclidean" }
+    );
+    const diagnostics = chunkedNavMeshGenerator.getLastBuildDiagnostics();
+    expect(diagnostics.discardedIslandCells).to.eql([]);
+    expect(diagnostics.hasIssues()).to.be(false);
+    expect(() =>
+      navMeshGenerator.buildNavMesh([], {
+        distanceField: ("manhattan" as unknown) as DistanceFieldMode,
+      })
+    ).to.throwError(/distanceField must be one of chamfer, euclidean/);
+  });
+
+  it("can blur the distance field of noisy obstacles", function () {
+    // Small squares at pseudo-random positions.
+    let seed = 1;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+    const obstacles: VertexArray[] = [];
+    for (let index = 0; index < 40; index++) {
+      const size = 5 + random() * 15;
+      obstacles.push(
+        createRectangle(random() * 400, random() * 400, size, size)
+      );
+    }
+    const getRegionCount = (smoothingThreshold: integer) => {
+      const navMeshGenerator = new NavMeshGenerator(0, 0, 400, 400, 5);
+      navMeshGenerator.setLogger(BuildDiagnostics.silentLogger);
+      navMeshGenerator.buildNavMesh(obstacles, {
+        obstacleCellPadding: 1,
+        smoothingThreshold,
+      });
+      // The padding is kept.
+      for (let y = 2.5; y < 400; y += 5) {
+        for (let x = 2.5; x < 400; x += 5) {
+          if (navMeshGenerator.clearanceAt({ x, y }) <= 5) {
+            expect(navMeshGenerator.isWalkable({ x, y })).to.be(false);
+          }
+        }
+      }
+      return navMeshGenerator.getLastBuildDiagnostics().stageCounts.regions;
+    };
+    const regionCount = getRegionCount(0);
+    expect(getRegionCount(1)).to.be.lessThan(regionCount);
+    expect(getRegionCount(2)).to.be.lessThan(regionCount);
+  });
+
+  it("can remove and merge small regions", function () {
+    const gridText =
+      "##########################\n" +
+      "#..............##........#\n" +
+      "#..............##........#\n" +
+      "#..#######.....##........#\n" +
+      "#..#.....#.....##........#\n" +
+      "#..#.....#...............#\n" +
+      "#..#.....#.....##........#\n" +
+      "#..#######.....##........#\n" +
+      "#..............##........#\n" +
+      "#..............##........#\n" +
+      "##########################\n";
+    const generateRegions = (
+      minRegionArea: integer,
+      mergeRegionArea: integer
+    ) => {
+      const grid = gridTextFormat.parseObstacles(gridText);
+      const regionGenerator = new RegionGenerator();
+      regionGenerator.generateDistanceField(grid);
+      regionGenerator.generateRegions(grid, 0, new BuildDiagnostics(), {
+        regionPartitioning: "watershed",
+        minRegionArea,
+        mergeRegionArea,
+      });
+      // Region IDs stay contiguous.
+      const cellCounts = new Int32Array(grid.regionCount);
+      for (let cell = 0; cell < grid.regionIDs.length; cell++) {
+        expect(grid.regionIDs[cell]).to.be.lessThan(grid.regionCount);
+        cellCounts[grid.regionIDs[cell]]++;
+      }
+      for (let regionID = 1; regionID < grid.regionCount; regionID++) {
+        expect(cellCounts[regionID]).to.be.greaterThan(0);
+      }
+      const diagnostics = new BuildDiagnostics();
+      new ContourBuilder().buildContours(grid, 1, 0, diagnostics);
+      expect(diagnostics.hasIssues()).to.be(false);
+      return grid;
+    };
+    const grid = generateRegions(0, 0);
+    const pocket = grid.indexOf(5, 5);
+    expect(grid.regionIDs[pocket]).not.to.be(0);
+
+    const filteredGrid = generateRegions(16, 0);
+    expect(filteredGrid.regionIDs[pocket]).to.be(0);
+    expect(filteredGrid.regionCount).to.be(grid.regionCount - 1);
+
+    const mergedGrid = generateRegions(16, 80);
+    expect(mergedGrid.regionCount).to.be(filteredGrid.regionCount - 1);
+    // The middle region is merged into the room on the right.
+    const roomRegionID = mergedGrid.regionIDs[mergedGrid.indexOf(20, 5)];
+    expect(mergedGrid.regionIDs[mergedGrid.indexOf(12, 2)]).to.be(roomRegionID);
+    // The region around the box would encompass it.
+    expect(mergedGrid.regionIDs[mergedGrid.indexOf(1, 1)]).not.to.be(
+      roomRegionID
+    );
+  });
+
+  it("can partition regions with a sweep", function () {
+    const gridText =
+      "####################\n" +
+      "#..................#\n" +
+      "#..................#\n" +
+      "#....###......##...#\n" +
+      "#....####.....##...#\n" +
+      "#.....###..........#\n" +
+      "#..................#\n" +
+      "#...........###....#\n" +
+      "#..##.......###....#\n" +
+      "#..##..............#\n" +
+      "#..................#\n" +
+      "####################\n";
+    const generateRegions = (regionPartitioning: RegionPartitioningMode) => {
+      const grid = gridTextFormat.parseObstacles(gridText);
+      const regionGenerator = new RegionGenerator();
+      regionGenerator.generateDistanceField(grid);
+      regionGenerator.generateRegions(grid, 0, new BuildDiagnostics(), {
+        regionPartitioning,
+        minRegionArea: 0,
+        mergeRegionArea: 0,
+      });
+      for (let cell = 0; cell < grid.regionIDs.length; cell++) {
+        expect(grid.regionIDs[cell] !== 0).to.be(
+          grid.distancesToObstacle[cell] > 0
+        );
+      }
+      const diagnostics = new BuildDiagnostics();
+      new ContourBuilder().buildContours(grid, 1, 0, diagnostics);
+      expect(diagnostics.hasIssues()).to.be(false);
+      return grid;
+    };
+    const monotoneGrid = generateRegions("monotone");
+    // Regions have one span of cells by row.
+    for (let y = 1; y < monotoneGrid.dimY() - 1; y++) {
+      const rowRegionIDs: integer[] = [];
+      for (let x = 1; x < monotoneGrid.dimX() - 1; x++) {
+        const regionID = monotoneGrid.regionIDs[monotoneGrid.indexOf(x, y)];
+        if (
+          regionID !== 0 &&
+          regionID !== monotoneGrid.regionIDs[monotoneGrid.indexOf(x - 1, y)]
+        ) {
+          expect(rowRegionIDs).not.to.contain(regionID);
+          rowRegionIDs.push(regionID);
+        }
+      }
+    }
+    const layersGrid = generateRegions("layers");
+    expect(layersGrid.regionCount).to.be.lessThan(monotoneGrid.regionCount);
+  });
+
+  it("gives simple layer contours on a scene of rotated rectangles", function () {
+    // Rotated rectangles at pseudo-random positions.
+    let seed = 80;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+    const obstacles: VertexArray[] = [];
+    for (let index = 0; index < 8; index++) {
+      obstacles.push(
+        createRectangle(
+          random() * 800,
+          random() * 800,
+          10 + random() * 160,
+          10 + random() * 160,
+          random() * Math.PI
+        )
+      );
+    }
+    const navMeshGenerator = new NavMeshGenerator(0, 0, 800, 800, 5);
+    navMeshGenerator.setLogger(BuildDiagnostics.silentLogger);
+    // A region of 1 row used to share 2 borders with every neighbor after
+    // their merges and its flattened contour couldn't be triangulated.
+    navMeshGenerator.buildNavMeshData(obstacles, {
+      obstacleCellPadding: 1,
+      regionPartitioning: "layers",
+    });
+    expect(navMeshGenerator.getLastBuildDiagnostics().hasIssues()).to.be(false);
+  });
+
+  it("can rasterize circles and ellipses", function () {
+    const grid = new RasterizationGrid(0, 0, 100, 100, 10, 10);
+    const circles: Obstacle[] = [
+      { type: "circle", center: { x: 50, y: 50 }, radius: 30 },
+      // Smaller than a cell
+      { type: "circle", center: { x: 12, y: 88 }, radius: 1 },
+    ];
+    new ObstacleRasterizer().rasterizeObstacles(grid, circles);
+    checkObstacles(
+      grid, //
+      "............\n" +
+        "............\n" +
+        "............\n" +
+        "....####....\n" +
+        "...######...\n" +
+        "...######...\n" +
+        "...######...\n" +
+        "...######...\n" +
+        "....####....\n" +
+        "..#.........\n" +
+        "............\n" +
+        "............\n"
+    );
+
+    grid.clear();
+    const ellipses: Obstacle[] = [
+      {
+        type: "ellipse",
+        center: { x: 50, y: 50 },
+        radiusX: 40,
+        radiusY: 15,
+        rotation: Math.PI / 4,
+      },
+    ];
+    new ObstacleRasterizer().rasterizeObstacles(grid, ellipses);
+    checkObstacles(
+      grid, //
+      "............\n" +
+        "............\n" +
+        "............\n" +
+        "...##.......\n" +
+        "...####.....\n" +
+        "....####....\n" +
+        "....####....\n" +
+        ".....####...\n" +
+        ".......##...\n" +
+        "............\n" +
+        "............\n" +
+        "............\n"
+    );
+  });
+
+  it("can rasterize circles on the ground of an isometric scene", function () {
+    // The isometric ratio is 2.
+    const grid = new RasterizationGrid(0, 0, 100, 60, 10, 5);
+    const circles: Obstacle[] = [
+      { type: "circle", center: { x: 50, y: 30 }, radius: 30 },
+    ];
+    new ObstacleRasterizer().rasterizeObstacles(grid, circles);
+    // Cells are square on the ground so the circle is round on the grid.
+    checkObstacles(
+      grid, //
+      "............\n" +
+        "............\n" +
+        "............\n" +
+        "............\n" +
+        "....####....\n" +
+        "...######...\n" +
+        "...######...\n" +
+        "...######...\n" +
+        "...######...\n" +
+        "....####....\n" +
+        "............\n" +
+        "............\n" +
+        "............\n" +
+        "............\n"
+    );
+  });
+
+  it("can rasterize walls without diagonal leaks", function () {
+    const grid = new RasterizationGrid(0, 0, 100, 100, 10, 10);
+    const walls: Obstacle[] = [
+      // This line goes through cell corners.
+      {
+        type: "polyline",
+        vertices: [
+          { x: 0, y: 0 },
+          { x: 40, y: 40 },
+          { x: 90, y: 20 },
+        ],
+      },
+      {
+        type: "polyline",
+        vertices: [
+          { x: 10, y: 90 },
+          { x: 80, y: 70 },
+        ],
+        thickness: 20,
+      },
+    ];
+    new ObstacleRasterizer().rasterizeObstacles(grid, walls);
+    checkObstacles(
+      grid, //
+      "............\n" +
+        ".##.........\n" +
+        ".###.....##.\n" +
+        "..###..####.\n" +
+        "...#####....\n" +
+        "....##......\n" +
+        "............\n" +
+        ".......###..\n" +
+        "....######..\n" +
+        ".######.....\n" +
+        ".###........\n" +
+        "............\n"
+    );
+  });
+
+  it("can build a mesh for an obstacle with a hole", function () {
+    const building: Obstacle[] = [
+      {
+        type: "polygon",
+        vertices: createRectangle(80, 80, 100, 100),
+        holes: [createRectangle(80, 80, 40, 40)],
+      },
+    ];
+    const grid = new RasterizationGrid(0, 0, 160, 160, 10, 10);
+    new ObstacleRasterizer().rasterizeObstacles(grid, building);
+    checkObstacles(
+      grid, //
+      "..................\n" +
+        "..................\n" +
+        "..................\n" +
+        "..................\n" +
+        "....##########....\n" +
+        "....##########....\n" +
+        "....##########....\n" +
+        "....###....###....\n" +
+        "....###....###....\n" +
+        "....###....###....\n" +
+        "....###....###....\n" +
+        "....##########....\n" +
+        "....##########....\n" +
+        "....##########....\n" +
+        "..................\n" +
+        "..................\n" +
+        "..................\n" +
+        "..................\n"
+    );
+
+    const regionGenerator = new RegionGenerator();
+    regionGenerator.generateDistanceField(grid);
+    const diagnostics = new BuildDiagnostics();
+    regionGenerator.generateRegions(grid, 0, diagnostics);
+    // The region around the building is split in 2 by
+    // ObstacleRegionBordersCleaner, but the courtyard is left untouched.
+    checkRegions(
+      grid, //
+      "..................\n" +
+        ".3333333333333333.\n" +
+        ".3333333333333333.\n" +
+        ".3333333333333333.\n" +
+        ".333..........111.\n" +
+        ".333..........111.\n" +
+        ".333..........111.\n" +
+        ".333...2222...111.\n" +
+        ".333...2222...111.\n" +
+        ".333...2222...111.\n" +
+        ".333...2222...111.\n" +
+        ".333..........111.\n" +
+        ".333..........111.\n" +
+        ".333..........111.\n" +
+        ".3331111111111111.\n" +
+        ".3331111111111111.\n" +
+        ".3331111111111111.\n" +
+        "..................\n"
+    );
+
+    // Each region has exactly one contour.
+    const contours = new ContourBuilder().buildContours(
+      grid,
+      1,
+      0,
+      diagnostics
+    );
+    expect(contours.length).to.be(3);
+    expect(diagnostics.hasIssues()).to.be(false);
+
+    const navMeshGenerator = new NavMeshGenerator(0, 0, 160, 160, 10);
+    const navMesh = navMeshGenerator.buildNavMesh(building);
+    expect(navMeshGenerator.getLastBuildDiagnostics().hasIssues()).to.be(false);
+    // The courtyard has its own polygon.
+    expect(navMesh.length).to.be(7);
+    expect(navMesh[navMesh.length - 1]).to.eql([
+      { x: 60, y: 60 },
+      { x: 60, y: 100 },
+      { x: 100, y: 100 },
+      { x: 100, y: 60 },
+    ]);
+  });
+
+  it("can build a mesh inside walkable areas", function () {
+    const island = createDiamond(80, 80, 160, 160);
+    const rock: Obstacle = {
+      type: "circle",
+      center: { x: 80, y: 80 },
+      radius: 15,
+    };
+    const grid = new RasterizationGrid(0, 0, 160, 160, 20, 20);
+    new ObstacleRasterizer().rasterizeObstacles(grid, [rock], [island]);
+    checkObstacles(
+      grid, //
+      "##########\n" +
+        "#####.####\n" +
+        "####...###\n" +
+        "###.....##\n" +
+        "##..##...#\n" +
+        "##..##...#\n" +
+        "###.....##\n" +
+        "####...###\n" +
+        "#####.####\n" +
+        "##########\n"
+    );
+
+    const navMeshGenerator = NavMeshGenerator.fromWalkableAreas([island], 20);
+    const navMesh = navMeshGenerator.buildNavMesh([rock]);
+    expect(navMeshGenerator.getLastBuildDiagnostics().hasIssues()).to.be(false);
+    expect(navMesh.length).to.be.greaterThan(0);
+    for (const polygon of navMesh) {
+      for (const vertex of polygon) {
+        // Cells are walkable when their center is in the island.
+        expect(
+          Math.abs(vertex.x - 80) + Math.abs(vertex.y - 80)
+        ).not.to.be.greaterThan(80 + 20);
+      }
+    }
+  });
+
+  it("can split regions and polygons by area", function () {
+    const obstacles = [createRectangle(80, 60, 40, 40)];
+    const road = createRectangle(160, 160, 320, 40);
+    // The puddle is encompassed by the ground.
+    const puddle = createRectangle(160, 250, 60, 60);
+    const areas: AreaPolygon[] = [
+      { areaID: 1, shape: road },
+      { areaID: 2, shape: puddle },
+    ];
+    const getExpectedAreaID = (point: Point) =>
+      140 < point.y && point.y < 180
+        ? 1
+        : 130 < point.x && point.x < 190 && 220 < point.y && point.y < 280
+        ? 2
+        : 0;
+    const denseGenerator = new NavMeshGenerator(0, 0, 320, 320, 10);
+    const chunkedGenerator = new NavMeshGenerator(0, 0, 320, 320, 10, 1, 8);
+    for (const navMeshGenerator of [denseGenerator, chunkedGenerator]) {
+      navMeshGenerator.setAreas(areas);
+      const navMeshData = navMeshGenerator.buildNavMeshData(obstacles, 1);
+      expect(navMeshGenerator.getLastBuildDiagnostics().hasIssues()).to.be(
+        false
+      );
+      expect(navMeshData.areaIDs.length).to.be(navMeshData.polygons.length);
+      for (
+        let polygonIndex = 0;
+        polygonIndex < navMeshData.polygons.length;
+        polygonIndex++
+      ) {
+        // The polygons are convex so their centroid is inside.
+        const polygon = navMeshData.polygons[polygonIndex];
+        const centroid = { x: 0, y: 0 };
+        for (const vertexIndex of polygon) {
+          centroid.x += navMeshData.vertices[vertexIndex].x / polygon.length;
+          centroid.y += navMeshData.vertices[vertexIndex].y / polygon.length;
+        }
+        expect(navMeshData.areaIDs[polygonIndex]).to.be(
+          getExpectedAreaID(centroid)
+        );
+      }
+      for (let areaID = 0; areaID <= 2; areaID++) {
+        expect(navMeshData.areaIDs).to.contain(areaID);
+      }
+
+      // The polygons on both sides of an area border share their vertices.
+      const reachedPolygons = [0];
+      const isReached = navMeshData.polygons.map((_, index) => index === 0);
+      for (let index = 0; index < reachedPolygons.length; index++) {
+        for (const neighbor of navMeshData.neighbors[reachedPolygons[index]]) {
+          if (neighbor !== -1 && !isReached[neighbor]) {
+            isReached[neighbor] = true;
+            reachedPolygons.push(neighbor);
+          }
+        }
+      }
+      expect(reachedPolygons.length).to.be(navMeshData.polygons.length);
+    }
+
+    denseGenerator.setAreas([{ areaID: 256, shape: puddle }]);
+    expect(() => denseGenerator.buildNavMeshData(obstacles, 1)).to.throwError(
+      /Invalid area polygon/
+    );
+  });
+
+  it("can rasterize self-intersecting polygons with a fill rule", function () {
+    const star: VertexArray = [];
+    for (let index = 0; index < 5; index++) {
+      const angle = -Math.PI / 2 + (index * 4 * Math.PI) / 5;
+      star.push({
+        x: 80 + 70 * Math.cos(angle),
+        y: 80 + 70 * Math.sin(angle),
+      });
+    }
+    const grid = new RasterizationGrid(0, 0, 160, 160, 10, 10);
+    const obstacleRasterizer = new ObstacleRasterizer();
+    // The pentagon at the center is crossed twice.
+    obstacleRasterizer.rasterizeObstacles(grid, [star], null, {
+      ...NavMeshBuildConfigResolver.defaultConfig,
+      fillRule: "evenOdd",
+    });
+    checkObstacles(
+      grid, //
+      "..................\n" +
+        "..................\n" +
+        "..................\n" +
+        "..................\n" +
+        "........##........\n" +
+        "........##........\n" +
+        "........##........\n" +
+        "...####....####...\n" +
+        ".....##....##.....\n" +
+        "......#....#......\n" +
+        "......#....#......\n" +
+        "......######......\n" +
+        "......##..##......\n" +
+        ".....#......#.....\n" +
+        "..................\n" +
+        "..................\n" +
+        "..................\n" +
+        "..................\n"
+    );
+
+    grid.clear();
+    obstacleRasterizer.rasterizeObstacles(grid, [star], null, {
+      ...NavMeshBuildConfigResolver.defaultConfig,
+      fillRule: "nonZero",
+    });
+    checkObstacles(
+      grid, //
+      "..................\n" +
+        "..................\n" +
+        "..................\n" +
+        "..................\n" +
+        "........##........\n" +
+        "........##........\n" +
+        "........##........\n" +
+        "...############...\n" +
+        ".....########.....\n" +
+        "......######......\n" +
+        "......######......\n" +
+        "......######......\n" +
+        "......##..##......\n" +
+        ".....#......#.....\n" +
+        "..................\n" +
+        "..................\n" +
+        "..................\n" +
+        "..................\n"
+    );
+
+    // The 2 loops of a figure-eight are wound in opposite directions.
+    const figureEight = [
+      { x: 20, y: 30 },
+      { x: 140, y: 130 },
+      { x: 140, y: 30 },
+      { x: 20, y: 130 },
+    ];
+    const expectedGridString =
+      "..................\n" +
+      "..................\n" +
+      "..................\n" +
+      "..................\n" +
+      "...#..........#...\n" +
+      "...##........##...\n" +
+      "...###......###...\n" +
+      "...####....####...\n" +
+      "...#####..#####...\n" +
+      "...#####..#####...\n" +
+      "...####....####...\n" +
+      "...###......###...\n" +
+      "...##........##...\n" +
+      "...#..........#...\n" +
+      "..................\n" +
+      "..................\n" +
+      "..................\n" +
+      "..................\n";
+    for (const fillRule of ["evenOdd", "nonZero"] as FillRule[]) {
+      grid.clear();
+      obstacleRasterizer.rasterizeObstacles(grid, [figureEight], null, {
+        ...NavMeshBuildConfigResolver.defaultConfig,
+        fillRule,
+      });
+      checkObstacles(grid, expectedGridString);
+    }
+  });
+
+  it("can rasterize obstacles with a coverage mode", function () {
+    const triangle = [
+      { x: 12, y: 12 },
+      { x: 58, y: 17 },
+      { x: 34, y: 63 },
+    ];
+    const grid = new RasterizationGrid(0, 0, 80, 80, 10, 10);
+    const obstacleRasterizer = new ObstacleRasterizer();
+    obstacleRasterizer.rasterizeObstacles(grid, [triangle], null, {
+      ...NavMeshBuildConfigResolver.defaultConfig,
+      rasterizationMode: "conservative",
+    });
+    checkObstacles(
+      grid, //
+      "..........\n" +
+        "..........\n" +
+        "..#####...\n" +
+        "..#####...\n" +
+        "..#####...\n" +
+        "...###....\n" +
+        "...###....\n" +
+        "....#.....\n" +
+        "..........\n" +
+        "..........\n"
+    );
+
+    grid.clear();
+    obstacleRasterizer.rasterizeObstacles(grid, [triangle], null, {
+      ...NavMeshBuildConfigResolver.defaultConfig,
+      rasterizationMode: "permissive",
+    });
+    checkObstacles(
+      grid, //
+      "..........\n" +
+        "..........\n" +
+        "...###....\n" +
+        "...###....\n" +
+        "...###....\n" +
+        "....#.....\n" +
+        "....#.....\n" +
+        "..........\n" +
+        "..........\n" +
+        "..........\n"
+    );
+
+    // This rectangle covers half of a cell.
+    const rectangle = createRectangle(12.5, 15, 5, 10);
+    grid.clear();
+    obstacleRasterizer.rasterizeObstacles(grid, [rectangle], null, {
+      ...NavMeshBuildConfigResolver.defaultConfig,
+      rasterizationMode: "permissive",
+      minCoverage: 0.5,
+    });
+    expect(grid.get(2, 2).distanceToObstacle).to.be(0);
+    expect(grid.obstacleCellCount()).to.be(1);
+
+    grid.clear();
+    obstacleRasterizer.rasterizeObstacles(grid, [rectangle], null, {
+      ...NavMeshBuildConfigResolver.defaultConfig,
+      rasterizationMode: "permissive",
+      minCoverage: 0.6,
+    });
+    expect(grid.obstacleCellCount()).to.be(0);
+  });
+
+  it("can rasterize an occupancy bitmap", function () {
+    const maskRows = [
+      "................",
+      "................",
+      "................",
+      "....######......",
+      "....######......",
+      "....######......",
+      "....######......",
+      "....##########..",
+      "....##########..",
+      "....##########..",
+      "....##########..",
+      "................",
+      "................",
+      "................",
+      "................",
+      "................",
+    ];
+    const data = new Uint8Array(16 * 16);
+    maskRows.forEach((maskRow, y) => {
+      for (let x = 0; x < maskRow.length; x++) {
+        data[y * 16 + x] = maskRow.charAt(x) === "#" ? 255 : 0;
+      }
+    });
+    // Pixels are half a cell large.
+    const bitmap: Obstacle = {
+      type: "bitmap",
+      data,
+      width: 16,
+      height: 16,
+      threshold: 128,
+      scale: 5,
+      offset: { x: 20, y: 20 },
+    };
+    const grid = new RasterizationGrid(0, 0, 120, 120, 10, 10);
+    const obstacleRasterizer = new ObstacleRasterizer();
+    obstacleRasterizer.rasterizeObstacles(grid, [bitmap]);
+    checkObstacles(
+      grid, //
+      "..............\n" +
+        "..............\n" +
+        "..............\n" +
+        "..............\n" +
+        ".....###......\n" +
+        ".....###......\n" +
+        ".....#####....\n" +
+        ".....#####....\n" +
+        "..............\n" +
+        "..............\n" +
+        "..............\n" +
+        "..............\n" +
+        "..............\n" +
+        "..............\n"
+    );
+
+    // The last row of pixels only covers half of the cells.
+    grid.clear();
+    obstacleRasterizer.rasterizeObstacles(grid, [bitmap], null, {
+      ...NavMeshBuildConfigResolver.defaultConfig,
+      rasterizationMode: "conservative",
+    });
+    checkObstacles(
+      grid, //
+      "..............\n" +
+        "..............\n" +
+        "..............\n" +
+        "..............\n" +
+        ".....###......\n" +
+        ".....###......\n" +
+        ".....#####....\n" +
+        ".....#####....\n" +
+        ".....#####....\n" +
+        "..............\n" +
+        "..............\n" +
+        "..............\n" +
+        "..............\n" +
+        "..............\n"
+    );
+
+    const navMeshGenerator = new NavMeshGenerator(0, 0, 120, 120, 10);
+    const navMesh = navMeshGenerator.buildNavMesh([bitmap]);
+    expect(navMeshGenerator.getLastBuildDiagnostics().hasIssues()).to.be(false);
+    expect(navMesh.length).to.be(6);
+  });
+
+  it("can rasterize a tilemap", function () {
+    const tiles = [
+      "########",
+      "#......#",
+      "#..#...#",
+      "#......#",
+      "#....../",
+      "########",
+    ].map((row) => row.split(""));
+    // Slopes have a custom polygon.
+    const isSolid = (tile: string) =>
+      tile === "#"
+        ? true
+        : tile === "/"
+        ? [
+            [
+              { x: 15, y: 0 },
+              { x: 15, y: 15 },
+              { x: 0, y: 15 },
+            ],
+          ]
+        : false;
+    // Tiles are 1.5 cell large.
+    const grid = new RasterizationGrid(0, 0, 120, 90, 10, 10);
+    const obstacleRasterizer = new ObstacleRasterizer();
+    obstacleRasterizer.rasterizeTilemap(grid, tiles, 15, 15, isSolid);
+    checkObstacles(
+      grid, //
+      "..............\n" +
+        ".############.\n" +
+        ".#.........##.\n" +
+        ".#.........##.\n" +
+        ".#...##....##.\n" +
+        ".#.........##.\n" +
+        ".#.........##.\n" +
+        ".#............\n" +
+        ".############.\n" +
+        ".############.\n" +
+        "..............\n"
+    );
+
+    grid.clear();
+    obstacleRasterizer.rasterizeTilemap(grid, tiles, 15, 15, isSolid, {
+      ...NavMeshBuildConfigResolver.defaultConfig,
+      rasterizationMode: "conservative",
+    });
+    checkObstacles(
+      grid, //
+      "..............\n" +
+        ".############.\n" +
+        ".############.\n" +
+        ".##........##.\n" +
+        ".##..##....##.\n" +
+        ".##..##....##.\n" +
+        ".##........###\n" +
+        ".##........###\n" +
+        ".#############\n" +
+        ".############.\n" +
+        "..............\n"
+    );
+
+    // The cell is half covered by a solid tile and half by a polygon tile.
+    const halfCellGrid = new RasterizationGrid(0, 0, 20, 10, 10, 10);
+    obstacleRasterizer.rasterizeTilemap(
+      halfCellGrid,
+      [["#", "/"]],
+      5,
+      10,
+      (tile) =>
+        tile === "#"
+          ? true
+          : [
+              [
+                { x: 0, y: 0 },
+                { x: 5, y: 0 },
+                { x: 5, y: 10 },
+                { x: 0, y: 10 },
+              ],
+            ],
+      {
+        ...NavMeshBuildConfigResolver.defaultConfig,
+        rasterizationMode: "permissive",
+        minCoverage: 0.75,
+      }
+    );
+    checkObstacles(
+      halfCellGrid, //
+      "....\n" + //
+        ".#..\n" +
+        "....\n"
+    );
+
+    const navMeshGenerator = new NavMeshGenerator(0, 0, 120, 90, 10);
+    const tilemap: Obstacle = {
+      type: "tilemap",
+      tiles,
+      tileWidth: 15,
+      tileHeight: 15,
+      isSolid,
+    };
+    const navMesh = navMeshGenerator.buildNavMesh([tilemap]);
+    expect(navMeshGenerator.getLastBuildDiagnostics().hasIssues()).to.be(false);
+    expect(navMesh.length).to.be(7);
+  });
+
+  it("can rasterize transformed instances of a polygon", function () {
+    const hitbox = [
+      { x: -10, y: -10 },
+      { x: 20, y: -10 },
+      { x: 20, y: 0 },
+      { x: 0, y: 0 },
+      { x: 0, y: 20 },
+      { x: -10, y: 20 },
+    ];
+    const transforms = [
+      { position: { x: 40, y: 40 } },
+      { position: { x: 120, y: 40 }, rotation: Math.PI / 6 },
+      { position: { x: 40, y: 120 }, scaleX: 2, scaleY: 0.5 },
+      { position: { x: 120, y: 120 }, rotation: 2, scaleX: -1.5 },
+    ];
+    const instances: Obstacle[] = transforms.map(
+      (transform): Obstacle => ({
+        type: "instance",
+        shape: hitbox,
+        transform,
+      })
+    );
+    const bakedPolygons = transforms.map((transform) => {
+      const rotation = transform.rotation || 0;
+      const scaleX = transform.scaleX !== undefined ? transform.scaleX : 1;
+      const scaleY = transform.scaleY !== undefined ? transform.scaleY : 1;
+      return hitbox.map((vertex) => ({
+        x:
+          transform.position.x +
+          Math.cos(rotation) * scaleX * vertex.x -
+          Math.sin(rotation) * scaleY * vertex.y,
+        y:
+          transform.position.y +
+          Math.sin(rotation) * scaleX * vertex.x +
+          Math.cos(rotation) * scaleY * vertex.y,
+      }));
+    });
+    const toGridString = (grid: RasterizationGrid) =>
+      grid.cells
+        .map((cellRow) =>
+          cellRow
+            .map((cell) => (cell.distanceToObstacle === 0 ? "#" : "."))
+            .join("")
+        )
+        .join("\n");
+
+    const obstacleRasterizer = new ObstacleRasterizer();
+    for (const rasterizationMode of ["center", "conservative"] as const) {
+      const config: RasterizationConfig = {
+        ...NavMeshBuildConfigResolver.defaultConfig,
+        rasterizationMode,
+      };
+      const instanceGrid = new RasterizationGrid(0, 0, 160, 160, 10, 10);
+      obstacleRasterizer.rasterizeObstacles(
+        instanceGrid,
+        instances,
+        null,
+        config
+      );
+      const bakedGrid = new RasterizationGrid(0, 0, 160, 160, 10, 10);
+      obstacleRasterizer.rasterizeObstacles(
+        bakedGrid,
+        bakedPolygons,
+        null,
+        config
+      );
+      expect(instanceGrid.obstacleCellCount()).to.be.greaterThan(0);
+      expect(toGridString(instanceGrid)).to.be(toGridString(bakedGrid));
+    }
+    // The shared polygon is never changed.
+    expect(hitbox[0]).to.eql({ x: -10, y: -10 });
+  });
+
+  it("can import obstacles from SVG", function () {
+    const importer = new SvgObstacleImporter(10);
+
+    expect(
+      importer.importPathData("m10 10h20v20h-20z M50 10 l10 0 0 10 -10 0Z")
+    ).to.eql([
+      [
+        { x: 10, y: 10 },
+        { x: 30, y: 10 },
+        { x: 30, y: 30 },
+        { x: 10, y: 30 },
+      ],
+      [
+        { x: 50, y: 10 },
+        { x: 60, y: 10 },
+        { x: 60, y: 20 },
+        { x: 50, y: 20 },
+      ],
+    ]);
+    expect(() => importer.importPathData("M 0 0 L 10")).to.throwError(
+      /Invalid SVG path data/
+    );
+
+    // Curves are flattened with a tolerance of a quarter of cell.
+    const tolerance = 2.5;
+    const [circle] = importer.importSvg(
+      '<svg><circle cx="80" cy="80" r="30"/></svg>'
+    ) as VertexArray[];
+    expect(circle.length).to.be.greaterThan(4);
+    for (let index = 0; index < circle.length; index++) {
+      const vertex = circle[index];
+      const nextVertex = circle[(index + 1) % circle.length];
+      const deltaX = (vertex.x + nextVertex.x) / 2 - 80;
+      const deltaY = (vertex.y + nextVertex.y) / 2 - 80;
+      const distance = Math.sqrt(deltaX * deltaX + deltaY * deltaY);
+      expect(distance).to.be.within(30 - tolerance, 30);
+    }
+
+    const obstacles = importer.importSvg(`
+      <svg xmlns="http://www.w3.org/2000/svg">
+        <!-- <rect width="800" height="600"/> -->
+        <rect x="20" y="20" width="60" height="40" rx="10"/>
+        <ellipse cx="150" cy="50" rx="30" ry="20"/>
+        <polygon points="20,120 80,120 50,180"/>
+        <path d="M120 120 C120 100 180 100 180 120 Q190 150 180 180 A30 30 0 0 1 120 180 z
+                 M140 140 L160 140 L160 160 L140 160 Z"/>
+      </svg>`);
+    expect(obstacles.length).to.be(4);
+    expect(
+      ((obstacles[3] as PolygonObstacle).holes as VertexArray[]).length
+    ).to.be(1);
+
+    const navMeshGenerator = new NavMeshGenerator(0, 0, 200, 200, 10);
+    const navMesh = navMeshGenerator.buildNavMesh(obstacles, 0);
+    expect(navMesh.length).to.be.greaterThan(0);
+    expect(navMeshGenerator.getLastBuildDiagnostics().hasIssues()).to.be(false);
+
+    // Subpaths wound in the same direction are only holes with evenodd.
+    // Shapes in definitions are not rendered.
+    const squares = "M50 50 H250 V250 H50 Z M100 100 H200 V200 H100 Z";
+    const isCenterWalkable = (svg: string) => {
+      const generator = new NavMeshGenerator(0, 0, 300, 300, 10);
+      generator.buildNavMesh(importer.importSvg(svg), 0);
+      return generator.isWalkable({ x: 150, y: 150 });
+    };
+    expect(isCenterWalkable(`<path d="${squares}"/>`)).to.be(false);
+    expect(
+      isCenterWalkable(`<path fill-rule="evenodd" d="${squares}"/>`)
+    ).to.be(true);
+    expect(
+      isCenterWalkable(`
+        <g style="fill-rule: evenodd">
+          <path fill-rule="nonzero" d="${squares}"/>
+        </g>`)
+    ).to.be(false);
+    expect(
+      isCenterWalkable(`
+        <g fill-rule="evenodd"><path d="${squares}"/></g>
+        <defs><rect x="140" y="140" width="20" height="20"/></defs>
+        <clipPath id="clip"><circle cx="150" cy="150" r="10"/></clipPath>`)
+    ).to.be(true);
+
+    // Attribute values can contain ">".
+    expect(isCenterWalkable(`<path data-note="a>b" d="${squares}"/>`)).to.be(
+      false
+    );
+    expect(() =>
+      importer.importSvg(`<path fill-rule="evenodd d="${squares}"/>`)
+    ).to.throwError(/Invalid SVG: malformed tag/);
+  });
+
+  it("can store the cells in chunks near obstacles only", function () {
+    const obstacles = [
+      createRectangle(420, 380, 120, 80, Math.PI / 8),
+      createRectangle(1300, 1250, 60, 200),
+    ];
+
+    const grid = new ChunkedRasterizationGrid(0, 0, 1600, 1600, 8, 8, 32);
+    const steps = new ObstacleRasterizer().rasterizeChunksSteps(
+      grid,
+      obstacles,
+      null,
+      NavMeshBuildConfigResolver.defaultConfig,
+      3
+    );
+    while (!steps.next().done) {}
+    expect(grid.chunkCountX() * grid.chunkCountY()).to.be(49);
+    // The chunks touched by an obstacle or by its margin.
+    expect(grid.materializedChunkIndexes().length).to.be(5);
+
+    const getArea = (navMesh: VertexArray[]) => {
+      let area = 0;
+      for (const polygon of navMesh) {
+        for (let index = 0; index < polygon.length; index++) {
+          const vertex = polygon[index];
+          const nextVertex = polygon[(index + 1) % polygon.length];
+          area += vertex.x * nextVertex.y - nextVertex.x * vertex.y;
+        }
+      }
+      return Math.abs(area / 2);
+    };
+    const denseArea = getArea(
+      new NavMeshGenerator(0, 0, 1600, 1600, 8).buildNavMesh(obstacles, 2)
+    );
+    const navMeshGenerator = new NavMeshGenerator(0, 0, 1600, 1600, 8, 1, 32);
+    navMeshGenerator.setLogger(BuildDiagnostics.silentLogger);
+    const navMesh = navMeshGenerator.buildNavMesh(obstacles, 2);
+    expect(getArea(navMesh)).to.be.within(denseArea * 0.995, denseArea * 1.005);
+    // Regions stop at chunk borders so a few cells can be discarded there.
+    const diagnostics = navMeshGenerator.getLastBuildDiagnostics();
+    expect(diagnostics.contourRegionMismatches.length).to.be(0);
+    expect(diagnostics.failedTriangulations.length).to.be(0);
+
+    // The polygons on both sides of a chunk border share their vertices.
+    const navMeshData = navMeshGenerator.buildNavMeshData(obstacles, 2);
+    const reachedPolygons = [0];
+    const isReached = navMeshData.polygons.map((polygon, index) => index === 0);
+    for (let index = 0; index < reachedPolygons.length; index++) {
+      for (const neighbor of navMeshData.neighbors[reachedPolygons[index]]) {
+        if (neighbor !== -1 && !isReached[neighbor]) {
+          isReached[neighbor] = true;
+          reachedPolygons.push(neighbor);
+        }
+      }
+    }
+    expect(reachedPolygons.length).to.be(navMeshData.polygons.length);
+
+    expect(() => navMeshGenerator.buildNavMesh(obstacles, 32)).to.throwError(
+      /less than the chunk size/
+    );
+  });
+
+  it("gives the same walkable cells with chunks except near chunk bounds", function () {
+    // The cell size can't be represented exactly and the rectangle sides
+    // are on cell centers.
+    const cellSize = 0.7;
+    const left = 0.3;
+    const cellCount = 160;
+    const chunkSize = 16;
+    const getCellCenter = (cellIndex: integer) =>
+      left + (cellIndex + 0.5) * cellSize;
+    let seed = 1;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+    const obstacles: VertexArray[] = [];
+    for (let index = 0; index < 20; index++) {
+      const minX = getCellCenter(Math.floor(random() * cellCount));
+      const minY = getCellCenter(Math.floor(random() * cellCount));
+      const maxX = minX + (2 + Math.floor(random() * 20)) * cellSize;
+      const maxY = minY + (2 + Math.floor(random() * 20)) * cellSize;
+      obstacles.push([
+        { x: minX, y: minY },
+        { x: maxX, y: minY },
+        { x: maxX, y: maxY },
+        { x: minX, y: maxY },
+      ]);
+    }
+    const right = left + cellCount * cellSize;
+    const denseGenerator = new NavMeshGenerator(
+      left,
+      left,
+      right,
+      right,
+      cellSize
+    );
+    denseGenerator.buildNavMesh(obstacles, 1);
+    const chunkedGenerator = new NavMeshGenerator(
+      left,
+      left,
+      right,
+      right,
+      cellSize,
+      1,
+      chunkSize
+    );
+    chunkedGenerator.setLogger(BuildDiagnostics.silentLogger);
+    chunkedGenerator.buildNavMesh(obstacles, 1);
+
+    // Regions are cleaned up chunk by chunk.
+    let differenceCount = 0;
+    for (let y = 0; y < cellCount; y++) {
+      for (let x = 0; x < cellCount; x++) {
+        const point = { x: getCellCenter(x), y: getCellCenter(y) };
+        if (
+          denseGenerator.isWalkable(point) !==
+          chunkedGenerator.isWalkable(point)
+        ) {
+          differenceCount++;
+          const distanceToChunkBound = Math.min(
+            x % chunkSize,
+            chunkSize - 1 - (x % chunkSize),
+            y % chunkSize,
+            chunkSize - 1 - (y % chunkSize)
+          );
+          expect(distanceToChunkBound).to.be.lessThan(3);
+        }
+      }
+    }
+    expect(differenceCount).to.be.lessThan(cellCount);
+  });
+
+  it("can query the grid at points after a build", function () {
+    const obstacles = [createRectangle(100, 100, 40, 160)];
+    const denseGenerator = new NavMeshGenerator(0, 0, 200, 200, 10);
+    const chunkedGenerator = new NavMeshGenerator(0, 0, 200, 200, 10, 1, 4);
+    for (const navMeshGenerator of [denseGenerator, chunkedGenerator]) {
+      navMeshGenerator.buildNavMesh(obstacles, 1);
+
+      expect(navMeshGenerator.isWalkable({ x: 100, y: 100 })).to.be(false);
+      expect(navMeshGenerator.isWalkable({ x: 60, y: 100 })).to.be(true);
+      // in the padding of the area bounds
+      expect(navMeshGenerator.isWalkable({ x: 5, y: 5 })).to.be(false);
+      expect(navMeshGenerator.isWalkable({ x: 15, y: 15 })).to.be(true);
+      expect(navMeshGenerator.isWalkable({ x: -50, y: 100 })).to.be(false);
+
+      expect(navMeshGenerator.clearanceAt({ x: 100, y: 100 })).to.be(0);
+      expect(navMeshGenerator.clearanceAt({ x: 60, y: 100 })).to.be(20);
+
+      expect(navMeshGenerator.regionAt({ x: 100, y: 100 })).to.be(0);
+      expect(navMeshGenerator.regionAt({ x: 60, y: 100 })).to.be.greaterThan(0);
+
+      expect(
+        navMeshGenerator.nearestWalkablePoint({ x: 60, y: 100 }, 20)
+      ).to.eql({ x: 60, y: 100 });
+      // The padding of 1 cell is around the obstacle from 80 to 120 on x.
+      const nearestPoint = navMeshGenerator.nearestWalkablePoint(
+        { x: 102, y: 105 },
+        50
+      )!;
+      expect(navMeshGenerator.isWalkable(nearestPoint)).to.be(true);
+      expect(nearestPoint.x).to.be.within(130, 130.1);
+      expect(nearestPoint.y).to.be(105);
+      expect(
+        navMeshGenerator.nearestWalkablePoint({ x: 102, y: 105 }, 20)
+      ).to.be(null);
+    }
+    // Region IDs are unique across chunks.
+    expect(chunkedGenerator.regionAt({ x: 30, y: 30 })).not.to.be(
+      chunkedGenerator.regionAt({ x: 60, y: 100 })
+    );
+  });
+
   it("keep obstacle region encompassed in another region", function () {
     const horizontalRectangle = createRectangle(160, 160, 200, 5, Math.PI / 4);
     const verticalRectangle = createRectangle(160, 160, 5, 200, Math.PI / 4);
@@ -1,9 +1,23 @@
+import { BuildDiagnostics, NavMeshLogger } from "./BuildDiagnostics";
+import { ChunkContourBuilder } from "./ChunkContourBuilder";
+import { ChunkedRasterizationGrid } from "./ChunkedRasterizationGrid";
 import { Point, float, integer, VertexArray } from "./CommonTypes";
 import { ContourBuilder } from "./ContourBuilder";
+import { ContourPoint } from "./ContourPoint";
 import { ConvexPolygonGenerator } from "./ConvexPolygonGenerator";
 import { GridCoordinateConverter } from "./GridCoordinateConverter";
+import {
+  NavMeshBuildConfig,
+  NavMeshBuildConfigResolver,
+  NavMeshBuildOptions,
+} from "./NavMeshBuildConfig";
+import { NavMeshBuildStageSteps, NavMeshBuildTask } from "./NavMeshBuildTask";
+import { NavMeshData } from "./NavMeshData";
+import { NavMeshDataBuilder } from "./NavMeshDataBuilder";
+import { AreaPolygon, Obstacle } from "./Obstacle";
 import { ObstacleRasterizer } from "./ObstacleRasterizer";
-import { RasterizationGrid } from "./RasterizationGrid";
+import { RasterizationCell } from "./RasterizationCell";
+import { GridBasis, RasterizationGrid } from "./RasterizationGrid";
 import { RegionGenerator } from "./RegionGenerator";
 
 // This implementation is strongly inspired from a Java one
@@ -23,58 +37,965 @@ import { RegionGenerator } from "./RegionGenerator";
 // https://github.com/recastnavigation/recastnavigation
 
 export class NavMeshGenerator {
-  private grid: RasterizationGrid;
+  /**
+   * How far from the cell bounds the nearest walkable points are in cells.
+   */
+  private static readonly cellInset = 1 / 1024;
+
+  private grid: RasterizationGrid | null;
+  private chunkedGrid: ChunkedRasterizationGrid | null;
+  /** The basis of the grid that is used. */
+  private gridBasis: GridBasis;
   private isometricRatio: float;
+  private rasterizationCellSize: float;
   private obstacleRasterizer: ObstacleRasterizer;
   private regionGenerator: RegionGenerator;
   private contourBuilder: ContourBuilder;
+  private chunkContourBuilder: ChunkContourBuilder;
   private convexPolygonGenerator: ConvexPolygonGenerator;
   private gridCoordinateConverter: GridCoordinateConverter;
+  private navMeshDataBuilder: NavMeshDataBuilder;
+  private logger: NavMeshLogger;
+  private diagnostics: BuildDiagnostics;
+  private buildTask: NavMeshBuildTask<unknown> | null;
+  private walkableAreas: Iterable<Obstacle> | null;
+  private areas: Iterable<AreaPolygon> | null;
+  /** The cells given as obstacles to {@link NavMeshGenerator.fromGrid}. */
+  private gridObstacleCells: integer[];
+  private workingGridPoint: Point;
+
+  /**
+   * Create a generator for irregular levels like islands or caves.
+   *
+   * @param walkableAreas the boundary polygons of the walkable areas.
+   * Everything outside of them is an obstacle.
+   * @param rasterizationCellSize
+   * @param isometricRatio
+   * @param chunkSize see {@link NavMeshGenerator.constructor}
+   * @returns a generator with an area that fits the walkable areas.
+   */
+  static fromWalkableAreas(
+    walkableAreas: Iterable<Point>[],
+    rasterizationCellSize: float,
+    isometricRatio: float = 1,
+    chunkSize: integer = 0
+  ): NavMeshGenerator {
+    let left = Number.MAX_VALUE;
+    let top = Number.MAX_VALUE;
+    let right = -Number.MAX_VALUE;
+    let bottom = -Number.MAX_VALUE;
+    for (const walkableArea of walkableAreas) {
+      const verticesItr = walkableArea[Symbol.iterator]();
+      for (
+        let next = verticesItr.next();
+        !next.done;
+        next = verticesItr.next()
+      ) {
+        const vertex = next.value;
+        left = Math.min(left, vertex.x);
+        top = Math.min(top, vertex.y);
+        right = Math.max(right, vertex.x);
+        bottom = Math.max(bottom, vertex.y);
+      }
+    }
+    if (left > right) {
+      // There is no vertex at all.
+      left = top = right = bottom = 0;
+    }
+    const navMeshGenerator = new NavMeshGenerator(
+      left,
+      top,
+      right,
+      bottom,
+      rasterizationCellSize,
+      isometricRatio,
+      chunkSize
+    );
+    navMeshGenerator.setWalkableAreas(walkableAreas);
+    return navMeshGenerator;
+  }
+
+  /**
+   * Create a generator that keeps the obstacles of a grid, for instance one
+   * parsed by {@link GridTextFormat.parseObstacles}.
+   *
+   * Every build starts from these obstacles and the given obstacles are
+   * added to them. They stay obstacles inside the walkable areas.
+   *
+   * @param grid the grid is not changed: its obstacle cells are copied.
+   * @returns a generator with the area and the cells of the grid.
+   */
+  static fromGrid(grid: RasterizationGrid): NavMeshGenerator {
+    // The border ring is added back by the generator grid.
+    const left = grid.originX + grid.cellWidth;
+    const top = grid.originY + grid.cellHeight;
+    const right = left + (grid.dimX() - 2) * grid.cellWidth;
+    const bottom = top + (grid.dimY() - 2) * grid.cellHeight;
+    const navMeshGenerator = new NavMeshGenerator(
+      left,
+      top,
+      right,
+      bottom,
+      grid.cellWidth,
+      grid.cellWidth / grid.cellHeight
+    );
+    // The bounds can round to one more cell, so the cell counts are given
+    // to keep the obstacle cells at the same indexes.
+    const generatorGrid = new RasterizationGrid(
+      left,
+      top,
+      right,
+      bottom,
+      grid.cellWidth,
+      grid.cellHeight,
+      grid.dimX(),
+      grid.dimY()
+    );
+    generatorGrid.setParentBasis(
+      grid.originX,
+      grid.originY,
+      grid.cellOffsetX,
+      grid.cellOffsetY
+    );
+    navMeshGenerator.grid = generatorGrid;
+    navMeshGenerator.gridBasis = generatorGrid;
+    const distancesToObstacle = grid.distancesToObstacle;
+    for (let cell = 0; cell < distancesToObstacle.length; cell++) {
+      if (distancesToObstacle[cell] === 0) {
+        navMeshGenerator.gridObstacleCells.push(cell);
+      }
+    }
+    return navMeshGenerator;
+  }
 
+  /**
+   * @param chunkSize when it's greater than 0, cells are stored in square
+   * chunks of this side that are only allocated near obstacles (see
+   * {@link ChunkedRasterizationGrid}). It saves memory for huge areas that
+   * are mostly empty. The obstacle padding must be less than it.
+   * Obstacle cells are the same as without chunks but regions are built
+   * chunk by chunk, so walkable cells can differ along the chunk bounds.
+   */
   constructor(
     areaLeftBound: float,
     areaTopBound: float,
     areaRightBound: float,
     areaBottomBound: float,
     rasterizationCellSize: float,
-    isometricRatio: float = 1
+    isometricRatio: float = 1,
+    chunkSize: integer = 0
   ) {
-    this.grid = new RasterizationGrid(
-      areaLeftBound,
-      areaTopBound,
-      areaRightBound,
-      areaBottomBound,
-      rasterizationCellSize,
-      // make cells square in the world
-      rasterizationCellSize / isometricRatio
-    );
+    // make cells square in the world
+    const cellHeight = rasterizationCellSize / isometricRatio;
+    if (chunkSize > 0) {
+      this.grid = null;
+      this.chunkedGrid = new ChunkedRasterizationGrid(
+        areaLeftBound,
+        areaTopBound,
+        areaRightBound,
+        areaBottomBound,
+        rasterizationCellSize,
+        cellHeight,
+        chunkSize
+      );
+      this.gridBasis = this.chunkedGrid;
+    } else {
+      this.grid = new RasterizationGrid(
+        areaLeftBound,
+        areaTopBound,
+        areaRightBound,
+        areaBottomBound,
+        rasterizationCellSize,
+        cellHeight
+      );
+      this.chunkedGrid = null;
+      this.gridBasis = this.grid;
+    }
     this.isometricRatio = isometricRatio;
+    this.rasterizationCellSize = rasterizationCellSize;
     this.obstacleRasterizer = new ObstacleRasterizer();
     this.regionGenerator = new RegionGenerator();
     this.contourBuilder = new ContourBuilder();
+    this.chunkContourBuilder = new ChunkContourBuilder();
     this.convexPolygonGenerator = new ConvexPolygonGenerator();
     this.gridCoordinateConverter = new GridCoordinateConverter();
+    this.navMeshDataBuilder = new NavMeshDataBuilder();
+    this.logger = BuildDiagnostics.consoleLogger;
+    this.diagnostics = new BuildDiagnostics(this.logger);
+    this.buildTask = null;
+    this.walkableAreas = null;
+    this.areas = null;
+    this.gridObstacleCells = [];
+    this.workingGridPoint = { x: 0, y: 0 };
+  }
+
+  /**
+   * Restrict the next builds to some areas.
+   *
+   * The generator area must contain them because nothing outside of it is
+   * walkable (see {@link NavMeshGenerator.fromWalkableAreas}).
+   *
+   * @param walkableAreas the boundary polygons or shapes of the walkable
+   * areas. Everything outside of them is an obstacle. When null, the whole
+   * generator area is walkable.
+   */
+  setWalkableAreas(walkableAreas: Iterable<Obstacle> | null): void {
+    this.walkableAreas = walkableAreas;
+  }
+
+  /**
+   * Give terrain types to some zones of the next builds.
+   *
+   * The regions and the polygons never cross area boundaries and
+   * {@link NavMeshGenerator.buildNavMeshData} gives the area of each
+   * polygon. With chunks, every chunk an area touches is allocated.
+   *
+   * @param areas the walkable zones with an area ID. When null, every cell
+   * has the area ID 0.
+   */
+  setAreas(areas: Iterable<AreaPolygon> | null): void {
+    this.areas = areas;
+  }
+
+  /**
+   * @param logger receives the messages of the next builds.
+   * See {@link BuildDiagnostics.silentLogger}
+   */
+  setLogger(logger: NavMeshLogger): void {
+    this.logger = logger;
   }
 
+  /**
+   * When several meshes are built at once, the counts are summed.
+   *
+   * @returns the issues found during the last build.
+   */
+  getLastBuildDiagnostics(): BuildDiagnostics {
+    return this.diagnostics;
+  }
+
+  /**
+   * The grid can be printed with {@link GridTextFormat}. It must not be
+   * changed.
+   *
+   * @returns the cells of the last build with their obstacles, distances,
+   * regions and contour flags or null when the cells are stored in chunks.
+   */
+  getLastBuildGrid(): RasterizationGrid | null {
+    return this.grid;
+  }
+
+  /**
+   * Build a NavMesh that avoids the obstacles.
+   *
+   * It cancels the unfinished build task.
+   *
+   * @param obstacles the obstacle polygons or shapes.
+   * @param options the build settings or a padding in cells to apply around
+   * the obstacles (see {@link NavMeshBuildConfig}).
+   * @returns the convex polygons of the NavMesh.
+   * @throws Error when a setting is not valid.
+   */
   buildNavMesh(
-    obstacles: Iterable<Iterable<Point>>,
-    obstacleCellPadding: integer
+    obstacles: Iterable<Obstacle>,
+    options: integer | NavMeshBuildOptions = 0
   ): VertexArray[] {
-    this.grid.clear();
-    this.obstacleRasterizer.rasterizeObstacles(this.grid, obstacles);
-    this.regionGenerator.generateDistanceField(this.grid);
-    this.regionGenerator.generateRegions(this.grid, obstacleCellPadding);
-    // It's probably not a good idea to expose the vectorization threshold.
-    // As stated in the parameter documentation, the value 1 gives good
-    // results in any situations.
-    const threshold = 1;
-    const contours = this.contourBuilder.buildContours(this.grid, threshold);
-    const meshField = this.convexPolygonGenerator.splitToConvexPolygons(
-      contours,
-      16
+    return this.runBuildTask(this.createBuildTask(obstacles, options));
+  }
+
+  /**
+   * Create a build that can be done a bit at a time with
+   * {@link NavMeshBuildTask.step}.
+   *
+   * The obstacles are read during the build so they must not change until
+   * the task is finished. When they change, the task should be cancelled
+   * and a new one created.
+   *
+   * It cancels the unfinished build task.
+   *
+   * @param obstacles the obstacle polygons or shapes.
+   * @param options the build settings or a padding in cells to apply around
+   * the obstacles (see {@link NavMeshBuildConfig}).
+   * @returns the build task that gives the convex polygons of the NavMesh.
+   * @throws Error when a setting is not valid.
+   */
+  createBuildTask(
+    obstacles: Iterable<Obstacle>,
+    options: integer | NavMeshBuildOptions = 0
+  ): NavMeshBuildTask<VertexArray[]> {
+    const config = NavMeshBuildConfigResolver.resolve(options);
+    const meshField = new Array<Point[]>();
+    return this.startBuildTask(
+      [
+        ...this.createRasterizationStages(
+          obstacles,
+          config,
+          config.obstacleCellPadding
+        ),
+        ...this.createPolygonStages(config, meshField),
+      ],
+      () => this.convertFromGridBasis(meshField)
+    );
+  }
+
+  /**
+   * Build a NavMesh that avoids the obstacles with shared vertices and
+   * polygon adjacency.
+   *
+   * It cancels the unfinished build task.
+   *
+   * @param obstacles the obstacle polygons or shapes.
+   * @param options the build settings or a padding in cells to apply around
+   * the obstacles (see {@link NavMeshBuildConfig}).
+   * @returns the NavMesh with indexed vertices and the area of each
+   * polygon (see {@link NavMeshGenerator.setAreas}).
+   * @throws Error when a setting is not valid.
+   */
+  buildNavMeshData(
+    obstacles: Iterable<Obstacle>,
+    options: integer | NavMeshBuildOptions = 0
+  ): NavMeshData {
+    const config = NavMeshBuildConfigResolver.resolve(options);
+    const meshField = new Array<Point[]>();
+    const areaIDs = new Array<integer>();
+    return this.runBuildTask(
+      this.startBuildTask(
+        [
+          ...this.createRasterizationStages(
+            obstacles,
+            config,
+            config.obstacleCellPadding
+          ),
+          ...this.createPolygonStages(config, meshField, areaIDs),
+        ],
+        () => {
+          const navMeshData = this.navMeshDataBuilder.buildNavMeshData(
+            this.gridBasis,
+            meshField,
+            areaIDs
+          );
+          // Vertices are new instances that can be scaled in place.
+          for (const vertex of navMeshData.vertices) {
+            this.convertPointFromGridBasis(vertex);
+          }
+          return navMeshData;
+        }
+      )
+    );
+  }
+
+  /**
+   * Build a NavMesh for each padding. It's faster than several calls to
+   * {@link NavMeshGenerator.buildNavMesh} because the obstacles are only
+   * rasterized once.
+   *
+   * It cancels the unfinished build task.
+   *
+   * @param obstacles the obstacle polygons or shapes.
+   * @param obstacleCellPaddings the paddings in cells to apply around the
+   * obstacles. There is typically one padding by size of moving objects.
+   * @param options the build settings except the padding
+   * (see {@link NavMeshBuildConfig}).
+   * @returns the convex polygons of the NavMesh by padding.
+   * @throws Error when a setting is not valid.
+   */
+  buildNavMeshes(
+    obstacles: Iterable<Obstacle>,
+    obstacleCellPaddings: integer[],
+    options: NavMeshBuildOptions = {}
+  ): Map<integer, VertexArray[]> {
+    // Check every setting before doing anything.
+    const baseConfig = NavMeshBuildConfigResolver.resolve(options);
+    const configs = obstacleCellPaddings.map((obstacleCellPadding) => {
+      const config = { ...baseConfig, obstacleCellPadding };
+      NavMeshBuildConfigResolver.validate(config);
+      return config;
+    });
+    const stages = this.createRasterizationStages(
+      obstacles,
+      baseConfig,
+      Math.max(0, ...obstacleCellPaddings)
     );
+    const meshFields = new Map<integer, Point[][]>();
+    for (const config of configs) {
+      if (meshFields.has(config.obstacleCellPadding)) {
+        continue;
+      }
+      const meshField = new Array<Point[]>();
+      meshFields.set(config.obstacleCellPadding, meshField);
+      // The distance field doesn't depend on the padding.
+      Array.prototype.push.apply(
+        stages,
+        this.createPolygonStages(config, meshField)
+      );
+    }
+    return this.runBuildTask(
+      this.startBuildTask(stages, () => {
+        const navMeshes = new Map<integer, VertexArray[]>();
+        meshFields.forEach((meshField, obstacleCellPadding) =>
+          navMeshes.set(
+            obstacleCellPadding,
+            this.convertFromGridBasis(meshField)
+          )
+        );
+        return navMeshes;
+      })
+    );
+  }
+
+  /**
+   * Check if a point is walkable without looking for the NavMesh polygon
+   * that contains it.
+   *
+   * @param point a position in the scene basis like obstacle vertices.
+   * @returns true when the cell of the point is walkable in the last build.
+   * The obstacle padding is taken into account.
+   */
+  isWalkable(point: Point): boolean {
+    return this.regionAt(point) !== RasterizationCell.OBSTACLE_REGION_ID;
+  }
+
+  /**
+   * @param point a position in the scene basis like obstacle vertices.
+   * @returns the distance on the ground from the cell of the point to the
+   * nearest obstacle cell in the last build. It's 0 in obstacles. With
+   * chunks, it can be less than the real distance beyond the padding.
+   */
+  clearanceAt(point: Point): float {
+    const gridPoint = this.gridBasis.convertToGridBasis(
+      point,
+      this.workingGridPoint
+    );
+    // Distances to obstacles are 2 by cell.
+    return (
+      (this.getDistanceToObstacle(
+        Math.floor(gridPoint.x),
+        Math.floor(gridPoint.y)
+      ) *
+        this.rasterizationCellSize) /
+      2
+    );
+  }
+
+  /**
+   * @param point a position in the scene basis like obstacle vertices.
+   * @returns the region of the cell of the point in the last build or
+   * {@link RasterizationCell.OBSTACLE_REGION_ID} when it's not walkable.
+   */
+  regionAt(point: Point): integer {
+    const gridPoint = this.gridBasis.convertToGridBasis(
+      point,
+      this.workingGridPoint
+    );
+    return this.getRegionID(Math.floor(gridPoint.x), Math.floor(gridPoint.y));
+  }
+
+  /**
+   * Find the nearest walkable point in the last build, for instance to move
+   * a spawn point or a click out of the obstacles.
+   *
+   * @param point a position in the scene basis like obstacle vertices.
+   * @param maxSearchDistance the search radius on the ground.
+   * @returns a new point in the scene basis or null when there is no
+   * walkable cell in the search radius.
+   */
+  nearestWalkablePoint(point: Point, maxSearchDistance: float): Point | null {
+    const gridPoint = this.gridBasis.convertToGridBasis(
+      point,
+      this.workingGridPoint
+    );
+    const cellX = Math.floor(gridPoint.x);
+    const cellY = Math.floor(gridPoint.y);
+    if (
+      this.getRegionID(cellX, cellY) !== RasterizationCell.OBSTACLE_REGION_ID
+    ) {
+      return { x: point.x, y: point.y };
+    }
+    // Cells are squares on the ground.
+    const maxCellDistance = maxSearchDistance / this.rasterizationCellSize;
+    let nearestDistanceSquare = maxCellDistance * maxCellDistance;
+    let nearestX = 0;
+    let nearestY = 0;
+    let isFound = false;
+    // Look at the squares of cells around the point from the closest one.
+    for (
+      let ring = 1;
+      ring <= Math.ceil(maxCellDistance) &&
+      (ring - 1) * (ring - 1) <= nearestDistanceSquare;
+      ring++
+    ) {
+      for (let deltaY = -ring; deltaY <= ring; deltaY++) {
+        const isRingSide = deltaY === -ring || deltaY === ring;
+        for (
+          let deltaX = -ring;
+          deltaX <= ring;
+          deltaX += isRingSide ? 1 : 2 * ring
+        ) {
+          const x = cellX + deltaX;
+          const y = cellY + deltaY;
+          if (this.getRegionID(x, y) === RasterizationCell.OBSTACLE_REGION_ID) {
+            continue;
+          }
+          // Stay a bit inside the cell so that the point is still in it
+          // after rounding errors.
+          const closestX = Math.min(
+            Math.max(gridPoint.x, x + NavMeshGenerator.cellInset),
+            x + 1 - NavMeshGenerator.cellInset
+          );
+          const closestY = Math.min(
+            Math.max(gridPoint.y, y + NavMeshGenerator.cellInset),
+            y + 1 - NavMeshGenerator.cellInset
+          );
+          const distanceSquare =
+            (closestX - gridPoint.x) * (closestX - gridPoint.x) +
+            (closestY - gridPoint.y) * (closestY - gridPoint.y);
+          if (distanceSquare <= nearestDistanceSquare) {
+            nearestDistanceSquare = distanceSquare;
+            nearestX = closestX;
+            nearestY = closestY;
+            isFound = true;
+          }
+        }
+      }
+    }
+    if (!isFound) {
+      return null;
+    }
+    gridPoint.x = nearestX;
+    gridPoint.y = nearestY;
+    return this.gridBasis.convertFromGridBasis(gridPoint, { x: 0, y: 0 });
+  }
+
+  /**
+   * @returns the region of a cell or
+   * {@link RasterizationCell.OBSTACLE_REGION_ID} when it's not walkable or
+   * outside of the grid.
+   */
+  private getRegionID(x: integer, y: integer): integer {
+    if (this.chunkedGrid) {
+      return this.chunkedGrid.getRegionID(x, y);
+    }
+    const grid = this.grid!;
+    return grid.contains(x, y)
+      ? grid.regionIDs[grid.indexOf(x, y)]
+      : RasterizationCell.OBSTACLE_REGION_ID;
+  }
+
+  /**
+   * @returns the distance of a cell to the nearest obstacle (see
+   * {@link RasterizationCell.distanceToObstacle}) or 0 when it's outside of
+   * the grid.
+   */
+  private getDistanceToObstacle(x: integer, y: integer): integer {
+    if (this.chunkedGrid) {
+      return this.chunkedGrid.getDistanceToObstacle(x, y);
+    }
+    const grid = this.grid!;
+    return grid.contains(x, y)
+      ? grid.distancesToObstacle[grid.indexOf(x, y)]
+      : 0;
+  }
+
+  /**
+   * Cancel the unfinished build task and start a new one.
+   */
+  private startBuildTask<Result>(
+    stages: NavMeshBuildStageSteps[],
+    buildResult: () => Result
+  ): NavMeshBuildTask<Result> {
+    if (this.buildTask) {
+      // The grid is shared by every build.
+      this.buildTask.cancel();
+    }
+    const buildTask = new NavMeshBuildTask(stages, buildResult);
+    this.buildTask = buildTask;
+    return buildTask;
+  }
+
+  /**
+   * Do the whole build at once.
+   */
+  private runBuildTask<Result>(buildTask: NavMeshBuildTask<Result>): Result {
+    buildTask.step(Number.POSITIVE_INFINITY);
+    return buildTask.getResult()!;
+  }
+
+  /**
+   * Rasterize the obstacles and generate the distance field.
+   *
+   * @param obstacleCellPaddingMax the greatest padding of the builds.
+   * @throws Error when the padding is too big for the chunks.
+   */
+  private createRasterizationStages(
+    obstacles: Iterable<Obstacle>,
+    config: NavMeshBuildConfig,
+    obstacleCellPaddingMax: integer
+  ): NavMeshBuildStageSteps[] {
+    if (this.chunkedGrid) {
+      return this.createChunkRasterizationStages(
+        this.chunkedGrid,
+        obstacles,
+        config,
+        obstacleCellPaddingMax
+      );
+    }
+    const grid = this.grid!;
+    const walkableAreas = this.walkableAreas;
+    const areas = this.areas;
+    const gridObstacleCells = this.gridObstacleCells;
+    return [
+      {
+        stage: "rasterization",
+        start: () => {
+          this.diagnostics = new BuildDiagnostics(this.logger);
+          grid.clear();
+          return this.obstacleRasterizer.rasterizeObstaclesSteps(
+            grid,
+            obstacles,
+            walkableAreas,
+            config,
+            areas
+          );
+        },
+        end: () => {
+          // After the walkable areas that would clear them.
+          for (const cell of gridObstacleCells) {
+            grid.distancesToObstacle[cell] = 0;
+          }
+          this.diagnostics.stageCounts.obstacleCells = grid.obstacleCellCount();
+        },
+      },
+      {
+        stage: "distanceField",
+        start: () =>
+          this.regionGenerator.generateDistanceFieldSteps(
+            grid,
+            config.distanceField,
+            config.smoothingThreshold
+          ),
+      },
+    ];
+  }
+
+  /**
+   * Rasterize the obstacles and generate the distance field of the chunks
+   * near obstacles.
+   *
+   * @param obstacleCellPaddingMax the greatest padding of the builds.
+   * @throws Error when the padding is too big for the chunks.
+   */
+  private createChunkRasterizationStages(
+    chunkedGrid: ChunkedRasterizationGrid,
+    obstacles: Iterable<Obstacle>,
+    config: NavMeshBuildConfig,
+    obstacleCellPaddingMax: integer
+  ): NavMeshBuildStageSteps[] {
+    if (obstacleCellPaddingMax >= chunkedGrid.chunkSize) {
+      throw new Error(
+        "Invalid NavMesh build config: obstacleCellPadding must be less than the chunk size " +
+          chunkedGrid.chunkSize +
+          " but is " +
+          obstacleCellPaddingMax +
+          "."
+      );
+    }
+    const walkableAreas = this.walkableAreas;
+    const areas = this.areas;
+    return [
+      {
+        stage: "rasterization",
+        start: () => {
+          this.diagnostics = new BuildDiagnostics(this.logger);
+          // Obstacles in the margin must give the same distances as a
+          // dense grid up to the padding.
+          return this.obstacleRasterizer.rasterizeChunksSteps(
+            chunkedGrid,
+            obstacles,
+            walkableAreas,
+            config,
+            obstacleCellPaddingMax + 1,
+            areas
+          );
+        },
+        end: () => {
+          this.diagnostics.stageCounts.obstacleCells = chunkedGrid.obstacleCellCount();
+        },
+      },
+      {
+        stage: "distanceField",
+        start: () =>
+          this.chunksSteps(
+            chunkedGrid,
+            (chunk) =>
+              this.regionGenerator.generateDistanceFieldSteps(
+                chunk,
+                config.distanceField,
+                config.smoothingThreshold
+              ),
+            (chunk, chunkIndex) => chunkedGrid.closeMargin(chunkIndex)
+          ),
+      },
+    ];
+  }
+
+  /**
+   * Do the steps of every materialized chunk one chunk after the other.
+   *
+   * @param startChunk gives the steps of a chunk.
+   * @param endChunk called when the steps of a chunk are done.
+   * @return the progress between 0 and 1.
+   */
+  private *chunksSteps(
+    chunkedGrid: ChunkedRasterizationGrid,
+    startChunk: (
+      chunk: RasterizationGrid,
+      chunkIndex: integer
+    ) => Iterator<float>,
+    endChunk?: (chunk: RasterizationGrid, chunkIndex: integer) => void
+  ): Generator<float, void, void> {
+    const chunkIndexes = chunkedGrid.materializedChunkIndexes();
+    for (let index = 0; index < chunkIndexes.length; index++) {
+      const chunkIndex = chunkIndexes[index];
+      const chunk = chunkedGrid.getChunk(chunkIndex)!;
+      const steps = startChunk(chunk, chunkIndex);
+      for (let step = steps.next(); !step.done; step = steps.next()) {
+        yield (index + step.value) / chunkIndexes.length;
+      }
+      if (endChunk) {
+        endChunk(chunk, chunkIndex);
+      }
+    }
+  }
+
+  /**
+   * Build the NavMesh polygons from a grid where the distance field is
+   * already generated.
+   *
+   * @param outMeshField receives the convex polygons in the grid basis.
+   * @param outAreaIDs receives the area of each polygon.
+   */
+  private createPolygonStages(
+    config: NavMeshBuildConfig,
+    outMeshField: Point[][],
+    outAreaIDs: integer[] = []
+  ): NavMeshBuildStageSteps[] {
+    const contours = new Array<ContourPoint[]>();
+    const contourAreaIDs = new Array<integer>();
+    let failedTriangulationCount = 0;
+    return [
+      ...(this.chunkedGrid
+        ? this.createChunkContourStages(
+            this.chunkedGrid,
+            config,
+            contours,
+            contourAreaIDs
+          )
+        : this.createContourStages(
+            this.grid!,
+            config,
+            contours,
+            contourAreaIDs
+          )),
+      {
+        stage: "convexPolygons",
+        start: () => {
+          failedTriangulationCount = this.diagnostics.failedTriangulations
+            .length;
+          return this.convexPolygonGenerator.splitToConvexPolygonsSteps(
+            contours,
+            config.maxVerticesPerPolygon,
+            this.diagnostics,
+            outMeshField,
+            contourAreaIDs,
+            outAreaIDs
+          );
+        },
+        end: () => {
+          const diagnostics = this.diagnostics;
+          diagnostics.stageCounts.polygons += outMeshField.length;
+          // The reported contours are copies that can be scaled in place.
+          for (
+            let index = failedTriangulationCount;
+            index < diagnostics.failedTriangulations.length;
+            index++
+          ) {
+            for (const point of diagnostics.failedTriangulations[index]
+              .contour) {
+              this.convertPointFromGridBasis(point);
+            }
+          }
+        },
+      },
+    ];
+  }
+
+  /**
+   * Generate the regions and build their contours.
+   *
+   * @param outContours receives the contours in the grid basis.
+   * @param outAreaIDs receives the area of each contour.
+   */
+  private createContourStages(
+    grid: RasterizationGrid,
+    config: NavMeshBuildConfig,
+    outContours: ContourPoint[][],
+    outAreaIDs: integer[]
+  ): NavMeshBuildStageSteps[] {
+    return [
+      {
+        stage: "regions",
+        start: () => {
+          grid.clearRegions();
+          return this.regionGenerator.generateRegionsSteps(
+            grid,
+            config.obstacleCellPadding,
+            this.diagnostics,
+            config
+          );
+        },
+        end: () => {
+          this.diagnostics.stageCounts.regions += Math.max(
+            grid.regionCount - 1,
+            0
+          );
+        },
+      },
+      {
+        stage: "contours",
+        start: () =>
+          this.contourBuilder.buildContoursSteps(
+            grid,
+            config.contourThreshold,
+            config.maxEdgeLength,
+            this.diagnostics,
+            outContours,
+            outAreaIDs
+          ),
+        end: () => {
+          this.diagnostics.stageCounts.contours += outContours.length;
+        },
+      },
+    ];
+  }
+
+  /**
+   * Generate the regions and build their contours chunk by chunk.
+   *
+   * Empty chunks are not processed: each run of empty chunks is a region
+   * with a rectangular contour.
+   *
+   * @param outContours receives the contours in the grid basis.
+   * @param outAreaIDs receives the area of each contour.
+   */
+  private createChunkContourStages(
+    chunkedGrid: ChunkedRasterizationGrid,
+    config: NavMeshBuildConfig,
+    outContours: ContourPoint[][],
+    outAreaIDs: integer[]
+  ): NavMeshBuildStageSteps[] {
+    const chunkContours = new Array<ContourPoint[]>();
+    const chunkAreaIDs = new Array<integer>();
+    let discardedIslandCellCount = 0;
+    return [
+      {
+        stage: "regions",
+        start: () => {
+          chunkedGrid.clearRegions(config.obstacleCellPadding);
+          return this.chunksSteps(
+            chunkedGrid,
+            (chunk) => {
+              chunk.clearRegions();
+              // Regions cut by the chunk bounds continue in other chunks so
+              // they are never removed or merged.
+              return this.regionGenerator.generateRegionsSteps(
+                chunk,
+                config.obstacleCellPadding,
+                this.diagnostics,
+                config,
+                chunkedGrid.chunkBoundsCellDistance()
+              );
+            },
+            (chunk, chunkIndex) => chunkedGrid.addChunkRegions(chunkIndex)
+          );
+        },
+        end: () => {
+          chunkedGrid.addEmptyChunkRegions();
+          this.diagnostics.stageCounts.regions += chunkedGrid.regionCount - 1;
+        },
+      },
+      {
+        stage: "contours",
+        start: () =>
+          this.chunksSteps(
+            chunkedGrid,
+            (chunk) => {
+              chunkContours.length = 0;
+              chunkAreaIDs.length = 0;
+              discardedIslandCellCount = this.diagnostics.discardedIslandCells
+                .length;
+              return this.contourBuilder.buildContoursSteps(
+                chunk,
+                config.contourThreshold,
+                config.maxEdgeLength,
+                this.diagnostics,
+                chunkContours,
+                chunkAreaIDs
+              );
+            },
+            (chunk, chunkIndex) => {
+              this.chunkContourBuilder.moveChunkContours(
+                chunkedGrid,
+                chunkIndex,
+                chunkContours
+              );
+              Array.prototype.push.apply(outContours, chunkContours);
+              Array.prototype.push.apply(outAreaIDs, chunkAreaIDs);
+              const discardedIslandCells = this.diagnostics
+                .discardedIslandCells;
+              for (
+                let index = discardedIslandCellCount;
+                index < discardedIslandCells.length;
+                index++
+              ) {
+                discardedIslandCells[index].x += chunkedGrid.chunkCellOffsetX(
+                  chunkIndex
+                );
+                discardedIslandCells[index].y += chunkedGrid.chunkCellOffsetY(
+                  chunkIndex
+                );
+              }
+            }
+          ),
+        end: () => {
+          this.chunkContourBuilder.buildEmptyChunkContours(
+            chunkedGrid,
+            config.obstacleCellPadding,
+            config.maxEdgeLength,
+            outContours,
+            outAreaIDs
+          );
+          this.diagnostics.stageCounts.contours += outContours.length;
+          this.chunkContourBuilder.stitchChunkBorders(chunkedGrid, outContours);
+        },
+      },
+    ];
+  }
+
+  /**
+   * @param point a point in the grid basis that is moved in the scene basis.
+   */
+  private convertPointFromGridBasis(point: Point): void {
+    this.gridBasis.convertFromGridBasis(point, point);
+    point.y *= this.isometricRatio;
+  }
+
+  /**
+   * @param meshField convex polygons in the grid basis.
+   * @returns the convex polygons in the scene basis.
+   */
+  private convertFromGridBasis(meshField: Point[][]): VertexArray[] {
     const scaledMeshField = this.gridCoordinateConverter.convertFromGridBasis(
-      this.grid,
+      this.gridBasis,
       meshField
     );
     if (this.isometricRatio != 1) {
@@ -0,0 +1,81 @@
+import { VertexArray } from "./CommonTypes";
+import { NavMeshGenerator } from "./NavMeshGenerator";
+import {
+  NavMeshWorkerCodec,
+  NavMeshWorkerPort,
+  NavMeshWorkerResponse,
+} from "./NavMeshWorkerProtocol";
+
+/**
+ * Answers the build requests of a {@link NavMeshWorkerClient}.
+ *
+ * The generator is kept between builds as long as the area and the cell
+ * size don't change.
+ *
+ * @param port the worker global scope or the Node `parentPort`.
+ */
+export function startNavMeshWorker(port: NavMeshWorkerPort): void {
+  let navMeshGenerator: NavMeshGenerator | null = null;
+  let generatorKey = "";
+  NavMeshWorkerCodec.listen(port, (request) => {
+    if (!NavMeshWorkerCodec.isRequest(request)) {
+      return;
+    }
+    const { area, cellSize, isometricRatio } = request;
+    const key = [
+      area.left,
+      area.top,
+      area.right,
+      area.bottom,
+      cellSize,
+      isometricRatio,
+    ].join(" ");
+    let response: NavMeshWorkerResponse;
+    try {
+      if (!navMeshGenerator || generatorKey !== key) {
+        navMeshGenerator = new NavMeshGenerator(
+          area.left,
+          area.top,
+          area.right,
+          area.bottom,
+          cellSize,
+          isometricRatio
+        );
+        generatorKey = key;
+      }
+      // The generator is kept so the areas of the last request are reset.
+      navMeshGenerator.setAreas(
+        request.areas ? NavMeshWorkerCodec.unpackAreas(request.areas) : null
+      );
+      const navMeshData = navMeshGenerator.buildNavMeshData(
+        NavMeshWorkerCodec.unpackObstacles(request.obstacles),
+        request.options
+      );
+      const { vertices } = navMeshData;
+      const navMesh: VertexArray[] = navMeshData.polygons.map((polygon) =>
+        polygon.map((vertexIndex) => vertices[vertexIndex])
+      );
+      response = {
+        id: request.id,
+        polygons: NavMeshWorkerCodec.pack(navMesh),
+        areaIDs: new Uint8Array(navMeshData.areaIDs),
+        error: null,
+      };
+    } catch (error) {
+      response = {
+        id: request.id,
+        polygons: null,
+        areaIDs: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+    port.postMessage(
+      response,
+      response.polygons && response.areaIDs
+        ? NavMeshWorkerCodec.getTransferables(response.polygons).concat(
+            response.areaIDs.buffer
+          )
+        : []
+    );
+  });
+}
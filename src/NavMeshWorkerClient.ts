@@ -0,0 +1,189 @@
+import { float, integer, VertexArray } from "./CommonTypes";
+import { NavMeshBuildOptions } from "./NavMeshBuildConfig";
+import {
+  NavMeshArea,
+  NavMeshWorkerCodec,
+  NavMeshWorkerPort,
+  NavMeshWorkerRequest,
+} from "./NavMeshWorkerProtocol";
+import { AreaPolygon, Obstacle } from "./Obstacle";
+
+/**
+ * A NavMesh built by a worker.
+ */
+export interface NavMeshWorkerResult {
+  /** The convex polygons of the NavMesh. */
+  polygons: VertexArray[];
+  /** The area of each polygon (see {@link AreaPolygon.areaID}). */
+  areaIDs: integer[];
+}
+
+type PendingBuild = {
+  resolve: (result: NavMeshWorkerResult) => void;
+  reject: (error: Error) => void;
+};
+
+/**
+ * Builds NavMeshes in a worker running {@link startNavMeshWorker}.
+ *
+ * Obstacles, areas and polygons are sent as typed arrays that are
+ * transferred instead of copied.
+ */
+export class NavMeshWorkerClient {
+  private worker: NavMeshWorkerPort;
+  private nextRequestID: integer;
+  private pendingBuilds: Map<integer, PendingBuild>;
+  /** Why the worker stopped or null if it's running. */
+  private stopError: Error | null;
+
+  /**
+   * @param worker a Web Worker or a Node `Worker`.
+   */
+  constructor(worker: NavMeshWorkerPort) {
+    this.worker = worker;
+    this.nextRequestID = 0;
+    this.pendingBuilds = new Map<integer, PendingBuild>();
+    this.stopError = null;
+    NavMeshWorkerCodec.listen(worker, (response) => this.onMessage(response));
+    NavMeshWorkerCodec.listenToFailures(worker, (error, hasStopped) => {
+      if (hasStopped && !this.stopError) {
+        this.stopError = error;
+      }
+      this.rejectPendingBuilds(error);
+    });
+  }
+
+  /**
+   * Stop the worker. The unfinished builds and the next ones are rejected.
+   */
+  terminate(): void {
+    if (!this.stopError) {
+      this.stopError = new Error("The NavMesh worker was terminated.");
+    }
+    this.rejectPendingBuilds(this.stopError);
+    if (this.worker.terminate) {
+      this.worker.terminate();
+    }
+  }
+
+  /**
+   * Build a NavMesh that avoids the obstacles.
+   *
+   * The obstacles are copied before the method returns so they can be
+   * changed right away.
+   *
+   * @param area the area where the NavMesh is built.
+   * @param cellSize the rasterization cell size.
+   * @param obstacles the obstacle polygons or shapes.
+   * @param options the build settings or a padding in cells to apply around
+   * the obstacles (see {@link NavMeshBuildConfig}).
+   * @param isometricRatio the isometric ratio of the scene.
+   * @returns the convex polygons of the NavMesh. The promise is rejected
+   * when a setting is not valid or when the worker fails.
+   */
+  build(
+    area: NavMeshArea,
+    cellSize: float,
+    obstacles: Iterable<Obstacle>,
+    options: integer | NavMeshBuildOptions = 0,
+    isometricRatio: float = 1
+  ): Promise<VertexArray[]> {
+    return this.buildWithAreas(
+      area,
+      cellSize,
+      obstacles,
+      null,
+      options,
+      isometricRatio
+    ).then((result) => result.polygons);
+  }
+
+  /**
+   * Build a NavMesh that avoids the obstacles and where the polygons never
+   * cross area boundaries (see {@link NavMeshGenerator.setAreas}).
+   *
+   * The obstacles and the areas are copied before the method returns so
+   * they can be changed right away.
+   *
+   * @param area the area where the NavMesh is built.
+   * @param cellSize the rasterization cell size.
+   * @param obstacles the obstacle polygons or shapes.
+   * @param areas the walkable zones with an area ID or null.
+   * @param options the build settings or a padding in cells to apply around
+   * the obstacles (see {@link NavMeshBuildConfig}).
+   * @param isometricRatio the isometric ratio of the scene.
+   * @returns the convex polygons of the NavMesh and their area. The
+   * promise is rejected when a setting is not valid or when the worker
+   * fails.
+   */
+  buildWithAreas(
+    area: NavMeshArea,
+    cellSize: float,
+    obstacles: Iterable<Obstacle>,
+    areas: Iterable<AreaPolygon> | null,
+    options: integer | NavMeshBuildOptions = 0,
+    isometricRatio: float = 1
+  ): Promise<NavMeshWorkerResult> {
+    if (this.stopError) {
+      return Promise.reject(this.stopError);
+    }
+    const packedObstacles = NavMeshWorkerCodec.packObstacles(obstacles);
+    const packedAreas = areas ? NavMeshWorkerCodec.packAreas(areas) : null;
+    const transferables = NavMeshWorkerCodec.getObstacleTransferables(
+      packedObstacles
+    );
+    if (packedAreas) {
+      transferables.push(
+        ...NavMeshWorkerCodec.getAreaTransferables(packedAreas)
+      );
+    }
+    const request: NavMeshWorkerRequest = {
+      id: this.nextRequestID++,
+      area: {
+        left: area.left,
+        top: area.top,
+        right: area.right,
+        bottom: area.bottom,
+      },
+      cellSize,
+      isometricRatio,
+      obstacles: packedObstacles,
+      areas: packedAreas,
+      options,
+    };
+    return new Promise<NavMeshWorkerResult>((resolve, reject) => {
+      this.pendingBuilds.set(request.id, { resolve, reject });
+      this.worker.postMessage(request, transferables);
+    });
+  }
+
+  private rejectPendingBuilds(error: Error): void {
+    const pendingBuilds = this.pendingBuilds;
+    // The builds are removed first in case a callback starts a new build.
+    this.pendingBuilds = new Map<integer, PendingBuild>();
+    pendingBuilds.forEach((pendingBuild) => pendingBuild.reject(error));
+  }
+
+  private onMessage(response: unknown): void {
+    if (!NavMeshWorkerCodec.isResponse(response)) {
+      return;
+    }
+    const pendingBuild = this.pendingBuilds.get(response.id);
+    if (!pendingBuild) {
+      return;
+    }
+    this.pendingBuilds.delete(response.id);
+    if (response.polygons && response.areaIDs) {
+      const areaIDs = new Array<integer>(response.areaIDs.length);
+      for (let index = 0; index < areaIDs.length; index++) {
+        areaIDs[index] = response.areaIDs[index];
+      }
+      pendingBuild.resolve({
+        polygons: NavMeshWorkerCodec.unpack(response.polygons),
+        areaIDs,
+      });
+    } else {
+      pendingBuild.reject(new Error(response.error || "NavMesh build failed"));
+    }
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * The script to give to a Web Worker or to a Node `Worker`.
+ *
+ * @packageDocumentation
+ * @module NavMeshWorker
+ */
+
+import { startNavMeshWorker } from "./NavMeshWorker";
+import { NavMeshWorkerPort } from "./NavMeshWorkerProtocol";
+
+declare const importScripts: unknown;
+declare const require: unknown;
+
+// Don't listen to the window messages when the script is loaded outside of
+// a worker.
+if (typeof importScripts === "function") {
+  startNavMeshWorker((self as unknown) as NavMeshWorkerPort);
+} else if (typeof require === "function") {
+  // The parent port is null in the Node main thread.
+  const { parentPort } = (require as (
+    module: string
+  ) => { parentPort: NavMeshWorkerPort | null })("worker_threads");
+  if (parentPort) {
+    startNavMeshWorker(parentPort);
+  }
+}
@@ -0,0 +1,627 @@
+import { Point, float, integer, VertexArray } from "./CommonTypes";
+import { FillRule, NavMeshBuildOptions } from "./NavMeshBuildConfig";
+import {
+  AreaPolygon,
+  BitmapObstacle,
+  CircleObstacle,
+  EllipseObstacle,
+  InstanceObstacle,
+  Obstacle,
+  ObstacleShape,
+  Obstacles,
+  PolygonObstacle,
+  PolylineObstacle,
+  TileCollision,
+  TilemapObstacle,
+} from "./Obstacle";
+
+/**
+ * The area where the NavMesh is built.
+ */
+export interface NavMeshArea {
+  left: float;
+  top: float;
+  right: float;
+  bottom: float;
+}
+
+/**
+ * One end of a message channel: a Web Worker, the worker global scope,
+ * a Node `Worker` or the Node `parentPort`.
+ */
+export interface NavMeshWorkerPort {
+  postMessage(
+    message: NavMeshWorkerRequest | NavMeshWorkerResponse,
+    transfer: ArrayBuffer[]
+  ): void;
+  /** Web Worker API */
+  addEventListener?(
+    type: "message",
+    listener: (event: { data: unknown }) => void
+  ): void;
+  addEventListener?(
+    type: "error" | "messageerror",
+    listener: (event: { message?: string }) => void
+  ): void;
+  /** Node `worker_threads` API */
+  on?(type: "message", listener: (message: unknown) => void): void;
+  on?(type: "error" | "messageerror", listener: (error: unknown) => void): void;
+  on?(type: "exit", listener: (exitCode: integer) => void): void;
+  /** Only the client side can stop the worker. */
+  terminate?(): void;
+}
+
+/**
+ * Polygons packed in typed arrays to be transferred between threads.
+ */
+export interface PackedPolygons {
+  /** The x and y of every vertex one after the other. */
+  coordinates: Float64Array;
+  /**
+   * The index in {@link PackedPolygons.coordinates} of each polygon first
+   * vertex followed by the coordinates length.
+   */
+  offsets: Uint32Array;
+}
+
+/**
+ * A polygon with holes where the rings are indexes in
+ * {@link PackedObstacles.rings}.
+ */
+export interface PackedPolygonObstacle {
+  type: "polygon";
+  vertices: integer;
+  holes: integer[];
+  fillRule?: FillRule;
+}
+
+/**
+ * A wall where the line is an index in {@link PackedObstacles.rings}.
+ */
+export type PackedPolylineObstacle = Omit<PolylineObstacle, "vertices"> & {
+  vertices: integer;
+};
+
+/**
+ * A bitmap with its pixels copied in a typed array.
+ */
+export type PackedBitmapObstacle = Omit<BitmapObstacle, "data"> & {
+  data: Int32Array;
+};
+
+/**
+ * A tilemap where the tiles are replaced by the index of their collision.
+ */
+export type PackedTilemapObstacle = Omit<
+  TilemapObstacle,
+  "tiles" | "isSolid"
+> & {
+  tiles: integer[][];
+  /**
+   * The collision of each distinct tile where the polygons are indexes in
+   * {@link PackedObstacles.rings}.
+   */
+  collisions: (boolean | integer[])[];
+};
+
+/**
+ * An instance where the shared polygon is an index in
+ * {@link PackedObstacles.rings}.
+ */
+export type PackedInstanceObstacle = Omit<InstanceObstacle, "shape"> & {
+  shape: integer | PackedPolygonObstacle;
+};
+
+/**
+ * An obstacle shape without any iterable or function so that it can be
+ * sent to another thread.
+ */
+export type PackedObstacleShape =
+  | CircleObstacle
+  | EllipseObstacle
+  | PackedPolylineObstacle
+  | PackedPolygonObstacle
+  | PackedBitmapObstacle
+  | PackedTilemapObstacle
+  | PackedInstanceObstacle;
+
+/**
+ * Obstacles packed to be transferred between threads.
+ */
+export interface PackedObstacles {
+  /** The vertices of every obstacle. */
+  rings: PackedPolygons;
+  /**
+   * An index in {@link PackedObstacles.rings} for each obstacle given by
+   * its vertices or the packed shape.
+   */
+  obstacles: (integer | PackedObstacleShape)[];
+}
+
+/**
+ * Area polygons packed to be transferred between threads.
+ */
+export interface PackedAreas {
+  /** The area ID of each shape. */
+  areaIDs: Uint8Array;
+  shapes: PackedObstacles;
+}
+
+/**
+ * A build request sent to {@link startNavMeshWorker}.
+ */
+export interface NavMeshWorkerRequest {
+  id: integer;
+  area: NavMeshArea;
+  cellSize: float;
+  isometricRatio: float;
+  obstacles: PackedObstacles;
+  /** The areas or null when every cell has the area ID 0. */
+  areas: PackedAreas | null;
+  options: integer | NavMeshBuildOptions;
+}
+
+/**
+ * The answer to a {@link NavMeshWorkerRequest}.
+ */
+export interface NavMeshWorkerResponse {
+  id: integer;
+  /** The NavMesh polygons or null if the build failed. */
+  polygons: PackedPolygons | null;
+  /** The area of each polygon or null if the build failed. */
+  areaIDs: Uint8Array | null;
+  /** The error message when the build failed. */
+  error: string | null;
+}
+
+/**
+ * Converts polygons, obstacles and areas to typed arrays and back.
+ */
+export class NavMeshWorkerCodec {
+  /**
+   * The vertices are read only once so iterables that always return the
+   * same point instance (like the ones used by the rasterizer) are
+   * supported.
+   *
+   * @param polygons
+   * @returns the polygons packed in new typed arrays.
+   */
+  static pack(polygons: Iterable<Iterable<Point>>): PackedPolygons {
+    const rings = new RingPacker();
+    rings.addAll(polygons);
+    return rings.pack();
+  }
+
+  /**
+   * @param packedPolygons
+   * @returns new polygons.
+   */
+  static unpack(packedPolygons: PackedPolygons): VertexArray[] {
+    const { coordinates, offsets } = packedPolygons;
+    const polygons = new Array<VertexArray>(Math.max(offsets.length - 1, 0));
+    polygons.length = 0;
+    for (let index = 0; index + 1 < offsets.length; index++) {
+      const end = offsets[index + 1];
+      const polygon = new Array<Point>((end - offsets[index]) / 2);
+      polygon.length = 0;
+      for (let i = offsets[index]; i < end; i += 2) {
+        polygon.push({ x: coordinates[i], y: coordinates[i + 1] });
+      }
+      polygons.push(polygon);
+    }
+    return polygons;
+  }
+
+  /**
+   * @param packedPolygons
+   * @returns the buffers to transfer instead of copying them.
+   */
+  static getTransferables(packedPolygons: PackedPolygons): ArrayBuffer[] {
+    return [packedPolygons.coordinates.buffer, packedPolygons.offsets.buffer];
+  }
+
+  /**
+   * The tile collisions are asked once by distinct tile so the collision
+   * must only depend on the tile.
+   *
+   * @param obstacles the obstacle polygons or shapes.
+   * @returns the obstacles packed in new arrays.
+   */
+  static packObstacles(obstacles: Iterable<Obstacle>): PackedObstacles {
+    const rings = new RingPacker();
+    const packedObstacles = new Array<integer | PackedObstacleShape>();
+    const obstaclesItr = obstacles[Symbol.iterator]();
+    for (
+      let nextObstacle = obstaclesItr.next();
+      !nextObstacle.done;
+      nextObstacle = obstaclesItr.next()
+    ) {
+      const obstacle = nextObstacle.value;
+      packedObstacles.push(
+        Obstacles.isShape(obstacle)
+          ? NavMeshWorkerCodec.packShape(obstacle, rings)
+          : rings.add(obstacle)
+      );
+    }
+    return { rings: rings.pack(), obstacles: packedObstacles };
+  }
+
+  /**
+   * @param packedObstacles
+   * @returns new obstacles.
+   */
+  static unpackObstacles(packedObstacles: PackedObstacles): Obstacle[] {
+    const rings = NavMeshWorkerCodec.unpack(packedObstacles.rings);
+    return packedObstacles.obstacles.map((obstacle) =>
+      typeof obstacle === "number"
+        ? rings[obstacle]
+        : NavMeshWorkerCodec.unpackShape(obstacle, rings)
+    );
+  }
+
+  /**
+   * @param packedObstacles
+   * @returns the buffers to transfer instead of copying them.
+   */
+  static getObstacleTransferables(
+    packedObstacles: PackedObstacles
+  ): ArrayBuffer[] {
+    const transferables = NavMeshWorkerCodec.getTransferables(
+      packedObstacles.rings
+    );
+    for (const obstacle of packedObstacles.obstacles) {
+      if (typeof obstacle !== "number" && obstacle.type === "bitmap") {
+        transferables.push(obstacle.data.buffer);
+      }
+    }
+    return transferables;
+  }
+
+  /**
+   * @param areas
+   * @returns the areas packed in new arrays.
+   */
+  static packAreas(areas: Iterable<AreaPolygon>): PackedAreas {
+    const areaIDs = new Array<integer>();
+    const shapes = new Array<Obstacle>();
+    const areasItr = areas[Symbol.iterator]();
+    for (
+      let nextArea = areasItr.next();
+      !nextArea.done;
+      nextArea = areasItr.next()
+    ) {
+      areaIDs.push(nextArea.value.areaID);
+      shapes.push(nextArea.value.shape);
+    }
+    return {
+      areaIDs: new Uint8Array(areaIDs),
+      shapes: NavMeshWorkerCodec.packObstacles(shapes),
+    };
+  }
+
+  /**
+   * @param packedAreas
+   * @returns new areas.
+   */
+  static unpackAreas(packedAreas: PackedAreas): AreaPolygon[] {
+    const { areaIDs } = packedAreas;
+    return NavMeshWorkerCodec.unpackObstacles(
+      packedAreas.shapes
+    ).map((shape, index) => ({ areaID: areaIDs[index], shape }));
+  }
+
+  /**
+   * @param packedAreas
+   * @returns the buffers to transfer instead of copying them.
+   */
+  static getAreaTransferables(packedAreas: PackedAreas): ArrayBuffer[] {
+    const transferables = NavMeshWorkerCodec.getObstacleTransferables(
+      packedAreas.shapes
+    );
+    transferables.push(packedAreas.areaIDs.buffer);
+    return transferables;
+  }
+
+  private static packShape(
+    shape: ObstacleShape,
+    rings: RingPacker
+  ): PackedObstacleShape {
+    switch (shape.type) {
+      case "circle":
+        return {
+          type: "circle",
+          center: { x: shape.center.x, y: shape.center.y },
+          radius: shape.radius,
+        };
+      case "ellipse":
+        return {
+          type: "ellipse",
+          center: { x: shape.center.x, y: shape.center.y },
+          radiusX: shape.radiusX,
+          radiusY: shape.radiusY,
+          rotation: shape.rotation,
+        };
+      case "polyline":
+        return {
+          type: "polyline",
+          vertices: rings.add(shape.vertices),
+          thickness: shape.thickness,
+        };
+      case "polygon":
+        return NavMeshWorkerCodec.packPolygon(shape, rings);
+      case "bitmap": {
+        const { data } = shape;
+        const packedData = new Int32Array(data.length);
+        for (let index = 0; index < data.length; index++) {
+          packedData[index] = data[index];
+        }
+        return {
+          type: "bitmap",
+          data: packedData,
+          width: shape.width,
+          height: shape.height,
+          threshold: shape.threshold,
+          scale: shape.scale,
+          offset: shape.offset && { x: shape.offset.x, y: shape.offset.y },
+        };
+      }
+      case "tilemap": {
+        const collisionIndexes = new Map<unknown, integer>();
+        const collisions = new Array<boolean | integer[]>();
+        const tiles = shape.tiles.map((row) =>
+          row.map((tile) => {
+            let collisionIndex = collisionIndexes.get(tile);
+            if (collisionIndex === undefined) {
+              const collision = shape.isSolid(tile);
+              collisionIndex = collisions.length;
+              collisions.push(
+                typeof collision === "boolean"
+                  ? collision
+                  : rings.addAll(collision)
+              );
+              collisionIndexes.set(tile, collisionIndex);
+            }
+            return collisionIndex;
+          })
+        );
+        return {
+          type: "tilemap",
+          tiles,
+          tileWidth: shape.tileWidth,
+          tileHeight: shape.tileHeight,
+          collisions,
+        };
+      }
+      case "instance": {
+        const { position, rotation, scaleX, scaleY } = shape.transform;
+        return {
+          type: "instance",
+          shape: Obstacles.isShape(shape.shape)
+            ? NavMeshWorkerCodec.packPolygon(shape.shape, rings)
+            : rings.add(shape.shape),
+          transform: {
+            position: { x: position.x, y: position.y },
+            rotation,
+            scaleX,
+            scaleY,
+          },
+        };
+      }
+    }
+  }
+
+  private static packPolygon(
+    polygon: PolygonObstacle,
+    rings: RingPacker
+  ): PackedPolygonObstacle {
+    return {
+      type: "polygon",
+      vertices: rings.add(polygon.vertices),
+      holes: polygon.holes ? rings.addAll(polygon.holes) : [],
+      fillRule: polygon.fillRule,
+    };
+  }
+
+  private static unpackShape(
+    shape: PackedObstacleShape,
+    rings: VertexArray[]
+  ): ObstacleShape {
+    switch (shape.type) {
+      case "circle":
+      case "ellipse":
+      case "bitmap":
+        return shape;
+      case "polyline":
+        return {
+          type: "polyline",
+          vertices: rings[shape.vertices],
+          thickness: shape.thickness,
+        };
+      case "polygon":
+        return NavMeshWorkerCodec.unpackPolygon(shape, rings);
+      case "tilemap": {
+        const collisions = shape.collisions.map(
+          (collision): TileCollision =>
+            typeof collision === "boolean"
+              ? collision
+              : collision.map((ring) => rings[ring])
+        );
+        const tilemap: TilemapObstacle<integer> = {
+          type: "tilemap",
+          tiles: shape.tiles,
+          tileWidth: shape.tileWidth,
+          tileHeight: shape.tileHeight,
+          isSolid: (collisionIndex: integer) => collisions[collisionIndex],
+        };
+        return tilemap;
+      }
+      case "instance":
+        return {
+          type: "instance",
+          shape:
+            typeof shape.shape === "number"
+              ? rings[shape.shape]
+              : NavMeshWorkerCodec.unpackPolygon(shape.shape, rings),
+          transform: shape.transform,
+        };
+    }
+  }
+
+  private static unpackPolygon(
+    polygon: PackedPolygonObstacle,
+    rings: VertexArray[]
+  ): PolygonObstacle {
+    return {
+      type: "polygon",
+      vertices: rings[polygon.vertices],
+      holes: polygon.holes.map((ring) => rings[ring]),
+      fillRule: polygon.fillRule,
+    };
+  }
+
+  /**
+   * @param message
+   * @returns true if the message is a build request.
+   */
+  static isRequest(message: unknown): message is NavMeshWorkerRequest {
+    return (
+      NavMeshWorkerCodec.hasID(message) &&
+      (message as NavMeshWorkerRequest).obstacles !== undefined
+    );
+  }
+
+  /**
+   * @param message
+   * @returns true if the message is the answer to a build request.
+   */
+  static isResponse(message: unknown): message is NavMeshWorkerResponse {
+    return (
+      NavMeshWorkerCodec.hasID(message) &&
+      (message as NavMeshWorkerResponse).polygons !== undefined
+    );
+  }
+
+  private static hasID(message: unknown): boolean {
+    return (
+      typeof message === "object" &&
+      message !== null &&
+      typeof (message as { id: unknown }).id === "number"
+    );
+  }
+
+  /**
+   * @param port
+   * @param listener called with the message data. It must check the
+   * message type because the port may receive messages from other senders.
+   */
+  static listen(port: NavMeshWorkerPort, listener: (message: unknown) => void) {
+    if (port.on) {
+      port.on("message", listener);
+    } else if (port.addEventListener) {
+      port.addEventListener("message", (event) => listener(event.data));
+    } else {
+      throw new Error(
+        "Invalid NavMesh worker port: it can't receive any message."
+      );
+    }
+  }
+
+  /**
+   * @param port
+   * @param listener called when the worker throws an error, when a message
+   * can't be deserialized or when the worker exits. The worker has stopped
+   * when it exits.
+   */
+  static listenToFailures(
+    port: NavMeshWorkerPort,
+    listener: (error: Error, hasStopped: boolean) => void
+  ) {
+    const messageError = "The NavMesh worker can't read a message.";
+    if (port.on) {
+      port.on("error", (error) =>
+        listener(
+          error instanceof Error ? error : new Error(String(error)),
+          false
+        )
+      );
+      port.on("messageerror", () => listener(new Error(messageError), false));
+      port.on("exit", (exitCode) =>
+        listener(
+          new Error("The NavMesh worker exited with the code " + exitCode),
+          true
+        )
+      );
+    } else if (port.addEventListener) {
+      port.addEventListener("error", (event) =>
+        listener(
+          new Error(event.message || "The NavMesh worker failed."),
+          false
+        )
+      );
+      port.addEventListener("messageerror", () =>
+        listener(new Error(messageError), false)
+      );
+    }
+  }
+}
+
+/**
+ * Packs rings one after the other in the same arrays.
+ */
+class RingPacker {
+  private coordinates: float[];
+  private offsets: integer[];
+
+  constructor() {
+    this.coordinates = [];
+    this.offsets = [];
+  }
+
+  /**
+   * @param ring
+   * @returns the ring index.
+   */
+  add(ring: Iterable<Point>): integer {
+    const { coordinates } = this;
+    this.offsets.push(coordinates.length);
+    const verticesItr = ring[Symbol.iterator]();
+    for (
+      let nextVertex = verticesItr.next();
+      !nextVertex.done;
+      nextVertex = verticesItr.next()
+    ) {
+      // Copy the coordinates right away: the instance may be reused.
+      coordinates.push(nextVertex.value.x, nextVertex.value.y);
+    }
+    return this.offsets.length - 1;
+  }
+
+  /**
+   * @param rings
+   * @returns the ring indexes.
+   */
+  addAll(rings: Iterable<Iterable<Point>>): integer[] {
+    const indexes = new Array<integer>();
+    const ringsItr = rings[Symbol.iterator]();
+    for (
+      let nextRing = ringsItr.next();
+      !nextRing.done;
+      nextRing = ringsItr.next()
+    ) {
+      indexes.push(this.add(nextRing.value));
+    }
+    return indexes;
+  }
+
+  /**
+   * @returns the rings packed in new typed arrays.
+   */
+  pack(): PackedPolygons {
+    const offsets = this.offsets.slice();
+    offsets.push(this.coordinates.length);
+    return {
+      coordinates: new Float64Array(this.coordinates),
+      offsets: new Uint32Array(offsets),
+    };
+  }
+}
@@ -0,0 +1,195 @@
+import { Point, float, integer } from "./CommonTypes";
+import { FillRule } from "./NavMeshBuildConfig";
+
+/**
+ * A round obstacle like a tree or a pillar.
+ */
+export interface CircleObstacle {
+  type: "circle";
+  /** The center in the scene basis like polygon vertices. */
+  center: Point;
+  /**
+   * The radius on the ground. With an isometric ratio, the circle looks
+   * like an ellipse squashed vertically on the scene.
+   */
+  radius: float;
+}
+
+/**
+ * An elliptic obstacle.
+ */
+export interface EllipseObstacle {
+  type: "ellipse";
+  /** The center in the scene basis like polygon vertices. */
+  center: Point;
+  /** The radius on the ground along the ellipse 1st axis. */
+  radiusX: float;
+  /** The radius on the ground along the ellipse 2nd axis. */
+  radiusY: float;
+  /**
+   * The angle in radians on the ground between the x axis and the ellipse
+   * 1st axis. It's 0 by default.
+   */
+  rotation?: float;
+}
+
+/**
+ * A wall following a line.
+ *
+ * Every cell crossed by the line is an obstacle even if the wall is
+ * thinner than a cell. This way, there is no leak between diagonal cells.
+ */
+export interface PolylineObstacle {
+  type: "polyline";
+  /** The line vertices in the scene basis. The line is not closed. */
+  vertices: Iterable<Point>;
+  /** The wall thickness on the ground. It's 0 by default. */
+  thickness?: float;
+}
+
+/**
+ * A polygon with walkable holes like a building with a courtyard.
+ *
+ * The walkable area in a hole can't be reached from outside the obstacle.
+ * It has its own NavMesh polygons.
+ */
+export interface PolygonObstacle {
+  type: "polygon";
+  /** The outer ring vertices in the scene basis. */
+  vertices: Iterable<Point>;
+  /**
+   * The inner ring vertices in the scene basis. With the `nonZero` fill
+   * rule, they must be wound in the opposite direction of the outer ring.
+   */
+  holes?: Iterable<Iterable<Point>>;
+  /**
+   * Tells which parts of the rings are inside like the SVG `fill-rule`.
+   * It's the {@link NavMeshBuildConfig.fillRule} setting by default.
+   */
+  fillRule?: FillRule;
+}
+
+/**
+ * An occupancy mask like a painted level or the alpha of a decoded image.
+ *
+ * It's rasterized directly without any polygon. Pixels are squares on the
+ * scene, so with an isometric ratio they are squashed on the ground.
+ */
+export interface BitmapObstacle {
+  type: "bitmap";
+  /** One value by pixel, row by row. */
+  data: ArrayLike<integer>;
+  /** The pixel count by row. */
+  width: integer;
+  /** The row count. */
+  height: integer;
+  /**
+   * The value from which a pixel is solid. It's 1 by default so any value
+   * other than 0 is solid.
+   */
+  threshold?: integer;
+  /** The pixel size in the scene. It's 1 by default. */
+  scale?: float;
+  /** The top-left corner of the mask in the scene. It's (0, 0) by default. */
+  offset?: Point;
+}
+
+/**
+ * The collision of a tile: true when the whole tile is solid, false when
+ * it's empty or polygons with vertices relative to the tile top-left corner.
+ */
+export type TileCollision = boolean | Iterable<Point>[];
+
+/**
+ * The solid tiles of a tile-based level.
+ *
+ * Whole tiles are rasterized directly without any polygon.
+ */
+export interface TilemapObstacle<Tile = unknown> {
+  type: "tilemap";
+  /** The tiles row by row. The top-left corner is at the scene origin. */
+  tiles: Tile[][];
+  /** The tile width in the scene. */
+  tileWidth: float;
+  /** The tile height in the scene. */
+  tileHeight: float;
+  /**
+   * Gives the collision of a tile. It's a method so that a callback for
+   * a given tile type can be used in the {@link Obstacle} union.
+   */
+  isSolid(tile: Tile): TileCollision;
+}
+
+/**
+ * A 2D affine transform in the scene basis. The shape is scaled, then
+ * rotated and then moved.
+ */
+export interface ObstacleTransform {
+  /** Where the shape origin is moved in the scene. */
+  position: Point;
+  /** The angle in radians. It's 0 by default. */
+  rotation?: float;
+  /** It's 1 by default. */
+  scaleX?: float;
+  /** It's 1 by default. */
+  scaleY?: float;
+}
+
+/**
+ * An instance of a polygon shared by several obstacles like a prefab
+ * hitbox.
+ *
+ * The transform is applied while the vertices are read, so the polygon is
+ * never copied.
+ */
+export interface InstanceObstacle {
+  type: "instance";
+  /** The polygon vertices or a polygon with holes in the local basis. */
+  shape: Iterable<Point> | PolygonObstacle;
+  transform: ObstacleTransform;
+}
+
+/**
+ * Obstacles described by their geometry instead of vertices.
+ */
+export type ObstacleShape =
+  | CircleObstacle
+  | EllipseObstacle
+  | PolylineObstacle
+  | PolygonObstacle
+  | BitmapObstacle
+  | TilemapObstacle
+  | InstanceObstacle;
+
+/**
+ * An obstacle polygon given by its vertices or an obstacle shape.
+ */
+export type Obstacle = Iterable<Point> | ObstacleShape;
+
+/**
+ * A zone that stays walkable but has its own movement cost like a road, mud
+ * or shallow water.
+ *
+ * Regions never cross area boundaries so every NavMesh polygon is in only
+ * one area (see {@link NavMeshData.areaIDs}).
+ */
+export interface AreaPolygon {
+  /**
+   * An integer between 0 and 255 chosen by the application for its terrain
+   * types. The cells outside of every area polygon have the area ID 0 and
+   * the last polygon wins where polygons overlap.
+   */
+  areaID: integer;
+  /** The area boundary polygon or shape in the scene basis. */
+  shape: Obstacle;
+}
+
+export class Obstacles {
+  /**
+   * @param obstacle
+   * @returns true if the obstacle is not given by its vertices.
+   */
+  static isShape(obstacle: Obstacle): obstacle is ObstacleShape {
+    return typeof (obstacle as ObstacleShape).type === "string";
+  }
+}
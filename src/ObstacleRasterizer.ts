@@ -1,5 +1,21 @@
+import { ChunkedRasterizationGrid } from "./ChunkedRasterizationGrid";
 import { Point, float, integer, VertexArray } from "./CommonTypes";
-import { RasterizationGrid } from "./RasterizationGrid";
+import { Geometry } from "./Geometry";
+import {
+  FillRule,
+  NavMeshBuildConfigResolver,
+  RasterizationConfig,
+} from "./NavMeshBuildConfig";
+import {
+  AreaPolygon,
+  BitmapObstacle,
+  Obstacle,
+  ObstacleTransform,
+  Obstacles,
+  TileCollision,
+  TilemapObstacle,
+} from "./Obstacle";
+import { GridBasis, RasterizationGrid } from "./RasterizationGrid";
 
 /**
  * It rasterizes obstacles on a grid.
@@ -7,38 +23,983 @@ import { RasterizationGrid } from "./RasterizationGrid";
  * It flags cells as obstacle to be used by {@link RegionGenerator}.
  */
 export class ObstacleRasterizer {
+  /**
+   * The samples by cell side used to evaluate the coverage of a cell with
+   * the permissive mode.
+   */
+  static readonly coverageSampling = 4;
+  private static readonly centerBit = 1;
+  private static readonly touchedBit = 2;
+
   workingNodes: integer[];
-  gridBasisIterable: GridBasisIterable;
+  workingNodeDirections: integer[];
+  workingRings: Iterable<Point>[];
+  gridBasisIterables: GridBasisIterable[];
+  /**
+   * The coverage bits of every cell by cell index. The sub-cells of the
+   * permissive mode fit in 16 bits.
+   */
+  workingCoverages: Uint16Array;
+  /** The indexes of the cells with coverage bits. */
+  workingCoveredCells: integer[];
+  subCellBasis: SubCellBasis;
 
   constructor() {
     this.workingNodes = new Array<integer>(8);
-    this.gridBasisIterable = new GridBasisIterable();
+    this.workingNodeDirections = new Array<integer>(8);
+    this.workingRings = new Array<Iterable<Point>>(1);
+    this.gridBasisIterables = [new GridBasisIterable()];
+    this.workingCoverages = new Uint16Array(0);
+    this.workingCoveredCells = [];
+    this.subCellBasis = new SubCellBasis();
   }
 
   /**
    * Rasterize obstacles on a grid.
    * @param grid
    * @param obstacles
+   * @param walkableAreas when given, the cells outside of these areas are
+   * obstacles.
+   * @param config the rasterization settings.
+   * @param areas the polygons that give their area ID to the cells they
+   * cover.
+   * @throws Error when an area ID is not valid.
    */
   rasterizeObstacles(
     grid: RasterizationGrid,
-    obstacles: Iterable<Iterable<Point>>
+    obstacles: Iterable<Obstacle>,
+    walkableAreas: Iterable<Obstacle> | null = null,
+    config: RasterizationConfig = NavMeshBuildConfigResolver.defaultConfig,
+    areas: Iterable<AreaPolygon> | null = null
   ) {
+    const steps = this.rasterizeObstaclesSteps(
+      grid,
+      obstacles,
+      walkableAreas,
+      config,
+      areas
+    );
+    while (!steps.next().done) {}
+  }
+
+  /**
+   * Rasterize obstacles on a grid one obstacle at a time.
+   * @param grid
+   * @param obstacles
+   * @param walkableAreas when given, the cells outside of these areas are
+   * obstacles.
+   * @param config the rasterization settings.
+   * @param areas the polygons that give their area ID to the cells they
+   * cover.
+   * @return the progress after each obstacle between 0 and 1.
+   * It stays at 0 when obstacles are not given as an array.
+   * @throws Error when an area ID is not valid.
+   */
+  *rasterizeObstaclesSteps(
+    grid: RasterizationGrid,
+    obstacles: Iterable<Obstacle>,
+    walkableAreas: Iterable<Obstacle> | null = null,
+    config: RasterizationConfig = NavMeshBuildConfigResolver.defaultConfig,
+    areas: Iterable<AreaPolygon> | null = null
+  ): Generator<float, void, void> {
+    const distancesToObstacle = grid.distancesToObstacle;
+    if (walkableAreas) {
+      for (let index = 0; index < distancesToObstacle.length; index++) {
+        distancesToObstacle[index] = 0;
+      }
+      yield 0;
+      const walkableAreasItr = walkableAreas[Symbol.iterator]();
+      for (
+        let next = walkableAreasItr.next();
+        !next.done;
+        next = walkableAreasItr.next()
+      ) {
+        this.rasterizeObstacle(
+          grid,
+          next.value,
+          config,
+          true,
+          (x: integer, y: integer) =>
+            (distancesToObstacle[grid.indexOf(x, y)] =
+              RasterizationGrid.maxDistanceToObstacle)
+        );
+        yield 0;
+      }
+    }
+    if (areas) {
+      const areaIDs = grid.areaIDs;
+      const areasItr = areas[Symbol.iterator]();
+      for (let next = areasItr.next(); !next.done; next = areasItr.next()) {
+        const areaID = ObstacleRasterizer.checkAreaID(next.value.areaID);
+        this.rasterizeObstacle(
+          grid,
+          next.value.shape,
+          config,
+          false,
+          (x: integer, y: integer) => (areaIDs[grid.indexOf(x, y)] = areaID)
+        );
+        yield 0;
+      }
+    }
+
+    const fill = (x: integer, y: integer) =>
+      (distancesToObstacle[grid.indexOf(x, y)] = 0);
+    const obstacleCount = Array.isArray(obstacles) ? obstacles.length : 0;
+    let obstacleIndex = 0;
     const obstaclesItr = obstacles[Symbol.iterator]();
     for (
       let next = obstaclesItr.next();
       !next.done;
       next = obstaclesItr.next()
     ) {
-      const obstacle = next.value;
-      this.gridBasisIterable.set(grid, obstacle);
-      const vertices = this.gridBasisIterable;
-
-      let minX = Number.MAX_VALUE;
-      let maxX = -Number.MAX_VALUE;
-      let minY = Number.MAX_VALUE;
-      let maxY = -Number.MAX_VALUE;
-      const verticesItr = vertices[Symbol.iterator]();
+      this.rasterizeObstacle(grid, next.value, config, false, fill);
+      obstacleIndex++;
+      yield obstacleCount > 0 ? obstacleIndex / obstacleCount : 0;
+    }
+  }
+
+  /**
+   * @returns the area ID when it can be stored in a cell.
+   * @throws Error when the area ID is not valid.
+   */
+  private static checkAreaID(areaID: integer): integer {
+    if (
+      typeof areaID !== "number" ||
+      Math.floor(areaID) !== areaID ||
+      areaID < 0 ||
+      areaID > 255
+    ) {
+      throw new Error(
+        "Invalid area polygon: areaID must be an integer between 0 and 255 but is " +
+          areaID +
+          "."
+      );
+    }
+    return areaID;
+  }
+
+  /**
+   * Rasterize the solid tiles of a tilemap.
+   *
+   * It's a lot faster than giving a square for each tile.
+   *
+   * @param grid
+   * @param tiles the tiles row by row. The top-left corner is at the scene
+   * origin.
+   * @param tileWidth the tile width in the scene.
+   * @param tileHeight the tile height in the scene.
+   * @param isSolid gives true when the whole tile is solid, false when it's
+   * empty or polygons with vertices relative to the tile top-left corner.
+   * @param config the rasterization settings.
+   */
+  rasterizeTilemap<Tile>(
+    grid: RasterizationGrid,
+    tiles: Tile[][],
+    tileWidth: float,
+    tileHeight: float,
+    isSolid: (tile: Tile) => TileCollision,
+    config: RasterizationConfig = NavMeshBuildConfigResolver.defaultConfig
+  ) {
+    this.fillTilemap(
+      grid,
+      { type: "tilemap", tiles, tileWidth, tileHeight, isSolid },
+      config,
+      false,
+      (x: integer, y: integer) =>
+        (grid.distancesToObstacle[grid.indexOf(x, y)] = 0)
+    );
+  }
+
+  /**
+   * Rasterize obstacles on the chunks near them one chunk at a time.
+   *
+   * Without walkable areas, the other chunks are empty. With walkable
+   * areas, every chunk they touch is materialized and the other ones are
+   * solid. The chunks touched by an area polygon are materialized too
+   * because empty chunks are in the default area.
+   *
+   * @param grid
+   * @param obstacles
+   * @param walkableAreas when given, the cells outside of these areas are
+   * obstacles.
+   * @param config the rasterization settings.
+   * @param marginCellCount the margin of the chunk grids. It must be at
+   * most the chunk size.
+   * @param areas the polygons that give their area ID to the cells they
+   * cover.
+   * @return the progress after each chunk between 0 and 1.
+   * @throws Error when an area ID is not valid.
+   */
+  *rasterizeChunksSteps(
+    grid: ChunkedRasterizationGrid,
+    obstacles: Iterable<Obstacle>,
+    walkableAreas: Iterable<Obstacle> | null,
+    config: RasterizationConfig,
+    marginCellCount: integer,
+    areas: Iterable<AreaPolygon> | null = null
+  ): Generator<float, void, void> {
+    // Chunks are found on a grid where every cell is a chunk. Conservative
+    // rasterization never misses a chunk with an obstacle cell.
+    const touchConfig: RasterizationConfig = {
+      ...config,
+      rasterizationMode: "conservative",
+    };
+    const chunkObstacles = new Map<integer, Obstacle[]>();
+    const touchedChunks = new Set<integer>();
+    const obstaclesItr = obstacles[Symbol.iterator]();
+    for (
+      let next = obstaclesItr.next();
+      !next.done;
+      next = obstaclesItr.next()
+    ) {
+      this.addChunkObstacle(
+        grid,
+        next.value,
+        next.value,
+        touchConfig,
+        chunkObstacles,
+        touchedChunks
+      );
+      yield 0;
+    }
+    let chunkWalkableAreas: Map<integer, Obstacle[]> | null = null;
+    if (walkableAreas) {
+      // Chunks outside of the walkable areas are solid whatever the
+      // obstacles are.
+      touchedChunks.clear();
+      chunkWalkableAreas = new Map<integer, Obstacle[]>();
+      const walkableAreasItr = walkableAreas[Symbol.iterator]();
+      for (
+        let next = walkableAreasItr.next();
+        !next.done;
+        next = walkableAreasItr.next()
+      ) {
+        this.addChunkObstacle(
+          grid,
+          next.value,
+          next.value,
+          touchConfig,
+          chunkWalkableAreas,
+          touchedChunks
+        );
+        yield 0;
+      }
+    }
+    let chunkAreas: Map<integer, AreaPolygon[]> | null = null;
+    if (areas) {
+      chunkAreas = new Map<integer, AreaPolygon[]>();
+      // Chunks outside of the walkable areas stay solid.
+      const areaTouchedChunks = walkableAreas
+        ? new Set<integer>()
+        : touchedChunks;
+      const areasItr = areas[Symbol.iterator]();
+      for (let next = areasItr.next(); !next.done; next = areasItr.next()) {
+        this.addChunkObstacle(
+          grid,
+          next.value.shape,
+          next.value,
+          touchConfig,
+          chunkAreas,
+          areaTouchedChunks
+        );
+        yield 0;
+      }
+    }
+    grid.clear(
+      marginCellCount,
+      walkableAreas
+        ? ChunkedRasterizationGrid.SOLID_CHUNK
+        : ChunkedRasterizationGrid.EMPTY_CHUNK
+    );
+    const chunkIndexes = new Array<integer>();
+    touchedChunks.forEach((chunkIndex) => chunkIndexes.push(chunkIndex));
+    chunkIndexes.sort((a, b) => a - b);
+
+    // Chunks that are reached by the padding of an obstacle in a neighbor
+    // chunk are added at the end.
+    const queuedChunks = touchedChunks;
+    const reachedChunks = new Array<integer>();
+    for (let index = 0; index < chunkIndexes.length; index++) {
+      const chunkIndex = chunkIndexes[index];
+      const steps = this.rasterizeObstaclesSteps(
+        grid.materializeChunk(chunkIndex),
+        chunkObstacles.get(chunkIndex) || [],
+        chunkWalkableAreas ? chunkWalkableAreas.get(chunkIndex) || [] : null,
+        config,
+        chunkAreas ? chunkAreas.get(chunkIndex) || null : null
+      );
+      while (!steps.next().done) {}
+      grid.closeCellsOutsideArea(chunkIndex);
+      if (!walkableAreas) {
+        reachedChunks.length = 0;
+        grid.pushChunksInObstacleMargin(chunkIndex, reachedChunks);
+        for (const reachedChunk of reachedChunks) {
+          if (!queuedChunks.has(reachedChunk)) {
+            queuedChunks.add(reachedChunk);
+            chunkIndexes.push(reachedChunk);
+          }
+        }
+      }
+      yield (index + 1) / chunkIndexes.length;
+    }
+  }
+
+  /**
+   * Add an obstacle to the chunks it touches and to their neighbors
+   * because it can be in their margin.
+   *
+   * @param grid
+   * @param obstacle the shape to rasterize.
+   * @param item what to add to the chunks: the obstacle itself or the area
+   * polygon it comes from.
+   * @param touchConfig the rasterization settings with the conservative
+   * mode.
+   * @param chunkObstacles the items by chunk index.
+   * @param outTouchedChunks receives the chunks the obstacle touches.
+   */
+  private addChunkObstacle<Item>(
+    grid: ChunkedRasterizationGrid,
+    obstacle: Obstacle,
+    item: Item,
+    touchConfig: RasterizationConfig,
+    chunkObstacles: Map<integer, Item[]>,
+    outTouchedChunks: Set<integer>
+  ): void {
+    const chunkCountX = grid.chunkCountX();
+    const chunkCountY = grid.chunkCountY();
+    this.rasterizeObstacle(
+      grid.chunkGrid,
+      obstacle,
+      touchConfig,
+      false,
+      (x: integer, y: integer) => {
+        // The chunk grid has a border ring.
+        const touchedChunkX = x - 1;
+        const touchedChunkY = y - 1;
+        if (
+          0 <= touchedChunkX &&
+          touchedChunkX < chunkCountX &&
+          0 <= touchedChunkY &&
+          touchedChunkY < chunkCountY
+        ) {
+          outTouchedChunks.add(touchedChunkY * chunkCountX + touchedChunkX);
+        }
+        const minX = Math.max(touchedChunkX - 1, 0);
+        const maxX = Math.min(touchedChunkX + 1, chunkCountX - 1);
+        const minY = Math.max(touchedChunkY - 1, 0);
+        const maxY = Math.min(touchedChunkY + 1, chunkCountY - 1);
+        for (let chunkY = minY; chunkY <= maxY; chunkY++) {
+          for (let chunkX = minX; chunkX <= maxX; chunkX++) {
+            const chunkIndex = chunkY * chunkCountX + chunkX;
+            let obstacles = chunkObstacles.get(chunkIndex);
+            if (!obstacles) {
+              obstacles = [];
+              chunkObstacles.set(chunkIndex, obstacles);
+            }
+            // The cells an obstacle touches are given one after the other.
+            if (obstacles[obstacles.length - 1] !== item) {
+              obstacles.push(item);
+            }
+          }
+        }
+      }
+    );
+  }
+
+  /**
+   * @param grid
+   * @param obstacle
+   * @param config the rasterization settings.
+   * @param isWalkableArea true when the cells outside of the obstacle are
+   * the ones to block.
+   * @param fill the function called on every cell covered by the obstacle.
+   */
+  private rasterizeObstacle(
+    grid: RasterizationGrid,
+    obstacle: Obstacle,
+    config: RasterizationConfig,
+    isWalkableArea: boolean,
+    fill: (x: integer, y: integer) => void
+  ) {
+    if (Obstacles.isShape(obstacle) && obstacle.type === "tilemap") {
+      // Tiles give their coverage directly.
+      this.fillTilemap(grid, obstacle, config, isWalkableArea, fill);
+      return;
+    }
+    const rasterizationMode = config.rasterizationMode;
+    if (rasterizationMode === "center") {
+      this.rasterizeShape(grid, obstacle, config.fillRule, fill);
+      return;
+    }
+
+    const dimX = grid.dimX();
+    const coverages = this.clearCoverages(grid);
+    const coveredCells = this.workingCoveredCells;
+    const addCoverage = (x: integer, y: integer, bits: integer) => {
+      const index = y * dimX + x;
+      if (coverages[index] === 0) {
+        coveredCells.push(index);
+      }
+      coverages[index] |= bits;
+    };
+
+    const sampling = ObstacleRasterizer.coverageSampling;
+    if (rasterizationMode === "permissive") {
+      this.addSubCellCoverages(grid, obstacle, config.fillRule, addCoverage);
+    } else {
+      // Cells that are not touched by the outline are either fully inside
+      // or fully outside. The center tells which one.
+      this.rasterizeShape(grid, obstacle, config.fillRule, (x, y) =>
+        addCoverage(x, y, ObstacleRasterizer.centerBit)
+      );
+      this.touchOutline(grid, obstacle, (x, y) =>
+        addCoverage(x, y, ObstacleRasterizer.touchedBit)
+      );
+    }
+
+    const sampleCount = sampling * sampling;
+    for (const index of coveredCells) {
+      const bits = coverages[index];
+      coverages[index] = 0;
+      let isFilled: boolean;
+      if (rasterizationMode === "conservative") {
+        // A walkable area must contain the whole cell.
+        isFilled = isWalkableArea
+          ? bits === ObstacleRasterizer.centerBit
+          : bits !== 0;
+      } else {
+        isFilled = ObstacleRasterizer.isCoverageEnough(
+          ObstacleRasterizer.countBits(bits) / sampleCount,
+          config,
+          isWalkableArea
+        );
+      }
+      if (isFilled) {
+        fill(index % dimX, Math.floor(index / dimX));
+      }
+    }
+  }
+
+  /**
+   * @param grid
+   * @returns the coverages of every cell of the grid at 0. They must be
+   * set back to 0 once used.
+   */
+  private clearCoverages(grid: RasterizationGrid): Uint16Array {
+    const cellCount = grid.dimX() * grid.dimY();
+    if (this.workingCoverages.length < cellCount) {
+      // Coverages are cleared after each obstacle, so they are only
+      // allocated again when the grid grows.
+      this.workingCoverages = new Uint16Array(cellCount);
+    }
+    this.workingCoveredCells.length = 0;
+    return this.workingCoverages;
+  }
+
+  /**
+   * Rasterize a shape on sub-cells where each sub-cell has its bit.
+   *
+   * @param grid
+   * @param obstacle
+   * @param fillRule
+   * @param addCoverage the function called with the bits of every cell
+   * covered by the obstacle.
+   */
+  private addSubCellCoverages(
+    grid: RasterizationGrid,
+    obstacle: Obstacle,
+    fillRule: FillRule,
+    addCoverage: (x: integer, y: integer, bits: integer) => void
+  ) {
+    const sampling = ObstacleRasterizer.coverageSampling;
+    this.rasterizeShape(
+      this.subCellBasis.set(grid, sampling),
+      obstacle,
+      fillRule,
+      (x: integer, y: integer) =>
+        addCoverage(
+          Math.floor(x / sampling),
+          Math.floor(y / sampling),
+          1 << ((y % sampling) * sampling + (x % sampling))
+        )
+    );
+  }
+
+  /**
+   * @param coverage the part of the cell covered by the obstacle.
+   * @param config the rasterization settings.
+   * @param isWalkableArea true when the cells outside of the obstacle are
+   * the ones to block.
+   * @returns true when the cell must be filled with the permissive mode.
+   */
+  private static isCoverageEnough(
+    coverage: float,
+    config: RasterizationConfig,
+    isWalkableArea: boolean
+  ): boolean {
+    // What is outside of a walkable area is an obstacle.
+    return isWalkableArea
+      ? 1 - coverage < config.minCoverage
+      : coverage >= config.minCoverage;
+  }
+
+  /**
+   * Fill the cells covered by whole solid tiles according to the
+   * rasterization mode and rasterize the tile polygons.
+   *
+   * With the permissive mode, the coverage of the tile polygons is summed
+   * with the one of the solid tiles. With the conservative mode, the tile
+   * polygons are rasterized one by one so a cell of a walkable area that is
+   * only covered by several tiles together is blocked.
+   *
+   * @param grid
+   * @param tilemap
+   * @param config the rasterization settings.
+   * @param isWalkableArea true when the cells outside of the tiles are the
+   * ones to block.
+   * @param fill the function called on every cell to fill.
+   */
+  private fillTilemap(
+    grid: RasterizationGrid,
+    tilemap: TilemapObstacle,
+    config: RasterizationConfig,
+    isWalkableArea: boolean,
+    fill: (x: integer, y: integer) => void
+  ) {
+    const { tiles, tileWidth, tileHeight } = tilemap;
+    const rowCount = tiles.length;
+    let columnCount = 0;
+    for (const row of tiles) {
+      columnCount = Math.max(columnCount, row.length);
+    }
+    const isPermissive = config.rasterizationMode === "permissive";
+    const dimX = grid.dimX();
+    const coverages = this.clearCoverages(grid);
+    const coveredCells = this.workingCoveredCells;
+    const addCoverage = (x: integer, y: integer, bits: integer) => {
+      const index = y * dimX + x;
+      if (coverages[index] === 0) {
+        coveredCells.push(index);
+      }
+      coverages[index] |= bits;
+    };
+    // The collision is only asked once by tile.
+    const solidTiles = new Uint8Array(rowCount * columnCount);
+    const tileMin = { x: 0, y: 0 };
+    const tileMax = { x: 0, y: 0 };
+    for (let tileY = 0; tileY < rowCount; tileY++) {
+      const row = tiles[tileY];
+      for (let tileX = 0; tileX < row.length; tileX++) {
+        const collision = tilemap.isSolid(row[tileX]);
+        if (collision === true) {
+          solidTiles[tileY * columnCount + tileX] = 1;
+          if (config.rasterizationMode === "center") {
+            // Conserve tiles smaller than a cell.
+            grid.convertToGridBasis(
+              { x: tileX * tileWidth, y: tileY * tileHeight },
+              tileMin
+            );
+            grid.convertToGridBasis(
+              { x: (tileX + 1) * tileWidth, y: (tileY + 1) * tileHeight },
+              tileMax
+            );
+            if (
+              Math.ceil(tileMin.x - 0.5) >= Math.ceil(tileMax.x - 0.5) ||
+              Math.ceil(tileMin.y - 0.5) >= Math.ceil(tileMax.y - 0.5)
+            ) {
+              this.fillCell(
+                grid,
+                Math.floor((tileMin.x + tileMax.x) / 2),
+                Math.floor((tileMin.y + tileMax.y) / 2),
+                fill
+              );
+            }
+          }
+        } else if (collision !== false) {
+          for (const polygon of collision) {
+            const sceneVertices = new Array<Point>();
+            const verticesItr = polygon[Symbol.iterator]();
+            for (
+              let next = verticesItr.next();
+              !next.done;
+              next = verticesItr.next()
+            ) {
+              sceneVertices.push({
+                x: tileX * tileWidth + next.value.x,
+                y: tileY * tileHeight + next.value.y,
+              });
+            }
+            if (isPermissive) {
+              this.addSubCellCoverages(
+                grid,
+                sceneVertices,
+                config.fillRule,
+                addCoverage
+              );
+            } else {
+              this.rasterizeObstacle(
+                grid,
+                sceneVertices,
+                config,
+                isWalkableArea,
+                fill
+              );
+            }
+          }
+        }
+      }
+    }
+
+    const minPoint = grid.convertToGridBasis({ x: 0, y: 0 }, { x: 0, y: 0 });
+    const maxPoint = grid.convertToGridBasis(
+      { x: columnCount * tileWidth, y: rowCount * tileHeight },
+      { x: 0, y: 0 }
+    );
+    const minX = Math.max(Math.floor(minPoint.x), 0);
+    const maxX = Math.min(Math.ceil(maxPoint.x), grid.dimX());
+    const minY = Math.max(Math.floor(minPoint.y), 0);
+    const maxY = Math.min(Math.ceil(maxPoint.y), grid.dimY());
+    const gridPoint = { x: 0, y: 0 };
+    const cellCenter = { x: 0, y: 0 };
+    const cellMin = { x: 0, y: 0 };
+    const cellMax = { x: 0, y: 0 };
+    const sampleCount =
+      ObstacleRasterizer.coverageSampling * ObstacleRasterizer.coverageSampling;
+    // Cells beside a tile must not be filled because of rounding errors.
+    const epsilon = 1e-9;
+    for (let y = minY; y < maxY; y++) {
+      for (let x = minX; x < maxX; x++) {
+        let isFilled: boolean;
+        if (config.rasterizationMode === "center") {
+          gridPoint.x = x + 0.5;
+          gridPoint.y = y + 0.5;
+          grid.convertFromGridBasis(gridPoint, cellCenter);
+          const tileX = Math.floor(cellCenter.x / tileWidth);
+          const tileY = Math.floor(cellCenter.y / tileHeight);
+          isFilled =
+            0 <= tileX &&
+            tileX < columnCount &&
+            0 <= tileY &&
+            tileY < rowCount &&
+            solidTiles[tileY * columnCount + tileX] === 1;
+        } else {
+          gridPoint.x = x;
+          gridPoint.y = y;
+          grid.convertFromGridBasis(gridPoint, cellMin);
+          gridPoint.x = x + 1;
+          gridPoint.y = y + 1;
+          grid.convertFromGridBasis(gridPoint, cellMax);
+          // Tiles don't overlap so their covered areas can be summed.
+          let coveredArea = 0;
+          const minTileX = Math.max(Math.floor(cellMin.x / tileWidth), 0);
+          const maxTileX = Math.min(
+            Math.ceil(cellMax.x / tileWidth),
+            columnCount
+          );
+          const minTileY = Math.max(Math.floor(cellMin.y / tileHeight), 0);
+          const maxTileY = Math.min(
+            Math.ceil(cellMax.y / tileHeight),
+            rowCount
+          );
+          for (let tileY = minTileY; tileY < maxTileY; tileY++) {
+            for (let tileX = minTileX; tileX < maxTileX; tileX++) {
+              if (solidTiles[tileY * columnCount + tileX] === 0) {
+                continue;
+              }
+              coveredArea +=
+                Math.max(
+                  Math.min(cellMax.x, (tileX + 1) * tileWidth) -
+                    Math.max(cellMin.x, tileX * tileWidth),
+                  0
+                ) *
+                Math.max(
+                  Math.min(cellMax.y, (tileY + 1) * tileHeight) -
+                    Math.max(cellMin.y, tileY * tileHeight),
+                  0
+                );
+            }
+          }
+          let coverage =
+            coveredArea / ((cellMax.x - cellMin.x) * (cellMax.y - cellMin.y));
+          if (config.rasterizationMode === "conservative") {
+            // A walkable area must contain the whole cell.
+            isFilled = isWalkableArea
+              ? coverage >= 1 - epsilon
+              : coverage > epsilon;
+          } else {
+            const index = y * dimX + x;
+            coverage = Math.min(
+              coverage +
+                ObstacleRasterizer.countBits(coverages[index]) / sampleCount,
+              1
+            );
+            coverages[index] = 0;
+            isFilled = ObstacleRasterizer.isCoverageEnough(
+              coverage,
+              config,
+              isWalkableArea
+            );
+          }
+        }
+        if (isFilled) {
+          fill(x, y);
+        }
+      }
+    }
+    // Tile polygons can go beyond the tilemap.
+    for (const index of coveredCells) {
+      const bits = coverages[index];
+      if (bits === 0) {
+        continue;
+      }
+      coverages[index] = 0;
+      if (
+        ObstacleRasterizer.isCoverageEnough(
+          ObstacleRasterizer.countBits(bits) / sampleCount,
+          config,
+          isWalkableArea
+        )
+      ) {
+        fill(index % dimX, Math.floor(index / dimX));
+      }
+    }
+  }
+
+  private static countBits(bits: integer): integer {
+    let count = 0;
+    for (; bits !== 0; bits >>>= 1) {
+      count += bits & 1;
+    }
+    return count;
+  }
+
+  /**
+   * Fill the cells whose center is in the obstacle.
+   *
+   * @param grid
+   * @param obstacle
+   * @param fillRule
+   * @param fill the function called on every cell covered by the obstacle.
+   */
+  private rasterizeShape(
+    grid: RasterizationBasis,
+    obstacle: Obstacle,
+    fillRule: FillRule,
+    fill: (x: integer, y: integer) => void
+  ) {
+    if (!Obstacles.isShape(obstacle)) {
+      this.rasterizePolygon(grid, obstacle, [], null, fillRule, fill);
+      return;
+    }
+    switch (obstacle.type) {
+      case "circle":
+        this.fillEllipse(
+          grid,
+          obstacle.center,
+          obstacle.radius,
+          obstacle.radius,
+          0,
+          fill
+        );
+        break;
+      case "ellipse":
+        this.fillEllipse(
+          grid,
+          obstacle.center,
+          obstacle.radiusX,
+          obstacle.radiusY,
+          obstacle.rotation || 0,
+          fill
+        );
+        break;
+      case "polyline":
+        this.fillPolyline(
+          grid,
+          obstacle.vertices,
+          obstacle.thickness || 0,
+          false,
+          fill
+        );
+        break;
+      case "polygon":
+        this.rasterizePolygon(
+          grid,
+          obstacle.vertices,
+          obstacle.holes || [],
+          null,
+          obstacle.fillRule || fillRule,
+          fill
+        );
+        break;
+      case "instance": {
+        const shape = obstacle.shape;
+        this.rasterizePolygon(
+          grid,
+          Obstacles.isShape(shape) ? shape.vertices : shape,
+          Obstacles.isShape(shape) ? shape.holes || [] : [],
+          obstacle.transform,
+          (Obstacles.isShape(shape) && shape.fillRule) || fillRule,
+          fill
+        );
+        break;
+      }
+      case "bitmap":
+        this.fillBitmap(grid, obstacle, false, fill);
+        break;
+    }
+  }
+
+  /**
+   * Fill every cell touched by the obstacle outline.
+   *
+   * @param grid
+   * @param obstacle
+   * @param touch the function called on every cell touched by the outline.
+   */
+  private touchOutline(
+    grid: RasterizationGrid,
+    obstacle: Obstacle,
+    touch: (x: integer, y: integer) => void
+  ) {
+    if (!Obstacles.isShape(obstacle)) {
+      this.touchRing(grid, obstacle, null, touch);
+      return;
+    }
+    switch (obstacle.type) {
+      case "circle":
+        this.touchEllipse(
+          grid,
+          obstacle.center,
+          obstacle.radius,
+          obstacle.radius,
+          0,
+          touch
+        );
+        break;
+      case "ellipse":
+        this.touchEllipse(
+          grid,
+          obstacle.center,
+          obstacle.radiusX,
+          obstacle.radiusY,
+          obstacle.rotation || 0,
+          touch
+        );
+        break;
+      case "polyline":
+        this.fillPolyline(
+          grid,
+          obstacle.vertices,
+          obstacle.thickness || 0,
+          true,
+          touch
+        );
+        break;
+      case "polygon": {
+        this.touchRing(grid, obstacle.vertices, null, touch);
+        const holesItr = (obstacle.holes || [])[Symbol.iterator]();
+        for (let next = holesItr.next(); !next.done; next = holesItr.next()) {
+          this.touchRing(grid, next.value, null, touch);
+        }
+        break;
+      }
+      case "instance": {
+        const shape = obstacle.shape;
+        if (!Obstacles.isShape(shape)) {
+          this.touchRing(grid, shape, obstacle.transform, touch);
+          break;
+        }
+        this.touchRing(grid, shape.vertices, obstacle.transform, touch);
+        const holesItr = (shape.holes || [])[Symbol.iterator]();
+        for (let next = holesItr.next(); !next.done; next = holesItr.next()) {
+          this.touchRing(grid, next.value, obstacle.transform, touch);
+        }
+        break;
+      }
+      case "bitmap":
+        this.fillBitmap(grid, obstacle, true, touch);
+        break;
+    }
+  }
+
+  /**
+   * Fill every cell touched by the edges of a closed ring.
+   *
+   * @param grid
+   * @param sceneVertices the ring vertices in the scene basis.
+   * @param transform the transform to apply on the vertices if any.
+   * @param touch the function called on every cell touched by an edge.
+   */
+  private touchRing(
+    grid: RasterizationGrid,
+    sceneVertices: Iterable<Point>,
+    transform: ObstacleTransform | null,
+    touch: (x: integer, y: integer) => void
+  ) {
+    const firstVertex = { x: 0, y: 0 };
+    const previousVertex = { x: 0, y: 0 };
+    const vertex = { x: 0, y: 0 };
+    let isFirstVertex = true;
+    const verticesItr = this.getGridBasisIterable(0)
+      .set(grid, sceneVertices, transform)
+      [Symbol.iterator]();
+    for (let next = verticesItr.next(); !next.done; next = verticesItr.next()) {
+      // The iterator always return the same instance.
+      vertex.x = next.value.x;
+      vertex.y = next.value.y;
+      if (isFirstVertex) {
+        isFirstVertex = false;
+        firstVertex.x = vertex.x;
+        firstVertex.y = vertex.y;
+      } else {
+        this.fillSupercover(grid, previousVertex, vertex, touch);
+      }
+      previousVertex.x = vertex.x;
+      previousVertex.y = vertex.y;
+    }
+    if (!isFirstVertex) {
+      this.fillSupercover(grid, previousVertex, firstVertex, touch);
+    }
+  }
+
+  /**
+   * Fill the cells whose center is in the polygon but not in its holes.
+   *
+   * @param grid
+   * @param sceneVertices the polygon vertices in the scene basis.
+   * @param sceneHoles the hole vertices in the scene basis.
+   * @param transform the transform to apply on the vertices if any.
+   * @param fillRule
+   * @param fill the function called on every cell to fill.
+   */
+  private rasterizePolygon(
+    grid: RasterizationBasis,
+    sceneVertices: Iterable<Point>,
+    sceneHoles: Iterable<Iterable<Point>>,
+    transform: ObstacleTransform | null,
+    fillRule: FillRule,
+    fill: (x: integer, y: integer) => void
+  ) {
+    const rings = this.workingRings;
+    rings.length = 0;
+    rings.push(
+      this.getGridBasisIterable(0).set(grid, sceneVertices, transform)
+    );
+    const holesItr = sceneHoles[Symbol.iterator]();
+    for (let next = holesItr.next(); !next.done; next = holesItr.next()) {
+      rings.push(
+        this.getGridBasisIterable(rings.length).set(grid, next.value, transform)
+      );
+    }
+
+    let minX = Number.MAX_VALUE;
+    let maxX = -Number.MAX_VALUE;
+    let minY = Number.MAX_VALUE;
+    let maxY = -Number.MAX_VALUE;
+    // Rings are not always holes. For instance, SVG paths can have disjoint
+    // subpaths.
+    for (const ring of rings) {
+      const verticesItr = ring[Symbol.iterator]();
       for (
         let next = verticesItr.next();
         !next.done;
@@ -50,27 +1011,571 @@ export class ObstacleRasterizer {
         minY = Math.min(minY, vertex.y);
         maxY = Math.max(maxY, vertex.y);
       }
-      minX = Math.max(Math.floor(minX), 0);
-      maxX = Math.min(Math.ceil(maxX), grid.dimX());
-      minY = Math.max(Math.floor(minY), 0);
-      maxY = Math.min(Math.ceil(maxY), grid.dimY());
-      this.fillPolygon(
-        vertices,
-        minX,
-        maxX,
-        minY,
-        maxY,
-        (x: integer, y: integer) => (grid.get(x, y).distanceToObstacle = 0)
+    }
+    minX = Math.max(Math.floor(minX), 0);
+    maxX = Math.min(Math.ceil(maxX), grid.dimX());
+    minY = Math.max(Math.floor(minY), 0);
+    maxY = Math.min(Math.ceil(maxY), grid.dimY());
+    this.fillPolygon(rings, minX, maxX, minY, maxY, fillRule, fill);
+  }
+
+  /**
+   * Fill the cells whose center is on a solid pixel.
+   *
+   * @param grid
+   * @param bitmap
+   * @param isTouching true to fill every cell with both solid and empty
+   * pixels instead of looking at cell centers.
+   * @param fill the function called on every cell to fill.
+   */
+  private fillBitmap(
+    grid: RasterizationBasis,
+    bitmap: BitmapObstacle,
+    isTouching: boolean,
+    fill: (x: integer, y: integer) => void
+  ) {
+    const scale = bitmap.scale || 1;
+    const offset = bitmap.offset || { x: 0, y: 0 };
+    const minPoint = grid.convertToGridBasis(offset, { x: 0, y: 0 });
+    const maxPoint = grid.convertToGridBasis(
+      {
+        x: offset.x + bitmap.width * scale,
+        y: offset.y + bitmap.height * scale,
+      },
+      { x: 0, y: 0 }
+    );
+    const minX = Math.max(Math.floor(minPoint.x), 0);
+    const maxX = Math.min(Math.ceil(maxPoint.x), grid.dimX());
+    const minY = Math.max(Math.floor(minPoint.y), 0);
+    const maxY = Math.min(Math.ceil(maxPoint.y), grid.dimY());
+    const gridPoint = { x: 0, y: 0 };
+    const scenePoint = { x: 0, y: 0 };
+    for (let pixelY = minY; pixelY < maxY; pixelY++) {
+      for (let pixelX = minX; pixelX < maxX; pixelX++) {
+        if (!isTouching) {
+          gridPoint.x = pixelX + 0.5;
+          gridPoint.y = pixelY + 0.5;
+          grid.convertFromGridBasis(gridPoint, scenePoint);
+          if (
+            ObstacleRasterizer.isSolidPixel(
+              bitmap,
+              Math.floor((scenePoint.x - offset.x) / scale),
+              Math.floor((scenePoint.y - offset.y) / scale)
+            )
+          ) {
+            fill(pixelX, pixelY);
+          }
+          continue;
+        }
+        gridPoint.x = pixelX;
+        gridPoint.y = pixelY;
+        grid.convertFromGridBasis(gridPoint, scenePoint);
+        const minBitmapX = Math.floor((scenePoint.x - offset.x) / scale);
+        const minBitmapY = Math.floor((scenePoint.y - offset.y) / scale);
+        gridPoint.x = pixelX + 1;
+        gridPoint.y = pixelY + 1;
+        grid.convertFromGridBasis(gridPoint, scenePoint);
+        const maxBitmapX = Math.ceil((scenePoint.x - offset.x) / scale);
+        const maxBitmapY = Math.ceil((scenePoint.y - offset.y) / scale);
+        // Pixels outside of the bitmap are empty.
+        let hasSolidPixel = false;
+        let hasEmptyPixel = false;
+        for (let bitmapY = minBitmapY; bitmapY < maxBitmapY; bitmapY++) {
+          for (let bitmapX = minBitmapX; bitmapX < maxBitmapX; bitmapX++) {
+            if (ObstacleRasterizer.isSolidPixel(bitmap, bitmapX, bitmapY)) {
+              hasSolidPixel = true;
+            } else {
+              hasEmptyPixel = true;
+            }
+          }
+        }
+        if (hasSolidPixel && hasEmptyPixel) {
+          fill(pixelX, pixelY);
+        }
+      }
+    }
+  }
+
+  private static isSolidPixel(
+    bitmap: BitmapObstacle,
+    bitmapX: integer,
+    bitmapY: integer
+  ): boolean {
+    if (
+      bitmapX < 0 ||
+      bitmapX >= bitmap.width ||
+      bitmapY < 0 ||
+      bitmapY >= bitmap.height
+    ) {
+      return false;
+    }
+    const threshold = bitmap.threshold !== undefined ? bitmap.threshold : 1;
+    return bitmap.data[bitmapY * bitmap.width + bitmapX] >= threshold;
+  }
+
+  /**
+   * Each ring of a polygon needs its own iterable.
+   */
+  private getGridBasisIterable(index: integer): GridBasisIterable {
+    while (this.gridBasisIterables.length <= index) {
+      this.gridBasisIterables.push(new GridBasisIterable());
+    }
+    return this.gridBasisIterables[index];
+  }
+
+  /**
+   * Fill the cells whose center is in the ellipse.
+   *
+   * Cells are square on the ground, so the ellipse is only scaled to be
+   * converted in the grid basis.
+   *
+   * @param grid
+   * @param sceneCenter the center in the scene basis.
+   * @param radiusX the radius on the ground along the 1st axis.
+   * @param radiusY the radius on the ground along the 2nd axis.
+   * @param rotation the angle in radians on the ground of the 1st axis.
+   * @param fill the function called on every cell to fill.
+   */
+  private fillEllipse(
+    grid: RasterizationBasis,
+    sceneCenter: Point,
+    radiusX: float,
+    radiusY: float,
+    rotation: float,
+    fill: (x: integer, y: integer) => void
+  ) {
+    const center = grid.convertToGridBasis(sceneCenter, { x: 0, y: 0 });
+    const a = Math.abs(radiusX) / grid.cellWidth;
+    const b = Math.abs(radiusY) / grid.cellWidth;
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+
+    let fillAnyPixels = false;
+    if (a > 0 && b > 0) {
+      // The ellipse equation for a cell center at (dx, dy) from the center
+      // is a quadratic in dx for each row:
+      // quadA * dx² + quadB * dx + quadC <= 0
+      const quadA = (cos * cos) / (a * a) + (sin * sin) / (b * b);
+      const quadBFactor = 2 * sin * cos * (1 / (a * a) - 1 / (b * b));
+      const quadCFactor = (sin * sin) / (a * a) + (cos * cos) / (b * b);
+
+      const halfHeight = Math.sqrt(a * a * sin * sin + b * b * cos * cos);
+      const minY = Math.max(Math.floor(center.y - halfHeight), 0);
+      const maxY = Math.min(Math.ceil(center.y + halfHeight), grid.dimY());
+      for (let pixelY = minY; pixelY < maxY; pixelY++) {
+        const dy = pixelY + 0.5 - center.y;
+        const quadB = quadBFactor * dy;
+        const quadC = quadCFactor * dy * dy - 1;
+        const discriminant = quadB * quadB - 4 * quadA * quadC;
+        if (discriminant < 0) {
+          continue;
+        }
+        const sqrtDiscriminant = Math.sqrt(discriminant);
+        const minCenterX = center.x + (-quadB - sqrtDiscriminant) / (2 * quadA);
+        const maxCenterX = center.x + (-quadB + sqrtDiscriminant) / (2 * quadA);
+        // Cells whose center x is in [minCenterX, maxCenterX]
+        const minX = Math.max(Math.ceil(minCenterX - 0.5), 0);
+        const maxX = Math.min(Math.floor(maxCenterX - 0.5), grid.dimX() - 1);
+        for (let pixelX = minX; pixelX <= maxX; pixelX++) {
+          fillAnyPixels = true;
+          fill(pixelX, pixelY);
+        }
+      }
+    }
+
+    // Conserve ellipses smaller than a cell.
+    if (!fillAnyPixels) {
+      this.fillCell(grid, Math.floor(center.x), Math.floor(center.y), fill);
+    }
+  }
+
+  /**
+   * Fill every cell touched by the ellipse outline.
+   *
+   * @param grid
+   * @param sceneCenter the center in the scene basis.
+   * @param radiusX the radius on the ground along the 1st axis.
+   * @param radiusY the radius on the ground along the 2nd axis.
+   * @param rotation the angle in radians on the ground of the 1st axis.
+   * @param touch the function called on every cell touched by the outline.
+   */
+  private touchEllipse(
+    grid: RasterizationGrid,
+    sceneCenter: Point,
+    radiusX: float,
+    radiusY: float,
+    rotation: float,
+    touch: (x: integer, y: integer) => void
+  ) {
+    const center = grid.convertToGridBasis(sceneCenter, { x: 0, y: 0 });
+    const a = Math.abs(radiusX) / grid.cellWidth;
+    const b = Math.abs(radiusY) / grid.cellWidth;
+    if (a === 0 || b === 0) {
+      this.fillCell(grid, Math.floor(center.x), Math.floor(center.y), touch);
+      return;
+    }
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    // See fillEllipse for the quadratic.
+    const quadA = (cos * cos) / (a * a) + (sin * sin) / (b * b);
+    const quadBFactor = 2 * sin * cos * (1 / (a * a) - 1 / (b * b));
+    const quadCFactor = (sin * sin) / (a * a) + (cos * cos) / (b * b);
+    const getChordX = (dy: float, side: integer) => {
+      const quadB = quadBFactor * dy;
+      const quadC = quadCFactor * dy * dy - 1;
+      // The discriminant can be slightly negative at the top and bottom.
+      const discriminant = Math.max(quadB * quadB - 4 * quadA * quadC, 0);
+      return (-quadB + side * Math.sqrt(discriminant)) / (2 * quadA);
+    };
+
+    const halfWidth = Math.sqrt(a * a * cos * cos + b * b * sin * sin);
+    const halfHeight = Math.sqrt(a * a * sin * sin + b * b * cos * cos);
+    // The rightmost point is at this height from the center and the leftmost
+    // one is at the opposite.
+    const rightmostDY = ((a * a - b * b) * sin * cos) / halfWidth;
+    const minY = Math.max(Math.floor(center.y - halfHeight), 0);
+    const maxY = Math.min(Math.ceil(center.y + halfHeight), grid.dimY());
+    for (let pixelY = minY; pixelY < maxY; pixelY++) {
+      // In a row, the left and right arcs go from the row borders to the
+      // leftmost and rightmost points when they are in the row.
+      const minDY = Math.max(pixelY - center.y, -halfHeight);
+      const maxDY = Math.min(pixelY + 1 - center.y, halfHeight);
+      const leftMinDX =
+        minDY <= -rightmostDY && -rightmostDY <= maxDY
+          ? -halfWidth
+          : Math.min(getChordX(minDY, -1), getChordX(maxDY, -1));
+      const leftMaxDX = Math.max(getChordX(minDY, -1), getChordX(maxDY, -1));
+      const rightMinDX = Math.min(getChordX(minDY, 1), getChordX(maxDY, 1));
+      const rightMaxDX =
+        minDY <= rightmostDY && rightmostDY <= maxDY
+          ? halfWidth
+          : Math.max(getChordX(minDY, 1), getChordX(maxDY, 1));
+      this.touchSpan(
+        grid,
+        pixelY,
+        center.x + leftMinDX,
+        center.x + leftMaxDX,
+        touch
+      );
+      this.touchSpan(
+        grid,
+        pixelY,
+        center.x + rightMinDX,
+        center.x + rightMaxDX,
+        touch
       );
     }
   }
 
+  /**
+   * Fill every cell of a row touched by an interval.
+   */
+  private touchSpan(
+    grid: RasterizationGrid,
+    pixelY: integer,
+    minX: float,
+    maxX: float,
+    touch: (x: integer, y: integer) => void
+  ) {
+    const minPixelX = Math.floor(minX);
+    const maxPixelX = Math.max(Math.ceil(maxX) - 1, minPixelX);
+    for (let pixelX = minPixelX; pixelX <= maxPixelX; pixelX++) {
+      this.fillCell(grid, pixelX, pixelY, touch);
+    }
+  }
+
+  /**
+   * Fill the cells crossed by the line and the cells whose center is
+   * nearer than half the thickness.
+   *
+   * @param grid
+   * @param sceneVertices the line vertices in the scene basis.
+   * @param thickness the wall thickness on the ground.
+   * @param isTouching true to fill every cell touched by the wall outline
+   * instead of looking at cell centers.
+   * @param fill the function called on every cell to fill.
+   */
+  private fillPolyline(
+    grid: RasterizationBasis,
+    sceneVertices: Iterable<Point>,
+    thickness: float,
+    isTouching: boolean,
+    fill: (x: integer, y: integer) => void
+  ) {
+    // Cells are square on the ground.
+    const radius = Math.abs(thickness) / 2 / grid.cellWidth;
+    const vertex = { x: 0, y: 0 };
+    const previousVertex = { x: 0, y: 0 };
+    let isFirstVertex = true;
+    const verticesItr = sceneVertices[Symbol.iterator]();
+    for (let next = verticesItr.next(); !next.done; next = verticesItr.next()) {
+      // The scene vertex may be an instance reused by the iterator so it's
+      // copied.
+      grid.convertToGridBasis(next.value, vertex);
+      if (isFirstVertex) {
+        isFirstVertex = false;
+        previousVertex.x = vertex.x;
+        previousVertex.y = vertex.y;
+      }
+      if (isTouching) {
+        this.touchCapsule(grid, previousVertex, vertex, radius, fill);
+      } else {
+        this.fillCapsule(grid, previousVertex, vertex, radius, fill);
+        this.fillSupercover(grid, previousVertex, vertex, fill);
+      }
+      previousVertex.x = vertex.x;
+      previousVertex.y = vertex.y;
+    }
+  }
+
+  /**
+   * Fill the cells whose center is nearer than the radius to the segment.
+   *
+   * @param grid
+   * @param a the segment start in the grid basis.
+   * @param b the segment end in the grid basis.
+   * @param radius the distance in cells.
+   * @param fill the function called on every cell to fill.
+   */
+  private fillCapsule(
+    grid: RasterizationBasis,
+    a: Point,
+    b: Point,
+    radius: float,
+    fill: (x: integer, y: integer) => void
+  ) {
+    if (radius === 0) {
+      return;
+    }
+    const minX = Math.max(Math.floor(Math.min(a.x, b.x) - radius), 0);
+    const maxX = Math.min(Math.ceil(Math.max(a.x, b.x) + radius), grid.dimX());
+    const minY = Math.max(Math.floor(Math.min(a.y, b.y) - radius), 0);
+    const maxY = Math.min(Math.ceil(Math.max(a.y, b.y) + radius), grid.dimY());
+    const radiusSq = radius * radius;
+    for (let pixelY = minY; pixelY < maxY; pixelY++) {
+      for (let pixelX = minX; pixelX < maxX; pixelX++) {
+        if (
+          Geometry.getPointSegmentDistanceSq(
+            pixelX + 0.5,
+            pixelY + 0.5,
+            a.x,
+            a.y,
+            b.x,
+            b.y
+          ) <= radiusSq
+        ) {
+          fill(pixelX, pixelY);
+        }
+      }
+    }
+  }
+
+  /**
+   * Fill every cell touched by the capsule outline.
+   *
+   * @param grid
+   * @param a the segment start in the grid basis.
+   * @param b the segment end in the grid basis.
+   * @param radius the distance in cells.
+   * @param touch the function called on every cell touched by the outline.
+   */
+  private touchCapsule(
+    grid: RasterizationBasis,
+    a: Point,
+    b: Point,
+    radius: float,
+    touch: (x: integer, y: integer) => void
+  ) {
+    const radiusSq = radius * radius;
+    // The capsule is convex so it contains a cell when it contains its
+    // corners.
+    const isCellInside = (pixelX: integer, pixelY: integer) =>
+      radius > 0 &&
+      ObstacleRasterizer.getFarthestCornerDistanceSq(pixelX, pixelY, a, b) <=
+        radiusSq;
+    this.fillSupercover(grid, a, b, (pixelX: integer, pixelY: integer) => {
+      if (!isCellInside(pixelX, pixelY)) {
+        touch(pixelX, pixelY);
+      }
+    });
+    if (radius === 0) {
+      return;
+    }
+    const minX = Math.max(Math.floor(Math.min(a.x, b.x) - radius), 0);
+    const maxX = Math.min(Math.ceil(Math.max(a.x, b.x) + radius), grid.dimX());
+    const minY = Math.max(Math.floor(Math.min(a.y, b.y) - radius), 0);
+    const maxY = Math.min(Math.ceil(Math.max(a.y, b.y) + radius), grid.dimY());
+    for (let pixelY = minY; pixelY < maxY; pixelY++) {
+      for (let pixelX = minX; pixelX < maxX; pixelX++) {
+        // The cells crossed by the segment are already touched.
+        if (
+          ObstacleRasterizer.getCellSegmentDistanceSq(pixelX, pixelY, a, b) <=
+            radiusSq &&
+          !isCellInside(pixelX, pixelY)
+        ) {
+          touch(pixelX, pixelY);
+        }
+      }
+    }
+  }
+
+  /**
+   * @returns the distance between the segment and the farthest cell corner.
+   */
+  private static getFarthestCornerDistanceSq(
+    pixelX: integer,
+    pixelY: integer,
+    a: Point,
+    b: Point
+  ): float {
+    let distanceSq = 0;
+    for (let cornerY = pixelY; cornerY <= pixelY + 1; cornerY++) {
+      for (let cornerX = pixelX; cornerX <= pixelX + 1; cornerX++) {
+        distanceSq = Math.max(
+          distanceSq,
+          Geometry.getPointSegmentDistanceSq(
+            cornerX,
+            cornerY,
+            a.x,
+            a.y,
+            b.x,
+            b.y
+          )
+        );
+      }
+    }
+    return distanceSq;
+  }
+
+  /**
+   * The distance between a cell and a segment that doesn't cross it.
+   *
+   * When they don't intersect, the nearest points are a segment end or a
+   * cell corner.
+   */
+  private static getCellSegmentDistanceSq(
+    pixelX: integer,
+    pixelY: integer,
+    a: Point,
+    b: Point
+  ): float {
+    const getPointCellDistanceSq = (point: Point) => {
+      const dx = Math.max(pixelX - point.x, 0, point.x - pixelX - 1);
+      const dy = Math.max(pixelY - point.y, 0, point.y - pixelY - 1);
+      return dx * dx + dy * dy;
+    };
+    let distanceSq = Math.min(
+      getPointCellDistanceSq(a),
+      getPointCellDistanceSq(b)
+    );
+    for (let cornerY = pixelY; cornerY <= pixelY + 1; cornerY++) {
+      for (let cornerX = pixelX; cornerX <= pixelX + 1; cornerX++) {
+        distanceSq = Math.min(
+          distanceSq,
+          Geometry.getPointSegmentDistanceSq(
+            cornerX,
+            cornerY,
+            a.x,
+            a.y,
+            b.x,
+            b.y
+          )
+        );
+      }
+    }
+    return distanceSq;
+  }
+
+  /**
+   * Fill every cell touched by the segment.
+   *
+   * When the segment goes exactly through a cell corner, the 2 cells
+   * beside the corner are filled to avoid any diagonal leak.
+   *
+   * @param grid
+   * @param a the segment start in the grid basis.
+   * @param b the segment end in the grid basis.
+   * @param fill the function called on every cell to fill.
+   */
+  private fillSupercover(
+    grid: RasterizationBasis,
+    a: Point,
+    b: Point,
+    fill: (x: integer, y: integer) => void
+  ) {
+    // This is a grid traversal from:
+    // A Fast Voxel Traversal Algorithm for Ray Tracing
+    // by John Amanatides and Andrew Woo, 1987
+    const deltaX = b.x - a.x;
+    const deltaY = b.y - a.y;
+    const stepX = Math.sign(deltaX);
+    const stepY = Math.sign(deltaY);
+    // The segment length ratio to cross a cell.
+    const tDeltaX = stepX !== 0 ? 1 / Math.abs(deltaX) : Number.MAX_VALUE;
+    const tDeltaY = stepY !== 0 ? 1 / Math.abs(deltaY) : Number.MAX_VALUE;
+    let x = Math.floor(a.x);
+    let y = Math.floor(a.y);
+    // The segment length ratio to reach the next cell border.
+    let tMaxX =
+      stepX > 0
+        ? (x + 1 - a.x) * tDeltaX
+        : stepX < 0
+        ? (a.x - x) * tDeltaX
+        : Number.MAX_VALUE;
+    let tMaxY =
+      stepY > 0
+        ? (y + 1 - a.y) * tDeltaY
+        : stepY < 0
+        ? (a.y - y) * tDeltaY
+        : Number.MAX_VALUE;
+    const epsilon = 1e-9;
+
+    this.fillCell(grid, x, y, fill);
+    const stepCount =
+      Math.abs(Math.floor(b.x) - x) + Math.abs(Math.floor(b.y) - y);
+    for (let step = 0; step < stepCount; step++) {
+      if (Math.min(tMaxX, tMaxY) > 1) {
+        // The end is exactly on a cell border.
+        break;
+      }
+      if (Math.abs(tMaxX - tMaxY) < epsilon) {
+        // The segment goes through a cell corner.
+        this.fillCell(grid, x + stepX, y, fill);
+        this.fillCell(grid, x, y + stepY, fill);
+        x += stepX;
+        y += stepY;
+        tMaxX += tDeltaX;
+        tMaxY += tDeltaY;
+        step++;
+      } else if (tMaxX < tMaxY) {
+        x += stepX;
+        tMaxX += tDeltaX;
+      } else {
+        y += stepY;
+        tMaxY += tDeltaY;
+      }
+      this.fillCell(grid, x, y, fill);
+    }
+  }
+
+  private fillCell(
+    grid: RasterizationBasis,
+    x: integer,
+    y: integer,
+    fill: (x: integer, y: integer) => void
+  ) {
+    if (0 <= x && x < grid.dimX() && 0 <= y && y < grid.dimY()) {
+      fill(x, y);
+    }
+  }
+
   private fillPolygon(
-    vertices: Iterable<Point>,
+    rings: Iterable<Point>[],
     minX: integer,
     maxX: integer,
     minY: integer,
     maxY: integer,
+    fillRule: FillRule,
     fill: (x: number, y: number) => void
   ) {
     // The following implementation of the scan-line polygon fill algorithm
@@ -83,14 +1588,16 @@ export class ObstacleRasterizer {
     // - it handles float vertices
     //   so it focus on pixels center
     // - it is conservative to thin vertical or horizontal polygons
+    // - it can use the non-zero winding rule
 
     let fillAnyPixels = false;
     this.scanY(
-      vertices,
+      rings,
       minX,
       maxX,
       minY,
       maxY,
+      fillRule,
       (pixelY: integer, minX: float, maxX: float) => {
         for (let pixelX = minX; pixelX < maxX; pixelX++) {
           fillAnyPixels = true;
@@ -104,11 +1611,12 @@ export class ObstacleRasterizer {
     }
 
     this.scanY(
-      vertices,
+      rings,
       minX,
       maxX,
       minY,
       maxY,
+      fillRule,
       (pixelY: integer, minX: float, maxX: float) => {
         // conserve thin (less than one cell large) horizontal polygons
         if (minX === maxX) {
@@ -118,11 +1626,12 @@ export class ObstacleRasterizer {
     );
 
     this.scanX(
-      vertices,
+      rings,
       minX,
       maxX,
       minY,
       maxY,
+      fillRule,
       (pixelX: integer, minY: float, maxY: float) => {
         for (let pixelY = minY; pixelY < maxY; pixelY++) {
           fill(pixelX, pixelY);
@@ -136,164 +1645,245 @@ export class ObstacleRasterizer {
   }
 
   private scanY(
-    vertices: Iterable<Point>,
+    rings: Iterable<Point>[],
     minX: integer,
     maxX: integer,
     minY: integer,
     maxY: integer,
+    fillRule: FillRule,
     checkAndFillY: (pixelY: integer, minX: float, maxX: float) => void
   ) {
     const workingNodes = this.workingNodes;
+    const workingNodeDirections = this.workingNodeDirections;
     //  Loop through the rows of the image.
     for (let pixelY = minY; pixelY < maxY; pixelY++) {
       const pixelCenterY = pixelY + 0.5;
       //  Build a list of nodes.
       workingNodes.length = 0;
-      //let j = vertices.length - 1;
+      workingNodeDirections.length = 0;
 
-      const verticesItr = vertices[Symbol.iterator]();
-      let next = verticesItr.next();
-      let vertex = next.value;
-      // The iterator always return the same instance.
-      // It must be copied to be save for later.
-      const firstVertexX = vertex.x;
-      const firstVertexY = vertex.y;
-      while (!next.done) {
-        const previousVertexX = vertex.x;
-        const previousVertexY = vertex.y;
-        next = verticesItr.next();
+      // The nodes of every ring are used together so holes stay empty.
+      for (const vertices of rings) {
+        const verticesItr = vertices[Symbol.iterator]();
+        let next = verticesItr.next();
         if (next.done) {
-          vertex.x = firstVertexX;
-          vertex.y = firstVertexY;
-        } else {
-          vertex = next.value;
-        }
-        if (
-          (vertex.y <= pixelCenterY && pixelCenterY < previousVertexY) ||
-          (previousVertexY < pixelCenterY && pixelCenterY <= vertex.y)
-        ) {
-          workingNodes.push(
-            Math.round(
-              vertex.x +
-                ((pixelCenterY - vertex.y) / (previousVertexY - vertex.y)) *
-                  (previousVertexX - vertex.x)
-            )
-          );
+          continue;
         }
-      }
-
-      //  Sort the nodes, via a simple “Bubble” sort.
-      {
-        let i = 0;
-        while (i < workingNodes.length - 1) {
-          if (workingNodes[i] > workingNodes[i + 1]) {
-            const swap = workingNodes[i];
-            workingNodes[i] = workingNodes[i + 1];
-            workingNodes[i + 1] = swap;
-            if (i > 0) i--;
+        let vertex = next.value;
+        // The iterator always return the same instance.
+        // It must be copied to be save for later.
+        const firstVertexX = vertex.x;
+        const firstVertexY = vertex.y;
+        while (!next.done) {
+          const previousVertexX = vertex.x;
+          const previousVertexY = vertex.y;
+          next = verticesItr.next();
+          if (next.done) {
+            vertex.x = firstVertexX;
+            vertex.y = firstVertexY;
           } else {
-            i++;
+            vertex = next.value;
+          }
+          const isCrossingUp =
+            vertex.y <= pixelCenterY && pixelCenterY < previousVertexY;
+          if (
+            isCrossingUp ||
+            (previousVertexY < pixelCenterY && pixelCenterY <= vertex.y)
+          ) {
+            workingNodeDirections.push(isCrossingUp ? -1 : 1);
+            workingNodes.push(
+              Math.round(
+                vertex.x +
+                  ((pixelCenterY - vertex.y) / (previousVertexY - vertex.y)) *
+                    (previousVertexX - vertex.x)
+              )
+            );
           }
         }
       }
 
-      //  Fill the pixels between node pairs.
-      for (let i = 0; i < workingNodes.length; i += 2) {
-        if (workingNodes[i] >= maxX) {
-          break;
-        }
-        if (workingNodes[i + 1] <= minX) {
-          continue;
-        }
-        if (workingNodes[i] < minX) {
-          workingNodes[i] = minX;
-        }
-        if (workingNodes[i + 1] > maxX) {
-          workingNodes[i + 1] = maxX;
-        }
-        checkAndFillY(pixelY, workingNodes[i], workingNodes[i + 1]);
-      }
+      this.fillSpans(pixelY, minX, maxX, fillRule, checkAndFillY);
     }
   }
 
   private scanX(
-    vertices: Iterable<Point>,
+    rings: Iterable<Point>[],
     minX: integer,
     maxX: integer,
     minY: integer,
     maxY: integer,
+    fillRule: FillRule,
     checkAndFillX: (pixelX: integer, minY: float, maxY: float) => void
   ) {
     const workingNodes = this.workingNodes;
+    const workingNodeDirections = this.workingNodeDirections;
     //  Loop through the columns of the image.
     for (let pixelX = minX; pixelX < maxX; pixelX++) {
       const pixelCenterX = pixelX + 0.5;
       //  Build a list of nodes.
       workingNodes.length = 0;
+      workingNodeDirections.length = 0;
 
-      const verticesItr = vertices[Symbol.iterator]();
-      let next = verticesItr.next();
-      let vertex = next.value;
-      // The iterator always return the same instance.
-      // It must be copied to be save for later.
-      const firstVertexX = vertex.x;
-      const firstVertexY = vertex.y;
-      while (!next.done) {
-        const previousVertexX = vertex.x;
-        const previousVertexY = vertex.y;
-        next = verticesItr.next();
+      // The nodes of every ring are used together so holes stay empty.
+      for (const vertices of rings) {
+        const verticesItr = vertices[Symbol.iterator]();
+        let next = verticesItr.next();
         if (next.done) {
-          vertex.x = firstVertexX;
-          vertex.y = firstVertexY;
-        } else {
-          vertex = next.value;
-        }
-        if (
-          (vertex.x < pixelCenterX && pixelCenterX < previousVertexX) ||
-          (previousVertexX < pixelCenterX && pixelCenterX < vertex.x)
-        ) {
-          workingNodes.push(
-            Math.round(
-              vertex.y +
-                ((pixelCenterX - vertex.x) / (previousVertexX - vertex.x)) *
-                  (previousVertexY - vertex.y)
-            )
-          );
+          continue;
         }
-      }
-
-      //  Sort the nodes, via a simple “Bubble” sort.
-      {
-        let i = 0;
-        while (i < workingNodes.length - 1) {
-          if (workingNodes[i] > workingNodes[i + 1]) {
-            const swap = workingNodes[i];
-            workingNodes[i] = workingNodes[i + 1];
-            workingNodes[i + 1] = swap;
-            if (i > 0) i--;
+        let vertex = next.value;
+        // The iterator always return the same instance.
+        // It must be copied to be save for later.
+        const firstVertexX = vertex.x;
+        const firstVertexY = vertex.y;
+        while (!next.done) {
+          const previousVertexX = vertex.x;
+          const previousVertexY = vertex.y;
+          next = verticesItr.next();
+          if (next.done) {
+            vertex.x = firstVertexX;
+            vertex.y = firstVertexY;
           } else {
-            i++;
+            vertex = next.value;
+          }
+          const isCrossingLeft =
+            vertex.x < pixelCenterX && pixelCenterX < previousVertexX;
+          if (
+            isCrossingLeft ||
+            (previousVertexX < pixelCenterX && pixelCenterX < vertex.x)
+          ) {
+            workingNodeDirections.push(isCrossingLeft ? -1 : 1);
+            workingNodes.push(
+              Math.round(
+                vertex.y +
+                  ((pixelCenterX - vertex.x) / (previousVertexX - vertex.x)) *
+                    (previousVertexY - vertex.y)
+              )
+            );
           }
         }
       }
 
-      //  Fill the pixels between node pairs.
-      for (let i = 0; i < workingNodes.length; i += 2) {
-        if (workingNodes[i] >= maxY) {
-          break;
-        }
-        if (workingNodes[i + 1] <= minY) {
-          continue;
-        }
-        if (workingNodes[i] < minY) {
-          workingNodes[i] = minY;
-        }
-        if (workingNodes[i + 1] > maxY) {
-          workingNodes[i + 1] = maxY;
+      this.fillSpans(pixelX, minY, maxY, fillRule, checkAndFillX);
+    }
+  }
+
+  /**
+   * Sort the nodes of a scan line and fill the spans inside the polygon.
+   *
+   * @param pixel the scan line.
+   * @param min the first cell that can be filled.
+   * @param max the cell after the last one that can be filled.
+   * @param fillRule
+   * @param checkAndFill called for each span.
+   */
+  private fillSpans(
+    pixel: integer,
+    min: integer,
+    max: integer,
+    fillRule: FillRule,
+    checkAndFill: (pixel: integer, min: float, max: float) => void
+  ) {
+    const workingNodes = this.workingNodes;
+    const workingNodeDirections = this.workingNodeDirections;
+    //  Sort the nodes, via a simple “Bubble” sort.
+    {
+      let i = 0;
+      while (i < workingNodes.length - 1) {
+        if (workingNodes[i] > workingNodes[i + 1]) {
+          const swap = workingNodes[i];
+          workingNodes[i] = workingNodes[i + 1];
+          workingNodes[i + 1] = swap;
+          const directionSwap = workingNodeDirections[i];
+          workingNodeDirections[i] = workingNodeDirections[i + 1];
+          workingNodeDirections[i + 1] = directionSwap;
+          if (i > 0) i--;
+        } else {
+          i++;
         }
-        checkAndFillX(pixelX, workingNodes[i], workingNodes[i + 1]);
       }
     }
+
+    //  Fill the pixels between the nodes where the polygon starts and ends.
+    // With the even-odd rule, these are node pairs.
+    let winding = 0;
+    let spanStart = 0;
+    for (let i = 0; i < workingNodes.length; i++) {
+      const wasInside =
+        fillRule === "nonZero" ? winding !== 0 : (winding & 1) !== 0;
+      winding += fillRule === "nonZero" ? workingNodeDirections[i] : 1;
+      const isInside =
+        fillRule === "nonZero" ? winding !== 0 : (winding & 1) !== 0;
+      if (!wasInside && isInside) {
+        spanStart = workingNodes[i];
+        continue;
+      }
+      if (!wasInside || isInside) {
+        continue;
+      }
+      const spanEnd = workingNodes[i];
+      if (spanStart >= max) {
+        break;
+      }
+      if (spanEnd <= min) {
+        continue;
+      }
+      checkAndFill(pixel, Math.max(spanStart, min), Math.min(spanEnd, max));
+    }
+  }
+}
+
+/**
+ * What the shape rasterization needs from the grid.
+ */
+interface RasterizationBasis extends GridBasis {
+  cellWidth: float;
+}
+
+/**
+ * A grid basis where every cell is split in sub-cells.
+ */
+class SubCellBasis implements RasterizationBasis {
+  grid: RasterizationGrid | null;
+  sampling: integer;
+  cellWidth: float;
+
+  constructor() {
+    this.grid = null;
+    this.sampling = 1;
+    this.cellWidth = 1;
+  }
+
+  /**
+   * @param grid
+   * @param sampling the sub-cells by cell side.
+   */
+  set(grid: RasterizationGrid, sampling: integer): this {
+    this.grid = grid;
+    this.sampling = sampling;
+    this.cellWidth = grid.cellWidth / sampling;
+    return this;
+  }
+
+  dimX(): integer {
+    return this.grid!.dimX() * this.sampling;
+  }
+
+  dimY(): integer {
+    return this.grid!.dimY() * this.sampling;
+  }
+
+  convertToGridBasis(position: Point, gridPosition: Point): Point {
+    this.grid!.convertToGridBasis(position, gridPosition);
+    gridPosition.x *= this.sampling;
+    gridPosition.y *= this.sampling;
+    return gridPosition;
+  }
+
+  convertFromGridBasis(gridPosition: Point, position: Point): Point {
+    position.x = gridPosition.x / this.sampling;
+    position.y = gridPosition.y / this.sampling;
+    return this.grid!.convertFromGridBasis(position, position);
   }
 }
 
@@ -304,10 +1894,18 @@ export class ObstacleRasterizer {
  * that can only do one iteration at a time.
  */
 class GridBasisIterable implements Iterable<Point> {
-  grid: RasterizationGrid | null;
+  grid: RasterizationBasis | null;
   sceneVertices: Iterable<Point>;
   verticesItr: Iterator<Point>;
   result: IteratorResult<Point, any>;
+  hasTransform: boolean;
+  // The transform matrix
+  m00: float;
+  m01: float;
+  m10: float;
+  m11: float;
+  translationX: float;
+  translationY: float;
 
   constructor() {
     this.grid = null;
@@ -317,11 +1915,43 @@ class GridBasisIterable implements Iterable<Point> {
       value: { x: 0, y: 0 },
       done: false,
     };
+    this.hasTransform = false;
+    this.m00 = 1;
+    this.m01 = 0;
+    this.m10 = 0;
+    this.m11 = 1;
+    this.translationX = 0;
+    this.translationY = 0;
   }
 
-  set(grid: RasterizationGrid, sceneVertices: Iterable<Point>) {
+  /**
+   * @param grid
+   * @param sceneVertices the vertices in the scene basis or in the local
+   * basis of the transform.
+   * @param transform the transform to apply on the vertices if any.
+   */
+  set(
+    grid: RasterizationBasis,
+    sceneVertices: Iterable<Point>,
+    transform: ObstacleTransform | null = null
+  ): this {
     this.grid = grid;
     this.sceneVertices = sceneVertices;
+    this.hasTransform = transform !== null;
+    if (transform) {
+      const rotation = transform.rotation || 0;
+      const cos = Math.cos(rotation);
+      const sin = Math.sin(rotation);
+      const scaleX = transform.scaleX !== undefined ? transform.scaleX : 1;
+      const scaleY = transform.scaleY !== undefined ? transform.scaleY : 1;
+      this.m00 = cos * scaleX;
+      this.m01 = -sin * scaleY;
+      this.m10 = sin * scaleX;
+      this.m11 = cos * scaleY;
+      this.translationX = transform.position.x;
+      this.translationY = transform.position.y;
+    }
+    return this;
   }
 
   [Symbol.iterator]() {
@@ -334,7 +1964,17 @@ class GridBasisIterable implements Iterable<Point> {
     if (next.done) {
       return next;
     }
-    this.grid!.convertToGridBasis(next.value, this.result.value);
+    const position = this.result.value;
+    if (this.hasTransform) {
+      const vertex = next.value;
+      position.x =
+        this.m00 * vertex.x + this.m01 * vertex.y + this.translationX;
+      position.y =
+        this.m10 * vertex.x + this.m11 * vertex.y + this.translationY;
+      this.grid!.convertToGridBasis(position, position);
+    } else {
+      this.grid!.convertToGridBasis(next.value, position);
+    }
     return this.result;
   }
 }
@@ -1,7 +1,12 @@
-import { Point, float, integer } from "./CommonTypes";
+import { integer } from "./CommonTypes";
+import { RasterizationGrid } from "./RasterizationGrid";
 
 /**
- * A cell that holds data needed by the 1st steps of the NavMesh generation.
+ * A view on a cell of a {@link RasterizationGrid} that holds data needed by
+ * the 1st steps of the NavMesh generation.
+ *
+ * The data is stored in the grid arrays, so views on the same cell share
+ * it.
  */
 export class RasterizationCell {
   /** A cell that has not been assigned to any region yet */
@@ -14,16 +19,62 @@ export class RasterizationCell {
    * the obstacle cells.
    */
   static OBSTACLE_REGION_ID = 0;
+  /** The area of the cells outside of every {@link AreaPolygon}. */
+  static DEFAULT_AREA_ID = 0;
+
+  readonly grid: RasterizationGrid;
+  readonly x: integer;
+  readonly y: integer;
+  /** The index of the cell in the grid arrays. */
+  readonly index: integer;
+
+  constructor(grid: RasterizationGrid, x: integer, y: integer) {
+    this.grid = grid;
+    this.x = x;
+    this.y = y;
+    this.index = grid.indexOf(x, y);
+  }
 
-  x: integer;
-  y: integer;
   /**
    * 0 means there is an obstacle in the cell.
    * See {@link RegionGenerator}
    */
-  distanceToObstacle: integer = Number.MAX_VALUE;
-  regionID: integer = RasterizationCell.NULL_REGION_ID;
-  distanceToRegionCore: integer = 0;
+  get distanceToObstacle(): integer {
+    return this.grid.distancesToObstacle[this.index];
+  }
+
+  set distanceToObstacle(distanceToObstacle: integer) {
+    this.grid.distancesToObstacle[this.index] = distanceToObstacle;
+  }
+
+  /**
+   * The terrain type of the cell. Regions only contain cells of the same
+   * area. See {@link AreaPolygon}
+   */
+  get areaID(): integer {
+    return this.grid.areaIDs[this.index];
+  }
+
+  set areaID(areaID: integer) {
+    this.grid.areaIDs[this.index] = areaID;
+  }
+
+  get regionID(): integer {
+    return this.grid.regionIDs[this.index];
+  }
+
+  set regionID(regionID: integer) {
+    this.grid.regionIDs[this.index] = regionID;
+  }
+
+  get distanceToRegionCore(): integer {
+    return this.grid.distancesToRegionCore[this.index];
+  }
+
+  set distanceToRegionCore(distanceToRegionCore: integer) {
+    this.grid.distancesToRegionCore[this.index] = distanceToRegionCore;
+  }
+
   /**
    * If a cell is connected to one or more external regions then the
    *  flag will be a 4 bit value where connections are recorded as
@@ -39,16 +90,25 @@ export class RasterizationCell {
    *
    * See {@link ContourBuilder}
    */
-  contourFlags: integer = 0;
+  get contourFlags(): integer {
+    return this.grid.contourFlags[this.index];
+  }
 
-  constructor(x: integer, y: integer) {
-    this.x = x;
-    this.y = y;
-    this.clear();
+  set contourFlags(contourFlags: integer) {
+    this.grid.contourFlags[this.index] = contourFlags;
   }
 
   clear() {
-    this.distanceToObstacle = Number.MAX_VALUE;
+    this.distanceToObstacle = RasterizationGrid.maxDistanceToObstacle;
+    this.areaID = RasterizationCell.DEFAULT_AREA_ID;
+    this.clearRegion();
+  }
+
+  /**
+   * Clear the data set by the region generation and the contour building,
+   * but keep the distance field.
+   */
+  clearRegion() {
     this.regionID = RasterizationCell.NULL_REGION_ID;
     this.distanceToRegionCore = 0;
     this.contourFlags = 0;
@@ -1,14 +1,64 @@
 import { Point, float, integer } from "./CommonTypes";
 import { RasterizationCell } from "./RasterizationCell";
 
-export class RasterizationGrid {
+/**
+ * The conversion between the scene and the cells of a grid.
+ */
+export interface GridBasis {
+  dimX(): integer;
+  dimY(): integer;
+  convertToGridBasis(position: Point, gridPosition: Point): Point;
+  convertFromGridBasis(gridPosition: Point, position: Point): Point;
+}
+
+/**
+ * The cells data of the 1st steps of the NavMesh generation.
+ *
+ * The data is stored in typed arrays with one value by cell (a struct of
+ * arrays) to avoid allocating an object by cell. Cells are identified by
+ * their index: `y * dimX() + x`.
+ */
+export class RasterizationGrid implements GridBasis {
+  /**
+   * The distance to obstacle of cells that are not processed yet.
+   * It's greater than any distance the distance field can give.
+   */
+  static readonly maxDistanceToObstacle: integer = 0xffff;
+
   originX: float;
   originY: float;
   cellWidth: float;
   cellHeight: float;
-  cells: RasterizationCell[][];
+  /**
+   * The position of the cell 0 in the grid whose origin is used, see
+   * {@link RasterizationGrid.setParentBasis}.
+   */
+  cellOffsetX: integer = 0;
+  cellOffsetY: integer = 0;
   regionCount: integer = 0;
 
+  /**
+   * 0 means there is an obstacle in the cell.
+   * See {@link RasterizationCell.distanceToObstacle}
+   */
+  readonly distancesToObstacle: Uint16Array;
+  /** See {@link RasterizationCell.regionID} */
+  readonly regionIDs: Int32Array;
+  /** See {@link RasterizationCell.distanceToRegionCore} */
+  readonly distancesToRegionCore: Int32Array;
+  /** See {@link RasterizationCell.contourFlags} */
+  readonly contourFlags: Uint8Array;
+  /** See {@link RasterizationCell.areaID} */
+  readonly areaIDs: Uint8Array;
+  /**
+   * The index offsets to the neighbors in the same order as
+   * {@link RasterizationGrid.neighbor8Deltas}.
+   */
+  readonly neighborOffsets: Int32Array;
+
+  private readonly cellCountX: integer;
+  private readonly cellCountY: integer;
+
   public static neighbor4Deltas = [
     { x: -1, y: 0 },
     { x: 0, y: 1 },
@@ -27,40 +77,104 @@ export class RasterizationGrid {
     { x: 1, y: -1 },
   ];
 
+  /**
+   * @param cellCountX the cell count of a row including the border ring.
+   * By default, it's the one that covers the area bounds. Give it to have
+   * exactly the cells of another grid.
+   * @param cellCountY the cell count of a column including the border ring.
+   */
   constructor(
     left: float,
     top: float,
     right: float,
     bottom: float,
     cellWidth: float,
-    cellHeight: float
+    cellHeight: float,
+    cellCountX: integer = 2 + Math.ceil((right - left) / cellWidth),
+    cellCountY: integer = 2 + Math.ceil((bottom - top) / cellHeight)
   ) {
     this.cellWidth = cellWidth;
     this.cellHeight = cellHeight;
     this.originX = left - cellWidth;
     this.originY = top - cellHeight;
 
-    const dimX = 2 + Math.ceil((right - left) / cellWidth);
-    const dimY = 2 + Math.ceil((bottom - top) / cellHeight);
-    this.cells = [];
-    for (var y = 0; y < dimY; y++) {
-      this.cells[y] = [];
+    this.cellCountX = cellCountX;
+    this.cellCountY = cellCountY;
+    const cellCount = this.cellCountX * this.cellCountY;
+    this.distancesToObstacle = new Uint16Array(cellCount);
+    this.regionIDs = new Int32Array(cellCount);
+    this.distancesToRegionCore = new Int32Array(cellCount);
+    this.contourFlags = new Uint8Array(cellCount);
+    this.areaIDs = new Uint8Array(cellCount);
 
-      for (var x = 0; x < dimX; x++) {
-        this.cells[y][x] = new RasterizationCell(x, y);
-      }
+    this.neighborOffsets = new Int32Array(
+      RasterizationGrid.neighbor8Deltas.length
+    );
+    for (
+      let direction = 0;
+      direction < RasterizationGrid.neighbor8Deltas.length;
+      direction++
+    ) {
+      const delta = RasterizationGrid.neighbor8Deltas[direction];
+      this.neighborOffsets[direction] = delta.y * this.cellCountX + delta.x;
     }
+    this.clear();
   }
 
   clear() {
-    for (const row of this.cells) {
-      for (const cell of row) {
-        cell.clear();
-      }
-    }
+    this.fill(
+      this.distancesToObstacle,
+      RasterizationGrid.maxDistanceToObstacle
+    );
+    this.fill(this.areaIDs, RasterizationCell.DEFAULT_AREA_ID);
+    this.clearRegions();
+  }
+
+  /**
+   * Clear the regions but keep the obstacles and the distance field.
+   */
+  clearRegions() {
+    this.fill(this.regionIDs, RasterizationCell.NULL_REGION_ID);
+    this.fill(this.distancesToRegionCore, 0);
+    this.fill(this.contourFlags, 0);
     this.regionCount = 0;
   }
 
+  private fill(
+    values: Uint8Array | Uint16Array | Int32Array,
+    value: integer
+  ): void {
+    // TypedArray.fill is not part of ES5.
+    for (let index = 0; index < values.length; index++) {
+      values[index] = value;
+    }
+  }
+
+  /**
+   * Convert positions with the basis of a bigger grid where this grid is
+   * a part of.
+   *
+   * Positions are converted in the bigger grid basis and shifted by a whole
+   * number of cells, which is exact. This way, obstacles give the same
+   * cells in both grids even when a vertex is on a cell center.
+   *
+   * @param originX the origin of the bigger grid.
+   * @param originY the origin of the bigger grid.
+   * @param cellOffsetX the position of the cell 0 in the bigger grid.
+   * @param cellOffsetY the position of the cell 0 in the bigger grid.
+   */
+  setParentBasis(
+    originX: float,
+    originY: float,
+    cellOffsetX: integer,
+    cellOffsetY: integer
+  ): void {
+    this.originX = originX;
+    this.originY = originY;
+    this.cellOffsetX = cellOffsetX;
+    this.cellOffsetY = cellOffsetY;
+  }
+
   /**
    *
    * @param position the position on the scene
@@ -68,8 +182,10 @@ export class RasterizationGrid {
    * @returns the position on the grid
    */
   convertToGridBasis(position: Point, gridPosition: Point) {
-    gridPosition.x = (position.x - this.originX) / this.cellWidth;
-    gridPosition.y = (position.y - this.originY) / this.cellHeight;
+    gridPosition.x =
+      (position.x - this.originX) / this.cellWidth - this.cellOffsetX;
+    gridPosition.y =
+      (position.y - this.originY) / this.cellHeight - this.cellOffsetY;
     return gridPosition;
   }
 
@@ -80,38 +196,101 @@ export class RasterizationGrid {
    * @returns the position on the scene
    */
   convertFromGridBasis(gridPosition: Point, position: Point) {
-    position.x = gridPosition.x * this.cellWidth + this.originX;
-    position.y = gridPosition.y * this.cellHeight + this.originY;
+    position.x =
+      (gridPosition.x + this.cellOffsetX) * this.cellWidth + this.originX;
+    position.y =
+      (gridPosition.y + this.cellOffsetY) * this.cellHeight + this.originY;
     return position;
   }
 
+  /**
+   * @returns the index of the cell in the typed arrays.
+   */
+  indexOf(x: integer, y: integer): integer {
+    return y * this.cellCountX + x;
+  }
+
+  /**
+   * @returns true when the cell is in the grid, including its border ring.
+   */
+  contains(x: integer, y: integer): boolean {
+    return 0 <= x && x < this.cellCountX && 0 <= y && y < this.cellCountY;
+  }
+
+  xOf(index: integer): integer {
+    return index % this.cellCountX;
+  }
+
+  yOf(index: integer): integer {
+    return Math.floor(index / this.cellCountX);
+  }
+
+  /**
+   * @param index the index of a cell
+   * @param direction the neighbor direction from
+   * {@link RasterizationGrid.neighbor8Deltas}
+   * @returns the index of the neighbor
+   */
+  getNeighborIndex(index: integer, direction: integer): integer {
+    return index + this.neighborOffsets[direction];
+  }
+
+  /**
+   * Give a view on a cell.
+   *
+   * It's convenient but slower than accessing the arrays by cell index.
+   */
   get(x: integer, y: integer) {
-    return this.cells[y][x];
+    return new RasterizationCell(this, x, y);
   }
 
   getNeighbor(cell: RasterizationCell, direction: integer) {
     const delta = RasterizationGrid.neighbor8Deltas[direction];
-    return this.cells[cell.y + delta.y][cell.x + delta.x];
+    return this.get(cell.x + delta.x, cell.y + delta.y);
+  }
+
+  /**
+   * Views on every cell, row by row.
+   *
+   * It's convenient but slower than accessing the arrays by cell index.
+   */
+  get cells(): RasterizationCell[][] {
+    const cells: RasterizationCell[][] = [];
+    for (let y = 0; y < this.cellCountY; y++) {
+      cells[y] = [];
+      for (let x = 0; x < this.cellCountX; x++) {
+        cells[y][x] = this.get(x, y);
+      }
+    }
+    return cells;
   }
 
   dimY() {
-    return this.cells.length;
+    return this.cellCountY;
   }
 
   dimX() {
-    const firstColumn = this.cells[0];
-    return firstColumn ? firstColumn.length : 0;
+    return this.cellCountX;
   }
 
   obstacleDistanceMax() {
     let max = 0;
-    for (const cellRow of this.cells) {
-      for (const cell of cellRow) {
-        if (cell.distanceToObstacle > max) {
-          max = cell.distanceToObstacle;
-        }
+    for (let index = 0; index < this.distancesToObstacle.length; index++) {
+      const distance = this.distancesToObstacle[index];
+      if (distance > max) {
+        max = distance;
       }
     }
     return max;
   }
+
+  obstacleCellCount() {
+    let count = 0;
+    for (let index = 0; index < this.distancesToObstacle.length; index++) {
+      if (this.distancesToObstacle[index] === 0) {
+        count++;
+      }
+    }
+    return count;
+  }
 }
@@ -1,4 +1,10 @@
+import { BuildDiagnostics } from "./BuildDiagnostics";
 import { Point, float, integer } from "./CommonTypes";
+import {
+  DistanceFieldMode,
+  NavMeshBuildConfigResolver,
+  RegionConfig,
+} from "./NavMeshBuildConfig";
 import { RasterizationCell } from "./RasterizationCell";
 import { RasterizationGrid } from "./RasterizationGrid";
 
@@ -13,30 +19,59 @@ import { RasterizationGrid } from "./RasterizationGrid";
  * Region Generation: http://www.critterai.org/projects/nmgen_study/regiongen.html
  */
 export class RegionGenerator {
+  /**
+   * The maximum number of neighbor changes along the border of a layer.
+   * The triangulation of big contours is slow.
+   */
+  private static readonly layerConnectionCountMax = 12;
   obstacleRegionBordersCleaner: ObstacleRegionBordersCleaner;
+  smallRegionFilter: SmallRegionFilter;
   /**
-   * Contains a list of cells that are considered to be flooded and
-   * therefore are ready to be processed. This list may contain nulls
-   * at certain points in the process. Nulls indicate cells that were
+   * Contains a list of cell indexes that are considered to be flooded and
+   * therefore are ready to be processed. This list may contain -1
+   * at certain points in the process. It indicates cells that were
    * initially in the list but have been successfully added to a region.
    * The initial size is arbitrary.
    */
-  floodedCells: Array<RasterizationCell | null>;
+  floodedCells: Array<integer>;
+  /**
+   * A predefined stack of cell indexes for use in the flood operation.
+   * Its content has no meaning outside the new region flooding operation.
+   */
+  workingStack: Array<integer>;
   /**
-   * A predefined stack for use in the flood operation. Its content
-   * has no meaning outside the new region flooding operation.
+   * The region ID of each span of the swept row for the monotone
+   * partitioning. Spans are numbered from 1.
    */
-  workingStack: Array<RasterizationCell>;
+  private workingSpanRegionIDs: Array<integer>;
+  /**
+   * The region above each span of the swept row or -1 when there are
+   * several ones.
+   */
+  private workingSpanNeighbors: Array<integer>;
+  /**
+   * The count of cells of each span of the swept row below its neighbor.
+   */
+  private workingSpanNeighborCellCounts: Array<integer>;
+  /**
+   * The count of cells of the swept row below each region.
+   */
+  private workingRegionCellCounts: Array<integer>;
 
   constructor() {
     this.obstacleRegionBordersCleaner = new ObstacleRegionBordersCleaner();
-    this.floodedCells = new Array<RasterizationCell | null>(1024);
-    this.workingStack = new Array<RasterizationCell>(1024);
+    this.smallRegionFilter = new SmallRegionFilter();
+    this.floodedCells = new Array<integer>(1024);
+    this.workingStack = new Array<integer>(1024);
+    this.workingSpanRegionIDs = [];
+    this.workingSpanNeighbors = [];
+    this.workingSpanNeighborCellCounts = [];
+    this.workingRegionCellCounts = [];
   }
 
-  //TODO implement the smoothing pass on the distance field?
   /**
-   * Groups cells into cohesive regions using an watershed based algorithm.
+   * Groups cells into cohesive regions using an watershed based algorithm
+   * or a sweep of the rows (see {@link RegionConfig.regionPartitioning}).
    *
    * This operation depends on neighbor and distance field information.
    * So {@link RegionGenerator.generateDistanceField} operations must be
@@ -45,8 +80,107 @@ export class RegionGenerator {
    * @param grid A field with cell distance information fully generated.
    * @param obstacleCellPadding a padding in cells to apply around the
    * obstacles.
+   * @param diagnostics Gathers the issues found during the operation.
+   * @param regionConfig the partitioning and the sizes of the regions to
+   * remove or merge.
    */
-  generateRegions(grid: RasterizationGrid, obstacleCellPadding: integer) {
+  generateRegions(
+    grid: RasterizationGrid,
+    obstacleCellPadding: integer,
+    diagnostics: BuildDiagnostics = new BuildDiagnostics(),
+    regionConfig: RegionConfig = NavMeshBuildConfigResolver.defaultConfig
+  ) {
+    const steps = this.generateRegionsSteps(
+      grid,
+      obstacleCellPadding,
+      diagnostics,
+      regionConfig
+    );
+    while (!steps.next().done) {}
+  }
+
+  /**
+   * Groups cells into cohesive regions a few cells at a time.
+   * See {@link RegionGenerator.generateRegions}
+   *
+   * @param grid A field with cell distance information fully generated.
+   * @param obstacleCellPadding a padding in cells to apply around the
+   * obstacles.
+   * @param diagnostics Gathers the issues found during the operation.
+   * @param regionConfig the partitioning and the sizes of the regions to
+   * remove or merge.
+   * @param keptBorderWidth the regions with a cell at this distance in
+   * cells from the grid border or closer are never removed or merged
+   * because of their size. It's used for grids of chunks where regions
+   * continue in other chunks.
+   * @return the progress between 0 and 1.
+   */
+  *generateRegionsSteps(
+    grid: RasterizationGrid,
+    obstacleCellPadding: integer,
+    diagnostics: BuildDiagnostics,
+    regionConfig: RegionConfig = NavMeshBuildConfigResolver.defaultConfig,
+    keptBorderWidth: integer = 0
+  ): Generator<float, void, void> {
+    const isSwept = regionConfig.regionPartitioning !== "watershed";
+    const isLayered = regionConfig.regionPartitioning === "layers";
+    const partitioningSteps = isSwept
+      ? this.generateMonotoneRegionsSteps(grid, obstacleCellPadding)
+      : this.generateWatershedRegionsSteps(grid, obstacleCellPadding);
+    // The obstacle region borders cleaning takes the last progress part.
+    const partitioningProgressMax = 0.8;
+    for (
+      let step = partitioningSteps.next();
+      !step.done;
+      step = partitioningSteps.next()
+    ) {
+      yield partitioningProgressMax * (step.value as float);
+    }
+
+    // It's done before the obstacle region borders cleaning because merged
+    // regions can encompass obstacle regions.
+    const filterSteps = this.smallRegionFilter.filterSmallRegions(
+      grid,
+      // The watershed doesn't flood isolated cells. They can't have a
+      // contour.
+      isSwept
+        ? Math.max(regionConfig.minRegionArea, 2)
+        : regionConfig.minRegionArea,
+      // Layers are merged as long as it's possible.
+      isLayered ? Number.POSITIVE_INFINITY : regionConfig.mergeRegionArea,
+      keptBorderWidth,
+      // The sweep gives regions of 1 row when a span touches several
+      // regions above and below.
+      isSwept,
+      isLayered
+        ? RegionGenerator.layerConnectionCountMax
+        : Number.POSITIVE_INFINITY
+    );
+    while (!filterSteps.next().done) {
+      yield partitioningProgressMax;
+    }
+
+    const cleaningSteps = this.obstacleRegionBordersCleaner.fixObstacleRegion(
+      grid,
+      diagnostics
+    );
+    let cleaningStep = cleaningSteps.next();
+    while (!cleaningStep.done) {
+      yield partitioningProgressMax +
+        (1 - partitioningProgressMax) * (cleaningStep.value as float);
+      cleaningStep = cleaningSteps.next();
+    }
+  }
+
+  /**
+   * Flood the cells from the farthest ones to obstacles.
+   *
+   * @return the progress between 0 and 1.
+   */
+  private *generateWatershedRegionsSteps(
+    grid: RasterizationGrid,
+    obstacleCellPadding: integer
+  ): Generator<float, void, void> {
     // Watershed Algorithm
     //
     // Reference: http://en.wikipedia.org/wiki/Watershed_%28algorithm%29
@@ -88,9 +222,9 @@ export class RegionGenerator {
     // height to which watershed flooding can occur.
     // I.e. Don't let the algorithm flood all the way to the actual border.
     //
-    // We add the minimum border distance to take into account the
-    // blurring algorithm which can result in a border cell having a
-    // border distance > 0.
+    // The blur of the distance field keeps the distances up to its
+    // threshold, so this limit is exact when the threshold is not less than
+    // the padding.
     const distanceMin = obstacleCellPadding * 2;
 
     // TODO: EVAL: Figure out why this iteration limit is needed
@@ -102,6 +236,9 @@ export class RegionGenerator {
 
     const floodedCells = this.floodedCells;
 
+    const distanceMax = grid.obstacleDistanceMax() & ~1;
+    let progress = 0;
+
     // Search until the current distance reaches the minimum allowed
     // distance.
     //
@@ -114,35 +251,29 @@ export class RegionGenerator {
       // moves toward zero (toward borders).
       //
       // This number will always be divisible by 2.
-      let distance = grid.obstacleDistanceMax() & ~1;
+      let distance = distanceMax;
       distance > distanceMin;
       distance = Math.max(distance - 2, 0)
     ) {
+      progress = (distanceMax - distance) / (distanceMax - distanceMin);
       // Find all cells that are at or below the current "water level"
       // and are not already assigned to a region. Add these cells to
       // the flooded cell list for processing.
       floodedCells.length = 0;
       for (let y = 1; y < grid.dimY() - 1; y++) {
-        for (let x = 1; x < grid.dimX() - 1; x++) {
-          const cell = grid.get(x, y);
-          if (
-            cell.regionID === RasterizationCell.NULL_REGION_ID &&
-            cell.distanceToObstacle >= distance
-          ) {
-            // The cell is not already assigned a region and is
-            // below the current "water level". So the cell can be
-            // considered for region assignment.
-            floodedCells.push(cell);
-          }
-        }
+        yield progress;
+        this.pushFloodedCells(grid, y, distance, floodedCells);
       }
       if (nextRegionID > 1) {
         // At least one region has already been created, so first
         // try to  put the newly flooded cells into existing regions.
-        if (distance > 0) {
-          this.expandRegions(grid, floodedCells, expandIterations);
-        } else {
-          this.expandRegions(grid, floodedCells, -1);
+        const expandSteps = this.expandRegions(
+          grid,
+          floodedCells,
+          distance > 0 ? expandIterations : -1
+        );
+        while (!expandSteps.next().done) {
+          yield progress;
         }
       }
 
@@ -150,8 +281,8 @@ export class RegionGenerator {
       // existing regions.
       for (const floodedCell of floodedCells) {
         if (
-          !floodedCell ||
-          floodedCell.regionID !== RasterizationCell.NULL_REGION_ID
+          floodedCell === -1 ||
+          grid.regionIDs[floodedCell] !== RasterizationCell.NULL_REGION_ID
         ) {
           // This cell was assigned to a newly created region
           // during an earlier iteration of this loop.
@@ -168,49 +299,156 @@ export class RegionGenerator {
         const fillTo = Math.max(distance - 2, distanceMin + 1, 1);
         if (this.floodNewRegion(grid, floodedCell, fillTo, nextRegionID)) {
           nextRegionID++;
+          yield progress;
         }
       }
     }
+    progress = 1;
 
     // Find all cells that haven't been assigned regions by the main loop
     // (up to the minimum distance).
     floodedCells.length = 0;
     for (let y = 1; y < grid.dimY() - 1; y++) {
-      for (let x = 1; x < grid.dimX() - 1; x++) {
-        const cell = grid.get(x, y);
-
-        if (
-          cell.distanceToObstacle > distanceMin &&
-          cell.regionID === RasterizationCell.NULL_REGION_ID
-        ) {
-          // Not a border or obstacle region cell. Should be in a region.
-          floodedCells.push(cell);
-        }
-      }
+      yield progress;
+      // Not a border or obstacle region cell. Should be in a region.
+      this.pushFloodedCells(grid, y, distanceMin + 1, floodedCells);
     }
 
     // Perform a final expansion of existing regions.
     // Allow more iterations than normal for this last expansion.
-    if (distanceMin > 0) {
-      this.expandRegions(grid, floodedCells, expandIterations * 8);
-    } else {
-      this.expandRegions(grid, floodedCells, -1);
+    const expandSteps = this.expandRegions(
+      grid,
+      floodedCells,
+      distanceMin > 0 ? expandIterations * 8 : -1
+    );
+    while (!expandSteps.next().done) {
+      yield progress;
     }
 
     grid.regionCount = nextRegionID;
+  }
+
+  /**
+   * Sweep the rows to give a region to each span of walkable cells like the
+   * `rcBuildRegionsMonotone` function of Recast.
+   *
+   * A span continues the region above it when it's the only span below
+   * this region and this region is the only one above it. Otherwise, it
+   * starts a new region. Regions have one span by row so they can't
+   * encompass anything.
+   *
+   * @return the progress between 0 and 1.
+   */
+  private *generateMonotoneRegionsSteps(
+    grid: RasterizationGrid,
+    obstacleCellPadding: integer
+  ): Generator<float, void, void> {
+    // Cells in the padding are not walkable like for the watershed.
+    const distanceMin = obstacleCellPadding * 2;
+    const regionCellCounts = this.workingRegionCellCounts;
+    regionCellCounts.length = 0;
+    regionCellCounts.push(0);
+    let nextRegionID = 1;
+    for (let y = 1; y < grid.dimY() - 1; y++) {
+      yield y / grid.dimY();
+      nextRegionID = this.sweepRow(grid, y, distanceMin, nextRegionID);
+    }
+    grid.regionCount = nextRegionID;
+  }
+
+  /**
+   * Give a region to each span of walkable cells of a row.
+   *
+   * @param y the row to sweep. The row above must already have regions.
+   * @param distanceMin the cells at this distance from obstacles or closer
+   * are not walkable.
+   * @param nextRegionID the ID to give to the next new region.
+   * @returns the ID to give to the next new region.
+   */
+  private sweepRow(
+    grid: RasterizationGrid,
+    y: integer,
+    distanceMin: integer,
+    nextRegionID: integer
+  ): integer {
+    const regionIDs = grid.regionIDs;
+    const distancesToObstacle = grid.distancesToObstacle;
+    const areaIDs = grid.areaIDs;
+    const leftOffset = grid.neighborOffsets[0];
+    const topOffset = grid.neighborOffsets[3];
+    const spanRegionIDs = this.workingSpanRegionIDs;
+    const spanNeighbors = this.workingSpanNeighbors;
+    const spanNeighborCellCounts = this.workingSpanNeighborCellCounts;
+    const regionCellCounts = this.workingRegionCellCounts;
+    const rowStart = grid.indexOf(1, y);
+    const rowEnd = grid.indexOf(grid.dimX() - 1, y);
+
+    // Cells are given the span number until the spans have a region.
+    let spanCount = 0;
+    for (let cell = rowStart; cell < rowEnd; cell++) {
+      if (distancesToObstacle[cell] <= distanceMin) {
+        continue;
+      }
+      // The border ring has no region.
+      let span = regionIDs[cell + leftOffset];
+      if (
+        span === RasterizationCell.NULL_REGION_ID ||
+        areaIDs[cell + leftOffset] !== areaIDs[cell]
+      ) {
+        spanCount++;
+        span = spanCount;
+        spanNeighbors[span] = RasterizationCell.NULL_REGION_ID;
+        spanNeighborCellCounts[span] = 0;
+      }
+      regionIDs[cell] = span;
+
+      const topRegionID = regionIDs[cell + topOffset];
+      if (
+        topRegionID === RasterizationCell.NULL_REGION_ID ||
+        areaIDs[cell + topOffset] !== areaIDs[cell]
+      ) {
+        continue;
+      }
+      if (
+        spanNeighbors[span] === RasterizationCell.NULL_REGION_ID ||
+        spanNeighbors[span] === topRegionID
+      ) {
+        spanNeighbors[span] = topRegionID;
+        spanNeighborCellCounts[span]++;
+        regionCellCounts[topRegionID]++;
+      } else {
+        spanNeighbors[span] = -1;
+      }
+    }
 
-    this.obstacleRegionBordersCleaner.fixObstacleRegion(grid);
-    //TODO Also port FilterOutSmallRegions?
-    // The algorithm to remove vertices in the middle (added at the end of
-    // ContourBuilder.buildContours) may already filter them and contour are
-    // faster to process than cells.
+    for (let span = 1; span <= spanCount; span++) {
+      const neighbor = spanNeighbors[span];
+      if (
+        neighbor > 0 &&
+        regionCellCounts[neighbor] === spanNeighborCellCounts[span]
+      ) {
+        spanRegionIDs[span] = neighbor;
+      } else {
+        spanRegionIDs[span] = nextRegionID;
+        regionCellCounts.push(0);
+        nextRegionID++;
+      }
+    }
+    for (let cell = rowStart; cell < rowEnd; cell++) {
+      regionCellCounts[regionIDs[cell + topOffset]] = 0;
+      const span = regionIDs[cell];
+      if (span !== RasterizationCell.NULL_REGION_ID) {
+        regionIDs[cell] = spanRegionIDs[span];
+      }
+    }
+    return nextRegionID;
   }
 
   /**
    * Attempts to find the most appropriate regions to attach cells to.
    *
    * Any cells successfully attached to a region will have their list
-   * entry set to null. So any non-null entries in the list will be cells
+   * entry set to -1. So any other entries in the list will be cells
    * for which a region could not be determined.
    *
    * @param grid
@@ -218,12 +456,13 @@ export class RegionGenerator {
    * of new regions. As output, the cells that could not be assigned
    * to new regions.
    * @param maxIterations If set to -1, will iterate through completion.
+   * @return pauses regularly without any progress information.
    */
-  private expandRegions(
+  private *expandRegions(
     grid: RasterizationGrid,
-    inoutCells: Array<RasterizationCell | null>,
+    inoutCells: Array<integer>,
     iterationMax: integer
-  ) {
+  ): Generator<void, void, void> {
     if (inoutCells.length === 0) return;
     let skipped = 0;
     for (
@@ -241,57 +480,21 @@ export class RegionGenerator {
       skipped = 0;
 
       for (let index = 0; index < inoutCells.length; index++) {
+        if ((index & 0xfff) === 0xfff) {
+          yield;
+        }
         const cell = inoutCells[index];
-        if (cell === null) {
+        if (cell === -1) {
           // The cell originally at this index location has
           // already been successfully assigned a region. Nothing
           // else to do with it.
           skipped++;
           continue;
         }
-        // Default to unassigned.
-        let cellRegion = RasterizationCell.NULL_REGION_ID;
-        let regionCenterDist = Number.MAX_VALUE;
-        for (const delta of RasterizationGrid.neighbor4Deltas) {
-          const neighbor = grid.get(cell.x + delta.x, cell.y + delta.y);
-          if (neighbor.regionID !== RasterizationCell.NULL_REGION_ID) {
-            if (neighbor.distanceToRegionCore + 2 < regionCenterDist) {
-              // This neighbor is closer to its region core
-              // than previously detected neighbors.
-
-              // Conservative expansion constraint:
-              // Check to ensure that this neighbor has
-              // at least two other neighbors in its region.
-              // This makes sure that adding this cell to
-              // this neighbor's  region will not result
-              // in a single width line of cells.
-              let sameRegionCount = 0;
-              for (
-                let neighborDirection = 0;
-                neighborDirection < 4;
-                neighborDirection++
-              ) {
-                const nnCell = grid.getNeighbor(neighbor, neighborDirection);
-                // There is a diagonal-neighbor
-                if (nnCell.regionID === neighbor.regionID) {
-                  // This neighbor has a neighbor in
-                  // the same region.
-                  sameRegionCount++;
-                }
-              }
-              if (sameRegionCount > 1) {
-                cellRegion = neighbor.regionID;
-                regionCenterDist = neighbor.distanceToRegionCore + 2;
-              }
-            }
-          }
-        }
-        if (cellRegion !== RasterizationCell.NULL_REGION_ID) {
+        if (this.expandRegionToCell(grid, cell)) {
           // Found a suitable region for this cell to belong to.
           // Mark this index as having been processed.
-          inoutCells[index] = null;
-          cell.regionID = cellRegion;
-          cell.distanceToRegionCore = regionCenterDist;
+          inoutCells[index] = -1;
         } else {
           // Could not find an existing region for this cell.
           skipped++;
@@ -300,18 +503,116 @@ export class RegionGenerator {
     }
   }
 
+  /**
+   * Add the cells of a row that are at or below the "water level" and
+   * are not already assigned to a region.
+   *
+   * @param grid
+   * @param y the row
+   * @param distance the "water level"
+   * @param outCells receives the cell indexes
+   */
+  private pushFloodedCells(
+    grid: RasterizationGrid,
+    y: integer,
+    distance: integer,
+    outCells: Array<integer>
+  ): void {
+    const regionIDs = grid.regionIDs;
+    const distancesToObstacle = grid.distancesToObstacle;
+    const rowEnd = grid.indexOf(grid.dimX() - 1, y);
+    for (let cell = grid.indexOf(1, y); cell < rowEnd; cell++) {
+      if (
+        regionIDs[cell] === RasterizationCell.NULL_REGION_ID &&
+        distancesToObstacle[cell] >= distance
+      ) {
+        // The cell is not already assigned a region and is
+        // below the current "water level". So the cell can be
+        // considered for region assignment.
+        outCells.push(cell);
+      }
+    }
+  }
+
+  /**
+   * Attempts to attach a cell to the region of one of its neighbors.
+   *
+   * @param grid
+   * @param cell the cell index
+   * @return true if the cell was attached to a region.
+   */
+  private expandRegionToCell(grid: RasterizationGrid, cell: integer): boolean {
+    const regionIDs = grid.regionIDs;
+    const distancesToRegionCore = grid.distancesToRegionCore;
+    const areaIDs = grid.areaIDs;
+    const neighborOffsets = grid.neighborOffsets;
+    // Default to unassigned.
+    let cellRegion = RasterizationCell.NULL_REGION_ID;
+    let regionCenterDist = Number.MAX_VALUE;
+    for (let direction = 0; direction < 4; direction++) {
+      const neighbor = cell + neighborOffsets[direction];
+      const neighborRegionID = regionIDs[neighbor];
+      if (
+        neighborRegionID !== RasterizationCell.NULL_REGION_ID &&
+        // Regions don't cross area borders.
+        areaIDs[neighbor] === areaIDs[cell]
+      ) {
+        if (distancesToRegionCore[neighbor] + 2 < regionCenterDist) {
+          // This neighbor is closer to its region core
+          // than previously detected neighbors.
+
+          // Conservative expansion constraint:
+          // Check to ensure that this neighbor has
+          // at least two other neighbors in its region.
+          // This makes sure that adding this cell to
+          // this neighbor's  region will not result
+          // in a single width line of cells.
+          let sameRegionCount = 0;
+          for (
+            let neighborDirection = 0;
+            neighborDirection < 4;
+            neighborDirection++
+          ) {
+            const nnCell = neighbor + neighborOffsets[neighborDirection];
+            // There is a diagonal-neighbor
+            if (
+              regionIDs[nnCell] === neighborRegionID ||
+              // The region can't expand in another area so its border
+              // follows the area border anyway.
+              areaIDs[nnCell] !== areaIDs[neighbor]
+            ) {
+              // This neighbor has a neighbor in
+              // the same region.
+              sameRegionCount++;
+            }
+          }
+          if (sameRegionCount > 1) {
+            cellRegion = neighborRegionID;
+            regionCenterDist = distancesToRegionCore[neighbor] + 2;
+          }
+        }
+      }
+    }
+    if (cellRegion === RasterizationCell.NULL_REGION_ID) {
+      return false;
+    }
+    regionIDs[cell] = cellRegion;
+    distancesToRegionCore[cell] = regionCenterDist;
+    return true;
+  }
+
   /**
    * Creates a new region surrounding a cell, adding neighbor cells to the
    * new region as appropriate.
    *
    * The new region creation will fail if the root cell is on the
-   * border of an existing region.
+   * border of an existing region of the same area.
    *
    * All cells added to the new region as part of this process become
    * "core" cells with a distance to region core of zero.
    *
    * @param grid
-   * @param rootCell The cell used to seed the new region.
+   * @param rootCell The index of the cell used to seed the new region.
    * @param fillToDist The watershed distance to flood to.
    * @param regionID The region ID to use for the new region
    * (if creation is successful).
@@ -319,19 +620,25 @@ export class RegionGenerator {
    */
   private floodNewRegion(
     grid: RasterizationGrid,
-    rootCell: RasterizationCell,
+    rootCell: integer,
     fillToDist: integer,
     regionID: integer
   ) {
+    const regionIDs = grid.regionIDs;
+    const distancesToObstacle = grid.distancesToObstacle;
+    const distancesToRegionCore = grid.distancesToRegionCore;
+    const areaIDs = grid.areaIDs;
+    const neighborOffsets = grid.neighborOffsets;
+    const areaID = areaIDs[rootCell];
     const workingStack = this.workingStack;
     workingStack.length = 0;
     workingStack.push(rootCell);
-    rootCell.regionID = regionID;
-    rootCell.distanceToRegionCore = 0;
+    regionIDs[rootCell] = regionID;
+    distancesToRegionCore[rootCell] = 0;
 
     let regionSize = 0;
-    let cell: RasterizationCell | undefined;
-    while ((cell = workingStack.pop())) {
+    while (workingStack.length > 0) {
+      const cell = workingStack.pop()!;
       // Check regions of neighbor cells.
       //
       // If any neighbor is found to have a region assigned, then
@@ -344,15 +651,17 @@ export class RegionGenerator {
       // Neighbor searches:
       // http://www.critterai.org/projects/nmgen_study/heightfields.html#nsearch
       let isOnRegionBorder = false;
-      for (const delta of RasterizationGrid.neighbor8Deltas) {
-        const neighbor = grid.get(cell.x + delta.x, cell.y + delta.y);
+      for (let direction = 0; direction < 8; direction++) {
+        const neighbor = cell + neighborOffsets[direction];
+        const neighborRegionID = regionIDs[neighbor];
         isOnRegionBorder =
-          neighbor.regionID !== RasterizationCell.NULL_REGION_ID &&
-          neighbor.regionID !== regionID;
+          neighborRegionID !== RasterizationCell.NULL_REGION_ID &&
+          neighborRegionID !== regionID &&
+          areaIDs[neighbor] === areaID;
         if (isOnRegionBorder) break;
       }
       if (isOnRegionBorder) {
-        cell.regionID = RasterizationCell.NULL_REGION_ID;
+        regionIDs[cell] = RasterizationCell.NULL_REGION_ID;
         continue;
       }
       regionSize++;
@@ -360,15 +669,16 @@ export class RegionGenerator {
       // If got this far, we know the current cell is part of the new
       // region. Now check its neighbors to see if they should be
       // assigned to this new region.
-      for (const delta of RasterizationGrid.neighbor4Deltas) {
-        const neighbor = grid.get(cell.x + delta.x, cell.y + delta.y);
+      for (let direction = 0; direction < 4; direction++) {
+        const neighbor = cell + neighborOffsets[direction];
 
         if (
-          neighbor.distanceToObstacle >= fillToDist &&
-          neighbor.regionID === RasterizationCell.NULL_REGION_ID
+          distancesToObstacle[neighbor] >= fillToDist &&
+          regionIDs[neighbor] === RasterizationCell.NULL_REGION_ID &&
+          areaIDs[neighbor] === areaID
         ) {
-          neighbor.regionID = regionID;
-          neighbor.distanceToRegionCore = 0;
+          regionIDs[neighbor] = regionID;
+          distancesToRegionCore[neighbor] = 0;
           workingStack.push(neighbor);
         }
       }
@@ -389,34 +699,161 @@ export class RegionGenerator {
     { x: -1, y: 1, distance: 3 },
   ];
 
+  /**
+   * Lowers the distances of a row of cells according to the distances of
+   * their already processed neighbors.
+   *
+   * @param distancesToObstacle the distance field
+   * @param startCell the index of the 1st cell of the row
+   * @param endCell the index of the cell after the last one of the row
+   * @param step 1 to go right or -1 to go left
+   * @param neighborOffsets the index offsets of the neighbors to check
+   * @param neighborDistances the distances to the neighbors
+   */
+  private static propagateDistances(
+    distancesToObstacle: Uint16Array,
+    startCell: integer,
+    endCell: integer,
+    step: integer,
+    neighborOffsets: integer[],
+    neighborDistances: integer[]
+  ): void {
+    for (let cell = startCell; cell !== endCell; cell += step) {
+      let distance = distancesToObstacle[cell];
+      for (let index = 0; index < neighborOffsets.length; index++) {
+        const distanceByNeighbor =
+          distancesToObstacle[cell + neighborOffsets[index]] +
+          neighborDistances[index];
+        if (distance > distanceByNeighbor) {
+          distance = distanceByNeighbor;
+        }
+      }
+      distancesToObstacle[cell] = distance;
+    }
+  }
+
   /**
    * Generates distance field information.
    * The {@link RasterizationCell.distanceToObstacle} information is generated
    * for all cells in the field.
    *
    * All distance values are relative and do not represent explicit
-   * distance values (such as grid unit distance). The algorithm which is
-   * used results in an approximation only. It is not exhaustive.
+   * distance values (such as grid unit distance): there are 2 by cell.
+   * The chamfer algorithm results in an approximation only. It is not
+   * exhaustive.
    *
    * The data generated by this operation is required by
    * {@link RegionGenerator.generateRegions}.
    *
    * @param grid A field with cells obstacle information already generated.
+   * @param distanceField how the distances are measured.
+   * @param smoothingThreshold the distance in cells under which the
+   * distance field is not blurred. The value 0 means no blur.
+   */
+  generateDistanceField(
+    grid: RasterizationGrid,
+    distanceField: DistanceFieldMode = "chamfer",
+    smoothingThreshold: integer = 0
+  ) {
+    const steps = this.generateDistanceFieldSteps(
+      grid,
+      distanceField,
+      smoothingThreshold
+    );
+    while (!steps.next().done) {}
+  }
+
+  /**
+   * Generates distance field information a row at a time.
+   * See {@link RegionGenerator.generateDistanceField}
+   *
+   * @param grid A field with cells obstacle information already generated.
+   * @param distanceField how the distances are measured.
+   * @param smoothingThreshold the distance in cells under which the
+   * distance field is not blurred. The value 0 means no blur.
+   * @return the progress between 0 and 1.
    */
-  generateDistanceField(grid: RasterizationGrid) {
+  *generateDistanceFieldSteps(
+    grid: RasterizationGrid,
+    distanceField: DistanceFieldMode = "chamfer",
+    smoothingThreshold: integer = 0
+  ): Generator<float, void, void> {
+    const distancesToObstacle = grid.distancesToObstacle;
     // close borders
     for (let x = 0; x < grid.dimX(); x++) {
-      const leftCell = grid.get(x, 0);
-      leftCell.distanceToObstacle = 0;
-      const rightCell = grid.get(x, grid.dimY() - 1);
-      rightCell.distanceToObstacle = 0;
+      distancesToObstacle[grid.indexOf(x, 0)] = 0;
+      distancesToObstacle[grid.indexOf(x, grid.dimY() - 1)] = 0;
+    }
+    for (let y = 1; y < grid.dimY() - 1; y++) {
+      distancesToObstacle[grid.indexOf(0, y)] = 0;
+      distancesToObstacle[grid.indexOf(grid.dimX() - 1, y)] = 0;
     }
+    // The blur takes the last progress part.
+    const distancesProgressMax = smoothingThreshold > 0 ? 0.75 : 1;
+    const steps: Iterator<float> =
+      distanceField === "euclidean"
+        ? this.generateEuclideanDistanceFieldSteps(grid)
+        : this.generateChamferDistanceFieldSteps(grid);
+    for (let step = steps.next(); !step.done; step = steps.next()) {
+      yield step.value * distancesProgressMax;
+    }
+    if (smoothingThreshold <= 0) {
+      return;
+    }
+    // The distances of the previous and current rows before the blur.
+    let previousRow = new Uint16Array(grid.dimX());
+    let currentRow = new Uint16Array(grid.dimX());
+    RegionGenerator.copyRow(
+      distancesToObstacle,
+      grid.indexOf(0, 0),
+      previousRow
+    );
     for (let y = 1; y < grid.dimY() - 1; y++) {
-      const topCell = grid.get(0, y);
-      topCell.distanceToObstacle = 0;
-      const bottomCell = grid.get(grid.dimX() - 1, y);
-      bottomCell.distanceToObstacle = 0;
+      yield distancesProgressMax +
+        ((1 - distancesProgressMax) * (y - 1)) / (grid.dimY() - 2);
+      RegionGenerator.copyRow(
+        distancesToObstacle,
+        grid.indexOf(0, y),
+        currentRow
+      );
+      RegionGenerator.blurRow(
+        distancesToObstacle,
+        grid.indexOf(0, y),
+        previousRow,
+        currentRow,
+        // Same scale as the distances: 2 by cell.
+        2 * smoothingThreshold
+      );
+      const swappedRow = previousRow;
+      previousRow = currentRow;
+      currentRow = swappedRow;
     }
+  }
+
+  /**
+   * Generates the chamfer distances with 2 by side step and 3 by diagonal
+   * step.
+   *
+   * @param grid A field with closed borders.
+   * @return the progress between 0 and 1.
+   */
+  private *generateChamferDistanceFieldSteps(
+    grid: RasterizationGrid
+  ): Generator<float, void, void> {
+    const distancesToObstacle = grid.distancesToObstacle;
+    const rowCount = 2 * (grid.dimY() - 2);
+    const firstPassOffsets = RegionGenerator.firstPassDeltas.map((delta) =>
+      grid.indexOf(delta.x, delta.y)
+    );
+    const firstPassDistances = RegionGenerator.firstPassDeltas.map(
+      (delta) => delta.distance
+    );
+    const secondPassOffsets = RegionGenerator.secondPassDeltas.map((delta) =>
+      grid.indexOf(delta.x, delta.y)
+    );
+    const secondPassDistances = RegionGenerator.secondPassDeltas.map(
+      (delta) => delta.distance
+    );
     // The next two phases basically check the neighbors of a cell and
     // set the cell's distance field to be slightly greater than the
     // neighbor with the lowest border distance. Distance is increased
@@ -426,17 +863,15 @@ export class RegionGenerator {
     // During this pass, the following neighbors are checked:
     // (-1, 0) (-1, -1) (0, -1) (1, -1)
     for (let y = 1; y < grid.dimY() - 1; y++) {
-      for (let x = 1; x < grid.dimX() - 1; x++) {
-        const cell = grid.get(x, y);
-        for (const delta of RegionGenerator.firstPassDeltas) {
-          const distanceByNeighbor =
-            grid.get(x + delta.x, y + delta.y).distanceToObstacle +
-            delta.distance;
-          if (cell.distanceToObstacle > distanceByNeighbor) {
-            cell.distanceToObstacle = distanceByNeighbor;
-          }
-        }
-      }
+      yield (y - 1) / rowCount;
+      RegionGenerator.propagateDistances(
+        distancesToObstacle,
+        grid.indexOf(1, y),
+        grid.indexOf(grid.dimX() - 1, y),
+        1,
+        firstPassOffsets,
+        firstPassDistances
+      );
     }
     // 2nd pass
     // During this pass, the following neighbors are checked:
@@ -445,17 +880,228 @@ export class RegionGenerator {
     // Besides checking different neighbors, this pass performs its
     // grid search in reverse order.
     for (let y = grid.dimY() - 2; y >= 1; y--) {
-      for (let x = grid.dimX() - 2; x >= 1; x--) {
-        const cell = grid.get(x, y);
-        for (const delta of RegionGenerator.secondPassDeltas) {
-          const distanceByNeighbor =
-            grid.get(x + delta.x, y + delta.y).distanceToObstacle +
-            delta.distance;
-          if (cell.distanceToObstacle > distanceByNeighbor) {
-            cell.distanceToObstacle = distanceByNeighbor;
-          }
-        }
+      yield (2 * grid.dimY() - 5 - y) / rowCount;
+      RegionGenerator.propagateDistances(
+        distancesToObstacle,
+        grid.indexOf(grid.dimX() - 2, y),
+        grid.indexOf(0, y),
+        -1,
+        secondPassOffsets,
+        secondPassDistances
+      );
+    }
+  }
+
+  private static copyRow(
+    distancesToObstacle: Uint16Array,
+    rowStart: integer,
+    outRow: Uint16Array
+  ): void {
+    for (let x = 0; x < outRow.length; x++) {
+      outRow[x] = distancesToObstacle[rowStart + x];
+    }
+  }
+
+  /**
+   * Replaces the distances of a row by the average of the 3 by 3 cells
+   * around them like CritterAI and Recast do. It smooths the distance
+   * field of noisy obstacles that would give many small regions with
+   * jagged borders.
+   *
+   * The distances up to the threshold are kept and the other ones stay
+   * above it, so the padding is exact when it's not greater than the
+   * threshold. Obstacles are always kept.
+   *
+   * @param distancesToObstacle the distance field where the next row is not
+   * blurred yet.
+   * @param rowStart the index of the 1st cell of the row
+   * @param previousRow the distances of the previous row before the blur
+   * @param currentRow the distances of the row before the blur
+   * @param threshold the distance under which cells are not blurred
+   */
+  private static blurRow(
+    distancesToObstacle: Uint16Array,
+    rowStart: integer,
+    previousRow: Uint16Array,
+    currentRow: Uint16Array,
+    threshold: integer
+  ): void {
+    const nextRowStart = rowStart + currentRow.length;
+    for (let x = 1; x < currentRow.length - 1; x++) {
+      const distance = currentRow[x];
+      if (distance <= threshold) {
+        continue;
+      }
+      const distanceSum =
+        previousRow[x - 1] +
+        previousRow[x] +
+        previousRow[x + 1] +
+        currentRow[x - 1] +
+        distance +
+        currentRow[x + 1] +
+        distancesToObstacle[nextRowStart + x - 1] +
+        distancesToObstacle[nextRowStart + x] +
+        distancesToObstacle[nextRowStart + x + 1];
+      distancesToObstacle[rowStart + x] = Math.max(
+        Math.floor((distanceSum + 5) / 9),
+        threshold + 1
+      );
+    }
+  }
+
+  /**
+   * Generates an exact distance field with a separable squared Euclidean
+   * distance transform (Felzenszwalb and Huttenlocher).
+   *
+   * The vertical distances are computed in place, then the squared
+   * distances of each row are the lower envelope of the parabolas rooted
+   * at its cells.
+   *
+   * @param grid A field with closed borders.
+   * @return the progress between 0 and 1.
+   */
+  private *generateEuclideanDistanceFieldSteps(
+    grid: RasterizationGrid
+  ): Generator<float, void, void> {
+    const rowCount = 3 * (grid.dimY() - 2);
+    const distancesToObstacle = grid.distancesToObstacle;
+    const dimX = grid.dimX();
+    // Vertical distances in cells from the top then from the bottom.
+    for (let y = 1; y < grid.dimY() - 1; y++) {
+      yield (y - 1) / rowCount;
+      RegionGenerator.propagateVerticalDistances(
+        distancesToObstacle,
+        grid.indexOf(1, y),
+        grid.indexOf(dimX - 1, y),
+        -dimX
+      );
+    }
+    for (let y = grid.dimY() - 2; y >= 1; y--) {
+      yield (2 * grid.dimY() - 5 - y) / rowCount;
+      RegionGenerator.propagateVerticalDistances(
+        distancesToObstacle,
+        grid.indexOf(1, y),
+        grid.indexOf(dimX - 1, y),
+        dimX
+      );
+    }
+    const squaredDistances = new Float64Array(dimX);
+    const parabolaCells = new Int32Array(dimX);
+    const parabolaStarts = new Float64Array(dimX + 1);
+    for (let y = 1; y < grid.dimY() - 1; y++) {
+      yield (2 * grid.dimY() - 5 + y) / rowCount;
+      RegionGenerator.transformRow(
+        distancesToObstacle,
+        grid.indexOf(0, y),
+        dimX,
+        squaredDistances,
+        parabolaCells,
+        parabolaStarts
+      );
+    }
+  }
+
+  /**
+   * Lowers the vertical distances in cells of a row of cells according to
+   * the row above or below.
+   *
+   * @param distancesToObstacle the distance field
+   * @param startCell the index of the 1st cell of the row
+   * @param endCell the index of the cell after the last one of the row
+   * @param neighborOffset the index offset of the processed row
+   */
+  private static propagateVerticalDistances(
+    distancesToObstacle: Uint16Array,
+    startCell: integer,
+    endCell: integer,
+    neighborOffset: integer
+  ): void {
+    for (let cell = startCell; cell < endCell; cell++) {
+      const distanceByNeighbor = distancesToObstacle[cell + neighborOffset] + 1;
+      if (distancesToObstacle[cell] > distanceByNeighbor) {
+        distancesToObstacle[cell] = distanceByNeighbor;
+      }
+    }
+  }
+
+  /**
+   * @returns the position where the parabola rooted at the cell B becomes
+   * lower than the one rooted at the cell A.
+   */
+  private static intersectParabolas(
+    squaredDistances: Float64Array,
+    cellA: integer,
+    cellB: integer
+  ): float {
+    return (
+      (squaredDistances[cellB] +
+        cellB * cellB -
+        squaredDistances[cellA] -
+        cellA * cellA) /
+      (2 * (cellB - cellA))
+    );
+  }
+
+  /**
+   * Replaces the vertical distances of a row by the Euclidean distances.
+   *
+   * @param distancesToObstacle the distance field
+   * @param rowStart the index of the 1st cell of the row
+   * @param dimX the cell count of the row
+   * @param squaredDistances a working array of the row size
+   * @param parabolaCells a working array of the row size
+   * @param parabolaStarts a working array of the row size plus one
+   */
+  private static transformRow(
+    distancesToObstacle: Uint16Array,
+    rowStart: integer,
+    dimX: integer,
+    squaredDistances: Float64Array,
+    parabolaCells: Int32Array,
+    parabolaStarts: Float64Array
+  ): void {
+    for (let x = 0; x < dimX; x++) {
+      const distance = distancesToObstacle[rowStart + x];
+      squaredDistances[x] = distance * distance;
+    }
+    // Find the parabolas of the lower envelope and where they start.
+    let parabola = 0;
+    parabolaCells[0] = 0;
+    parabolaStarts[0] = Number.NEGATIVE_INFINITY;
+    parabolaStarts[1] = Number.POSITIVE_INFINITY;
+    for (let x = 1; x < dimX; x++) {
+      let intersection = RegionGenerator.intersectParabolas(
+        squaredDistances,
+        parabolaCells[parabola],
+        x
+      );
+      // The 1st parabola starts at -Infinity so it's never removed.
+      while (intersection <= parabolaStarts[parabola]) {
+        parabola--;
+        intersection = RegionGenerator.intersectParabolas(
+          squaredDistances,
+          parabolaCells[parabola],
+          x
+        );
       }
+      parabola++;
+      parabolaCells[parabola] = x;
+      parabolaStarts[parabola] = intersection;
+      parabolaStarts[parabola + 1] = Number.POSITIVE_INFINITY;
+    }
+    parabola = 0;
+    for (let x = 0; x < dimX; x++) {
+      while (parabolaStarts[parabola + 1] < x) {
+        parabola++;
+      }
+      const cell = parabolaCells[parabola];
+      // Same scale as the chamfer distances: 2 by cell.
+      distancesToObstacle[rowStart + x] = Math.min(
+        Math.round(
+          2 * Math.sqrt((x - cell) * (x - cell) + squaredDistances[cell])
+        ),
+        RasterizationGrid.maxDistanceToObstacle
+      );
     }
   }
 }
@@ -468,7 +1114,14 @@ export class RegionGenerator {
  *
  * If a obstacle region is found that is fully encompassed by a single
  * region, then the region will be split into two regions at the
- * obstacle region border.
+ * obstacle region border. The cells of other areas are walls for a region
+ * too, so a region encompassing them is split the same way.
+ *
+ * The opposite case is a walkable region fully enclosed by obstacle cells
+ * like the courtyard of an obstacle with a hole. It's left untouched: the
+ * contour walk from the courtyard sees more acute corners than obtuse
+ * ones, so the obstacle region is outside of its contour. Only the region
+ * around the whole obstacle is split.
  *
  * - Detect and fix "short wrapping" of obstacle regions:
  *
@@ -506,14 +1159,20 @@ export class RegionGenerator {
  * Region Generation: http://www.critterai.org/projects/nmgen_study/regiongen.html
  */
 class ObstacleRegionBordersCleaner {
-  private workingUpLeftOpenCells: RasterizationCell[];
-  private workingDownRightOpenCells: RasterizationCell[];
-  private workingOpenCells: RasterizationCell[];
+  private workingUpLeftOpenCells: integer[];
+  private workingDownRightOpenCells: integer[];
+  private workingOpenCells: integer[];
+  /**
+   * The area border edges already walked with one bit by direction. It's
+   * only allocated for grids with several areas.
+   */
+  private workingWalkedEdges: Uint8Array;
 
   constructor() {
-    this.workingUpLeftOpenCells = new Array<RasterizationCell>(512);
-    this.workingDownRightOpenCells = new Array<RasterizationCell>(512);
-    this.workingOpenCells = new Array<RasterizationCell>(512);
+    this.workingUpLeftOpenCells = new Array<integer>(512);
+    this.workingDownRightOpenCells = new Array<integer>(512);
+    this.workingOpenCells = new Array<integer>(512);
+    this.workingWalkedEdges = new Uint8Array(0);
   }
 
   /**
@@ -522,37 +1181,42 @@ class ObstacleRegionBordersCleaner {
    * on exit.
    *
    * @param grid a grid with fully built regions.
+   * @param diagnostics Gathers the issues found during the operation.
+   * @return the progress between 0 and 1 after each row.
    */
-  public fixObstacleRegion(grid: RasterizationGrid) {
+  public *fixObstacleRegion(
+    grid: RasterizationGrid,
+    diagnostics: BuildDiagnostics
+  ): Generator<float, void, void> {
     const workingUpLeftOpenCells = this.workingUpLeftOpenCells;
     workingUpLeftOpenCells.length = 0;
     const workingDownRightOpenCells = this.workingDownRightOpenCells;
     workingDownRightOpenCells.length = 0;
     const workingOpenCells = this.workingOpenCells;
     workingOpenCells.length = 0;
-    const extremeCells: [RasterizationCell | null, RasterizationCell | null] = [
-      null,
-      null,
-    ];
+    const extremeCells: [integer, integer] = [-1, -1];
+    const regionIDs = grid.regionIDs;
+    const contourFlags = grid.contourFlags;
 
     let nextRegionID = grid.regionCount;
 
     // Iterate over the cells, trying to find obstacle region borders.
     for (let y = 1; y < grid.dimY() - 1; y++) {
+      yield (y - 1) / (grid.dimY() - 2);
       for (let x = 1; x < grid.dimX() - 1; x++) {
-        const cell = grid.get(x, y);
+        const cell = grid.indexOf(x, y);
 
-        if (cell.contourFlags !== 0)
+        if (contourFlags[cell] !== 0)
           // Cell was processed in a previous iteration.
           // Ignore it.
           continue;
 
-        cell.contourFlags = 1;
+        contourFlags[cell] = 1;
 
-        let workingCell: RasterizationCell | null = null;
+        let workingCell = -1;
         let edgeDirection = -1;
 
-        if (cell.regionID !== RasterizationCell.OBSTACLE_REGION_ID) {
+        if (regionIDs[cell] !== RasterizationCell.OBSTACLE_REGION_ID) {
           // Not interested in this cell.
           continue;
         }
@@ -565,7 +1229,7 @@ class ObstacleRegionBordersCleaner {
 
         // This is a border cell. Step into the non-null
         // region and swing the direction around 180 degrees.
-        workingCell = grid.getNeighbor(cell, edgeDirection);
+        workingCell = grid.getNeighborIndex(cell, edgeDirection);
         edgeDirection = (edgeDirection + 2) & 0x3;
 
         // Process the obstacle region contour. Detect and fix
@@ -584,22 +1248,112 @@ class ObstacleRegionBordersCleaner {
           // This is not permitted. Need to fix it.
           this.partialFloodRegion(
             grid,
-            extremeCells[0]!,
-            extremeCells[1]!,
-            nextRegionID
+            extremeCells[0],
+            extremeCells[1],
+            nextRegionID,
+            diagnostics
           );
           nextRegionID++;
         }
       }
     }
 
-    grid.regionCount = nextRegionID;
-
     // Clear all flags.
     for (let y = 1; y < grid.dimY() - 1; y++) {
       for (let x = 1; x < grid.dimX() - 1; x++) {
-        const cell = grid.get(x, y);
-        cell.contourFlags = 0;
+        contourFlags[grid.indexOf(x, y)] = 0;
+      }
+    }
+
+    // Walk the area borders from both sides to find the regions that
+    // encompass cells of other areas. Small regions of the same area can be
+    // between them so the whole border of the region is walked.
+    const areaIDs = grid.areaIDs;
+    const neighborOffsets = grid.neighborOffsets;
+    let walkedEdges: Uint8Array | null = null;
+    for (let y = 1; y < grid.dimY() - 1; y++) {
+      yield 1;
+      for (let x = 1; x < grid.dimX() - 1; x++) {
+        const cell = grid.indexOf(x, y);
+        if (regionIDs[cell] === RasterizationCell.OBSTACLE_REGION_ID) {
+          continue;
+        }
+        for (let direction = 0; direction < 4; direction++) {
+          const neighbor = cell + neighborOffsets[direction];
+          if (
+            regionIDs[neighbor] === RasterizationCell.OBSTACLE_REGION_ID ||
+            areaIDs[neighbor] === areaIDs[cell] ||
+            (walkedEdges && (walkedEdges[cell] & (1 << direction)) !== 0)
+          ) {
+            continue;
+          }
+          if (!walkedEdges) {
+            walkedEdges = this.getWalkedEdges(areaIDs.length);
+          }
+          const isEncompassedArea = this.processNullRegion(
+            grid,
+            cell,
+            direction,
+            extremeCells,
+            walkedEdges
+          );
+          if (isEncompassedArea) {
+            this.partialFloodRegion(
+              grid,
+              extremeCells[0],
+              extremeCells[1],
+              nextRegionID,
+              diagnostics
+            );
+            nextRegionID++;
+            this.clearKeptRegionFlags(grid, extremeCells[1]);
+          }
+        }
+      }
+    }
+
+    grid.regionCount = nextRegionID;
+  }
+
+  /**
+   * @returns the walked edges cleared for a grid.
+   */
+  private getWalkedEdges(cellCount: integer): Uint8Array {
+    if (this.workingWalkedEdges.length < cellCount) {
+      this.workingWalkedEdges = new Uint8Array(cellCount);
+    } else {
+      for (let cell = 0; cell < cellCount; cell++) {
+        this.workingWalkedEdges[cell] = 0;
+      }
+    }
+    return this.workingWalkedEdges;
+  }
+
+  /**
+   * Clear the contour flags that a partial flood left on the cells that kept
+   * their region.
+   *
+   * @param grid
+   * @param downRightCell the cell the 2nd flooding started from.
+   */
+  private clearKeptRegionFlags(
+    grid: RasterizationGrid,
+    downRightCell: integer
+  ): void {
+    const contourFlags = grid.contourFlags;
+    const neighborOffsets = grid.neighborOffsets;
+    const openCells = this.workingOpenCells;
+    openCells.length = 0;
+    contourFlags[downRightCell] = 0;
+    openCells.push(downRightCell);
+    while (openCells.length > 0) {
+      const cell = openCells.pop()!;
+      for (let direction = 0; direction < 4; direction++) {
+        const neighbor = cell + neighborOffsets[direction];
+        if (contourFlags[neighbor] === 2) {
+          contourFlags[neighbor] = 0;
+          openCells.push(neighbor);
+        }
       }
     }
   }
@@ -616,13 +1370,19 @@ class ObstacleRegionBordersCleaner {
    * cells in this direction from the startCell will be flooded.
    * @param newRegionID The region id to assign the flooded
    * cells to.
+   * @param diagnostics Gathers the issues found during the operation.
    */
   private partialFloodRegion(
     grid: RasterizationGrid,
-    upLeftCell: RasterizationCell,
-    downRightCell: RasterizationCell,
-    newRegionID: integer
+    upLeftCell: integer,
+    downRightCell: integer,
+    newRegionID: integer,
+    diagnostics: BuildDiagnostics
   ): void {
+    const regionIDs = grid.regionIDs;
+    const distancesToRegionCore = grid.distancesToRegionCore;
+    const contourFlags = grid.contourFlags;
+    const neighborOffsets = grid.neighborOffsets;
     let upLeftOpenCells = this.workingUpLeftOpenCells;
     let downRightOpenCells = this.workingDownRightOpenCells;
     let workingOpenCells = this.workingOpenCells;
@@ -630,40 +1390,45 @@ class ObstacleRegionBordersCleaner {
     // sections. Instead of brushing in one direction, it floods from
     // 2 extremities of the encompassed obstacle region.
 
-    const regionID = upLeftCell.regionID;
+    const regionID = regionIDs[upLeftCell];
 
     if (regionID === newRegionID) {
       // avoid infinity loop
-      console.error("Can't create a new region with an ID that already exist.");
+      diagnostics.logger.error(
+        "Can't create a new region with an ID that already exist."
+      );
       return;
     }
 
     // The 1st flooding set a new the regionID
-    upLeftCell.regionID = newRegionID;
-    upLeftCell.distanceToRegionCore = 0; // This information is lost.
+    regionIDs[upLeftCell] = newRegionID;
+    distancesToRegionCore[upLeftCell] = 0; // This information is lost.
     upLeftOpenCells.length = 0;
     upLeftOpenCells.push(upLeftCell);
 
     // The 2nd flooding keep the regionID and mark the cell as visited.
-    downRightCell.contourFlags = 2;
-    downRightCell.distanceToRegionCore = 0; // This information is lost.
+    contourFlags[downRightCell] = 2;
+    distancesToRegionCore[downRightCell] = 0; // This information is lost.
     downRightOpenCells.length = 0;
     downRightOpenCells.push(downRightCell);
 
-    let swap: RasterizationCell[];
+    let swap: integer[];
     workingOpenCells.length = 0;
 
     while (upLeftOpenCells.length !== 0 || downRightOpenCells.length !== 0) {
       for (const cell of upLeftOpenCells) {
         for (let direction = 0; direction < 4; direction++) {
-          const neighbor = grid.getNeighbor(cell, direction);
-          if (neighbor.regionID !== regionID || neighbor.contourFlags === 2) {
+          const neighbor = cell + neighborOffsets[direction];
+          if (
+            regionIDs[neighbor] !== regionID ||
+            contourFlags[neighbor] === 2
+          ) {
             continue;
           }
 
           // Transfer the neighbor to the new region.
-          neighbor.regionID = newRegionID;
-          neighbor.distanceToRegionCore = 0; // This information is lost.
+          regionIDs[neighbor] = newRegionID;
+          distancesToRegionCore[neighbor] = 0; // This information is lost.
 
           workingOpenCells.push(neighbor);
         }
@@ -678,14 +1443,17 @@ class ObstacleRegionBordersCleaner {
 
       for (const cell of downRightOpenCells) {
         for (let direction = 0; direction < 4; direction++) {
-          const neighbor = grid.getNeighbor(cell, direction);
-          if (neighbor.regionID !== regionID || neighbor.contourFlags === 2) {
+          const neighbor = cell + neighborOffsets[direction];
+          if (
+            regionIDs[neighbor] !== regionID ||
+            contourFlags[neighbor] === 2
+          ) {
             continue;
           }
 
           // Keep the neighbor to the current region.
-          neighbor.contourFlags = 2;
-          neighbor.distanceToRegionCore = 0; // This information is lost.
+          contourFlags[neighbor] = 2;
+          distancesToRegionCore[neighbor] = 0; // This information is lost.
 
           workingOpenCells.push(neighbor);
         }
@@ -705,14 +1473,18 @@ class ObstacleRegionBordersCleaner {
    * @param startCell A cell in a non-obstacle region that borders a null
    * region.
    * @param startDirection The direction of the obstacle region border.
+   * @param walkedEdges when it's given, every cell out of the start cell
+   * region is a wall instead of only the obstacle region ones. It receives
+   * the wall edges walked along instead of the contour flags.
    * @return TRUE if the start cell's region completely encompasses
    * the obstacle region.
    */
   private processNullRegion(
     grid: RasterizationGrid,
-    startCell: RasterizationCell,
+    startCell: integer,
     startDirection: integer,
-    extremeCells: [RasterizationCell | null, RasterizationCell | null]
+    extremeCells: [integer, integer],
+    walkedEdges: Uint8Array | null = null
   ): boolean {
     // This algorithm traverses the contour. As it does so, it detects
     // and fixes various known dangerous cell configurations.
@@ -735,15 +1507,21 @@ class ObstacleRegionBordersCleaner {
     // region is inside the contour. Otherwise the obstacle region is
     // outside the contour, which we don't care about.
 
-    const borderRegionID = startCell.regionID;
+    const regionIDs = grid.regionIDs;
+    const contourFlags = grid.contourFlags;
+    const borderRegionID = regionIDs[startCell];
 
     // Prepare for loop.
     let cell = startCell;
-    let neighbor: RasterizationCell | null = null;
+    let neighbor = -1;
     let direction = startDirection;
 
     let upLeftCell = cell;
+    let upLeftX = grid.xOf(cell);
+    let upLeftY = grid.yOf(cell);
     let downRightCell = cell;
+    let downRightX = upLeftX;
+    let downRightY = upLeftY;
 
     // Initialize monitoring variables.
     let loopCount = 0;
@@ -765,28 +1543,34 @@ class ObstacleRegionBordersCleaner {
     // multiple times, killing performance.
     while (++loopCount < 1 << 30) {
       // Get the cell across the border.
-      neighbor = grid.getNeighbor(cell, direction);
+      neighbor = grid.getNeighborIndex(cell, direction);
 
       // Detect which type of edge this direction points across.
-      if (neighbor === null) {
+      if (
+        walkedEdges
+          ? regionIDs[neighbor] !== borderRegionID
+          : regionIDs[neighbor] === RasterizationCell.OBSTACLE_REGION_ID
+      ) {
         // It points across a obstacle region border edge.
         isBorder = true;
+      } else {
+        // This isn't a obstacle region border.
+        isBorder = false;
+        if (regionIDs[neighbor] !== borderRegionID)
+          // It points across a border to a non-obstacle region.
+          // This means the current contour can't
+          // represent a fully encompassed obstacle region.
+          hasSingleConnection = false;
+      }
+
+      if (walkedEdges) {
+        if (isBorder) {
+          walkedEdges[cell] |= 1 << direction;
+        }
       } else {
         // We never need to perform contour detection
         // on this cell again. So mark it as processed.
-        neighbor.contourFlags = 1;
-        if (neighbor.regionID === RasterizationCell.OBSTACLE_REGION_ID) {
-          // It points across a obstacle region border edge.
-          isBorder = true;
-        } else {
-          // This isn't a obstacle region border.
-          isBorder = false;
-          if (neighbor.regionID !== borderRegionID)
-            // It points across a border to a non-obstacle region.
-            // This means the current contour can't
-            // represent a fully encompassed obstacle region.
-            hasSingleConnection = false;
-        }
+        contourFlags[neighbor] = 1;
       }
 
       // Process the border.
@@ -810,8 +1594,9 @@ class ObstacleRegionBordersCleaner {
           obtuseCornerCount++;
           stepsWithoutBorder = 0;
           // Detect and fix cell configuration issue around this
-          // corner.
-          if (this.processOuterCorner(grid, cell, direction))
+          // corner. The obstacle region borders are already fixed when
+          // region borders are walked.
+          if (!walkedEdges && this.processOuterCorner(grid, cell, direction))
             // A change was made and it resulted in the
             // corner area having multiple region connections.
             hasSingleConnection = false;
@@ -829,17 +1614,17 @@ class ObstacleRegionBordersCleaner {
         borderSeenLastLoop = false;
         stepsWithoutBorder++;
 
-        if (
-          cell.x < upLeftCell.x ||
-          (cell.x === upLeftCell.x && cell.y < upLeftCell.y)
-        ) {
+        const x = grid.xOf(cell);
+        const y = grid.yOf(cell);
+        if (x < upLeftX || (x === upLeftX && y < upLeftY)) {
           upLeftCell = cell;
+          upLeftX = x;
+          upLeftY = y;
         }
-        if (
-          cell.x > downRightCell.x ||
-          (cell.x === downRightCell.x && cell.y > downRightCell.y)
-        ) {
+        if (x > downRightX || (x === downRightX && y > downRightY)) {
           downRightCell = cell;
+          downRightX = x;
+          downRightY = y;
         }
       }
 
@@ -871,23 +1656,28 @@ class ObstacleRegionBordersCleaner {
    */
   private processOuterCorner(
     grid: RasterizationGrid,
-    referenceCell: RasterizationCell,
+    referenceCell: integer,
     borderDirection: integer
   ): boolean {
+    const regionIDs = grid.regionIDs;
+    const areaIDs = grid.areaIDs;
     let hasMultiRegions = false;
 
     // Get the previous two cells along the border.
-    let backOne = grid.getNeighbor(referenceCell, (borderDirection + 3) & 0x3);
-    let backTwo = grid.getNeighbor(backOne, borderDirection);
-    let testCell: RasterizationCell;
+    let backOne = grid.getNeighborIndex(
+      referenceCell,
+      (borderDirection + 3) & 0x3
+    );
+    let backTwo = grid.getNeighborIndex(backOne, borderDirection);
+    let testCell: integer;
 
     if (
-      backOne.regionID !== referenceCell.regionID &&
+      regionIDs[backOne] !== regionIDs[referenceCell] &&
       // This differ from the CritterAI implementation.
       // To filter vertices in the middle, this must be avoided too:
       //     a x
       //     b c
-      backTwo.regionID !== backOne.regionID
+      regionIDs[backTwo] !== regionIDs[backOne]
     ) {
       // Dangerous corner configuration.
       //
@@ -924,30 +1714,32 @@ class ObstacleRegionBordersCleaner {
       // up a better way of resolving this issue.
       hasMultiRegions = true;
       // Determine how many connections backTwo has to backOne's region.
-      testCell = grid.getNeighbor(backOne, (borderDirection + 3) & 0x3);
+      testCell = grid.getNeighborIndex(backOne, (borderDirection + 3) & 0x3);
       let backTwoConnections = 0;
-      if (testCell.regionID === backOne.regionID) {
+      if (regionIDs[testCell] === regionIDs[backOne]) {
         backTwoConnections++;
-        testCell = grid.getNeighbor(testCell, borderDirection);
-        if (testCell.regionID === backOne.regionID) backTwoConnections++;
+        testCell = grid.getNeighborIndex(testCell, borderDirection);
+        if (regionIDs[testCell] === regionIDs[backOne]) backTwoConnections++;
       }
       // Determine how many connections the reference cell has
       // to backOne's region.
       let referenceConnections = 0;
-      testCell = grid.getNeighbor(backOne, (borderDirection + 2) & 0x3);
-      if (testCell.regionID === backOne.regionID) {
+      testCell = grid.getNeighborIndex(backOne, (borderDirection + 2) & 0x3);
+      if (regionIDs[testCell] === regionIDs[backOne]) {
         referenceConnections++;
-        testCell = grid.getNeighbor(testCell, (borderDirection + 2) & 0x3);
-        if (testCell.regionID === backOne.regionID) backTwoConnections++;
+        testCell = grid.getNeighborIndex(testCell, (borderDirection + 2) & 0x3);
+        if (regionIDs[testCell] === regionIDs[backOne]) backTwoConnections++;
       }
       // Change the region of the cell that has the most connections
-      // to the target region.
-      if (referenceConnections > backTwoConnections)
-        referenceCell.regionID = backOne.regionID;
-      else backTwo.regionID = backOne.regionID;
+      // to the target region. Cells never change of area.
+      if (referenceConnections > backTwoConnections) {
+        if (areaIDs[referenceCell] === areaIDs[backOne])
+          regionIDs[referenceCell] = regionIDs[backOne];
+      } else if (areaIDs[backTwo] === areaIDs[backOne])
+        regionIDs[backTwo] = regionIDs[backOne];
     } else if (
-      backOne.regionID === referenceCell.regionID &&
-      backTwo.regionID === referenceCell.regionID
+      regionIDs[backOne] === regionIDs[referenceCell] &&
+      regionIDs[backTwo] === regionIDs[referenceCell]
     ) {
       // Potential dangerous short wrap.
       //
@@ -981,7 +1773,7 @@ class ObstacleRegionBordersCleaner {
         (borderDirection + 1) & 0x3,
         (borderDirection + 2) & 0x3
       );
-      if (selectedRegion === backTwo.regionID) {
+      if (selectedRegion === regionIDs[backTwo]) {
         // backTwo should not be re-assigned. How about
         // the reference cell?
         selectedRegion = this.selectedRegionID(
@@ -990,15 +1782,15 @@ class ObstacleRegionBordersCleaner {
           borderDirection,
           (borderDirection + 3) & 0x3
         );
-        if (selectedRegion !== referenceCell.regionID) {
+        if (selectedRegion !== regionIDs[referenceCell]) {
           // The reference cell should be reassigned
           // to a new region.
-          referenceCell.regionID = selectedRegion;
+          regionIDs[referenceCell] = selectedRegion;
           hasMultiRegions = true;
         }
       } else {
         // backTwo should be re-assigned to a new region.
-        backTwo.regionID = selectedRegion;
+        regionIDs[backTwo] = selectedRegion;
         hasMultiRegions = true;
       }
     } else hasMultiRegions = true;
@@ -1024,10 +1816,13 @@ class ObstacleRegionBordersCleaner {
    */
   private selectedRegionID(
     grid: RasterizationGrid,
-    referenceCell: RasterizationCell,
+    referenceCell: integer,
     borderDirection: integer,
     cornerDirection: integer
   ): integer {
+    const regionIDs = grid.regionIDs;
+    const areaIDs = grid.areaIDs;
+    const referenceRegionID = regionIDs[referenceCell];
     // Initial example state:
     //
     // a - Known region.
@@ -1040,11 +1835,16 @@ class ObstacleRegionBordersCleaner {
 
     // The only possible alternate region id is from
     // the cell that is opposite the border. So check it first.
-    let regionID = grid.getNeighbor(referenceCell, (borderDirection + 2) & 0x3)
-      .regionID;
+    const oppositeCell = grid.getNeighborIndex(
+      referenceCell,
+      (borderDirection + 2) & 0x3
+    );
+    let regionID = regionIDs[oppositeCell];
     if (
-      regionID === referenceCell.regionID ||
-      regionID === RasterizationCell.OBSTACLE_REGION_ID
+      regionID === referenceRegionID ||
+      regionID === RasterizationCell.OBSTACLE_REGION_ID ||
+      // Cells never change of area.
+      areaIDs[oppositeCell] !== areaIDs[referenceCell]
     )
       // The region away from the border is either a obstacle region
       // or the same region. So we keep the current region.
@@ -1052,7 +1852,7 @@ class ObstacleRegionBordersCleaner {
       //     u u u      u u u
       //     a a x  or  x a x  <-- Potentially bad, but stuck with it.
       //     u a a      u a a
-      return referenceCell.regionID;
+      return referenceRegionID;
 
     // Candidate region for re-assignment.
     let potentialRegion = regionID;
@@ -1060,10 +1860,12 @@ class ObstacleRegionBordersCleaner {
     // Next we check the region opposite from the corner direction.
     // If it is the current region, then we definitely can't
     // change the region id without risk of splitting the region.
-    regionID = grid.getNeighbor(referenceCell, (cornerDirection + 2) & 0x3)
-      .regionID;
+    regionID =
+      regionIDs[
+        grid.getNeighborIndex(referenceCell, (cornerDirection + 2) & 0x3)
+      ];
     if (
-      regionID === referenceCell.regionID ||
+      regionID === referenceRegionID ||
       regionID === RasterizationCell.OBSTACLE_REGION_ID
     )
       // The region opposite from the corner direction is
@@ -1073,7 +1875,7 @@ class ObstacleRegionBordersCleaner {
       //     u a u      u x u
       //     b a x  or  b a x
       //     u a a      u a a
-      return referenceCell.regionID;
+      return referenceRegionID;
 
     // We have checked the early exit special cases. Now a generalized
     // brute count is performed.
@@ -1107,14 +1909,12 @@ class ObstacleRegionBordersCleaner {
     // Such cases will tend to favor the current region.
 
     for (let direction = 0; direction < 8; direction++) {
-      let regionID = grid.getNeighbor(referenceCell, direction).regionID;
-      if (regionID === referenceCell.regionID) currentCount++;
+      let regionID = regionIDs[grid.getNeighborIndex(referenceCell, direction)];
+      if (regionID === referenceRegionID) currentCount++;
       else if (regionID === potentialRegion) potentialCount++;
     }
 
-    return potentialCount < currentCount
-      ? referenceCell.regionID
-      : potentialRegion;
+    return potentialCount < currentCount ? referenceRegionID : potentialRegion;
   }
 
   /**
@@ -1126,7 +1926,7 @@ class ObstacleRegionBordersCleaner {
    */
   private getNonNullBorderDirection(
     grid: RasterizationGrid,
-    cell: RasterizationCell
+    cell: integer
   ): integer {
     // Search axis-neighbors.
     for (
@@ -1134,10 +1934,8 @@ class ObstacleRegionBordersCleaner {
       direction < RasterizationGrid.neighbor4Deltas.length;
       direction++
     ) {
-      const delta = RasterizationGrid.neighbor4Deltas[direction];
-
-      const neighbor = grid.get(cell.x + delta.x, cell.y + delta.y);
-      if (neighbor.regionID !== RasterizationCell.OBSTACLE_REGION_ID)
+      const neighbor = grid.getNeighborIndex(cell, direction);
+      if (grid.regionIDs[neighbor] !== RasterizationCell.OBSTACLE_REGION_ID)
         // The neighbor is a obstacle region.
         return direction;
     }
@@ -1145,3 +1943,415 @@ class ObstacleRegionBordersCleaner {
     return -1;
   }
 }
+
+/**
+ * Removes the small groups of connected regions and merges the other small
+ * regions into a neighbor region.
+ *
+ * It's a port of the `mergeAndFilterRegions` function of Recast except
+ * that a small region is merged into its largest neighbor. Region IDs are
+ * renumbered afterward to stay between 1 and
+ * {@link RasterizationGrid.regionCount}.
+ */
+class SmallRegionFilter {
+  /**
+   * @param grid a grid with regions.
+   * @param minRegionArea the cell count under which groups of connected
+   * regions are removed. Their cells are moved in the obstacle region.
+   * @param mergeRegionArea the cell count under which regions are merged
+   * into their largest neighbor.
+   * @param keptBorderWidth the regions with a cell at this distance in cells
+   * from the grid border or closer are never removed or merged because of
+   * their size.
+   * @param mergesThinRegions when it's true, the regions of 1 row or 1
+   * column are merged too whatever their size. The contour simplification
+   * flattens them.
+   * @param maxConnectionCount the maximum number of neighbor changes along
+   * the border of a region merged because of its size. It bounds the
+   * vertex count of the contours.
+   * @return pauses after each row of cells.
+   */
+  *filterSmallRegions(
+    grid: RasterizationGrid,
+    minRegionArea: integer,
+    mergeRegionArea: integer,
+    keptBorderWidth: integer,
+    mergesThinRegions: boolean = false,
+    maxConnectionCount: integer = Number.POSITIVE_INFINITY
+  ): Generator<void, void, void> {
+    if (minRegionArea <= 0 && mergeRegionArea <= 0 && !mergesThinRegions) {
+      return;
+    }
+    const regionCount = grid.regionCount;
+    const cellCounts = new Int32Array(regionCount);
+    const isKept = new Uint8Array(regionCount);
+    // The 1st bit tells if the region has 2 cells side by side and the 2nd
+    // one tells if it has 2 cells one above the other.
+    const thicknesses = new Uint8Array(regionCount);
+    // The 1st cell of each region in the row order is on its outer border.
+    const firstCells = new Int32Array(regionCount);
+    // The regions next to each region without the obstacle region.
+    const neighbors = new Array<integer[]>(regionCount);
+    for (let regionID = 0; regionID < regionCount; regionID++) {
+      neighbors[regionID] = [];
+    }
+    for (let y = 1; y < grid.dimY() - 1; y++) {
+      yield;
+      SmallRegionFilter.gatherRegions(
+        grid,
+        y,
+        keptBorderWidth,
+        cellCounts,
+        isKept,
+        thicknesses,
+        firstCells,
+        neighbors
+      );
+    }
+
+    // The region each region is merged into or the obstacle region.
+    const regionMap = new Int32Array(regionCount);
+    for (let regionID = 0; regionID < regionCount; regionID++) {
+      regionMap[regionID] = regionID;
+    }
+    if (minRegionArea > 0) {
+      this.removeSmallIslands(
+        minRegionArea,
+        cellCounts,
+        isKept,
+        neighbors,
+        regionMap
+      );
+    }
+    if (mergeRegionArea > 0 || mergesThinRegions) {
+      yield;
+      if (!mergesThinRegions) {
+        // Every region is considered thick.
+        for (let regionID = 0; regionID < regionCount; regionID++) {
+          thicknesses[regionID] = 3;
+        }
+      }
+      this.mergeSmallRegions(
+        grid,
+        mergeRegionArea,
+        cellCounts,
+        isKept,
+        thicknesses,
+        firstCells,
+        regionMap,
+        maxConnectionCount
+      );
+    }
+
+    // Give contiguous IDs to the remaining regions.
+    const newRegionIDs = new Int32Array(regionCount);
+    let nextRegionID = 1;
+    for (let regionID = 1; regionID < regionCount; regionID++) {
+      if (regionMap[regionID] === regionID) {
+        newRegionIDs[regionID] = nextRegionID;
+        nextRegionID++;
+      }
+    }
+    for (let regionID = 1; regionID < regionCount; regionID++) {
+      let mergedRegionID = regionID;
+      while (regionMap[mergedRegionID] !== mergedRegionID) {
+        mergedRegionID = regionMap[mergedRegionID];
+      }
+      newRegionIDs[regionID] = newRegionIDs[mergedRegionID];
+    }
+    const regionIDs = grid.regionIDs;
+    for (let y = 1; y < grid.dimY() - 1; y++) {
+      yield;
+      const rowEnd = grid.indexOf(grid.dimX() - 1, y);
+      for (let cell = grid.indexOf(1, y); cell < rowEnd; cell++) {
+        regionIDs[cell] = newRegionIDs[regionIDs[cell]];
+      }
+    }
+    grid.regionCount = nextRegionID;
+  }
+
+  /**
+   * Count the cells of the regions of a row and find their neighbors.
+   */
+  private static gatherRegions(
+    grid: RasterizationGrid,
+    y: integer,
+    keptBorderWidth: integer,
+    outCellCounts: Int32Array,
+    outIsKept: Uint8Array,
+    outThicknesses: Uint8Array,
+    outFirstCells: Int32Array,
+    outNeighbors: integer[][]
+  ): void {
+    const regionIDs = grid.regionIDs;
+    const neighborOffsets = grid.neighborOffsets;
+    const isRowKept = Math.min(y, grid.dimY() - 1 - y) <= keptBorderWidth;
+    for (let x = 1; x < grid.dimX() - 1; x++) {
+      const cell = grid.indexOf(x, y);
+      const regionID = regionIDs[cell];
+      if (regionID === RasterizationCell.OBSTACLE_REGION_ID) {
+        continue;
+      }
+      if (outCellCounts[regionID] === 0) {
+        outFirstCells[regionID] = cell;
+      }
+      outCellCounts[regionID]++;
+      if (isRowKept || Math.min(x, grid.dimX() - 1 - x) <= keptBorderWidth) {
+        outIsKept[regionID] = 1;
+      }
+      const neighbors = outNeighbors[regionID];
+      for (let direction = 0; direction < 4; direction++) {
+        const neighborRegionID = regionIDs[cell + neighborOffsets[direction]];
+        if (neighborRegionID === regionID) {
+          // Even directions are horizontal.
+          outThicknesses[regionID] |= (direction & 1) + 1;
+        } else if (
+          neighborRegionID !== RasterizationCell.OBSTACLE_REGION_ID &&
+          neighbors.indexOf(neighborRegionID) === -1
+        ) {
+          neighbors.push(neighborRegionID);
+        }
+      }
+    }
+  }
+
+  /**
+   * Remove the groups of connected regions with less cells than the
+   * minimum.
+   */
+  private removeSmallIslands(
+    minRegionArea: integer,
+    cellCounts: Int32Array,
+    isKept: Uint8Array,
+    neighbors: integer[][],
+    regionMap: Int32Array
+  ): void {
+    const isVisited = new Uint8Array(cellCounts.length);
+    const island = new Array<integer>();
+    for (let regionID = 1; regionID < cellCounts.length; regionID++) {
+      if (isVisited[regionID] || cellCounts[regionID] === 0) {
+        continue;
+      }
+      isVisited[regionID] = 1;
+      island.length = 0;
+      island.push(regionID);
+      let islandCellCount = 0;
+      let isIslandKept = false;
+      for (let index = 0; index < island.length; index++) {
+        const islandRegionID = island[index];
+        islandCellCount += cellCounts[islandRegionID];
+        isIslandKept = isIslandKept || isKept[islandRegionID] === 1;
+        for (const neighborRegionID of neighbors[islandRegionID]) {
+          if (!isVisited[neighborRegionID]) {
+            isVisited[neighborRegionID] = 1;
+            island.push(neighborRegionID);
+          }
+        }
+      }
+      if (islandCellCount >= minRegionArea || isIslandKept) {
+        continue;
+      }
+      for (const islandRegionID of island) {
+        regionMap[islandRegionID] = RasterizationCell.OBSTACLE_REGION_ID;
+        cellCounts[islandRegionID] = 0;
+      }
+    }
+  }
+
+  /**
+   * Merge the regions with less cells than the minimum or that are thin
+   * into their largest neighbor until there is none left that can be
+   * merged.
+   *
+   * Regions are only merged when they share one border. Otherwise, the
+   * merged region would encompass the cells between the borders. Regions of
+   * different areas are never merged.
+   */
+  private mergeSmallRegions(
+    grid: RasterizationGrid,
+    mergeRegionArea: integer,
+    cellCounts: Int32Array,
+    isKept: Uint8Array,
+    thicknesses: Uint8Array,
+    firstCells: Int32Array,
+    regionMap: Int32Array,
+    maxConnectionCount: integer
+  ): void {
+    const areaIDs = grid.areaIDs;
+    // The regions along the outer border of each region in the walk order.
+    const connections = new Array<integer[]>(cellCounts.length);
+    for (let regionID = 0; regionID < cellCounts.length; regionID++) {
+      connections[regionID] =
+        regionID !== RasterizationCell.OBSTACLE_REGION_ID &&
+        cellCounts[regionID] > 0
+          ? this.walkRegionBorder(grid, firstCells[regionID])
+          : [];
+    }
+    // Thin regions are merged first. Otherwise, the other merges can make
+    // them share several borders with every neighbor and they would stay.
+    for (let pass = 0; pass < 2; pass++) {
+      const isThinPass = pass === 0;
+      let mergeCount: integer;
+      do {
+        mergeCount = 0;
+        for (let regionID = 1; regionID < cellCounts.length; regionID++) {
+          if (
+            cellCounts[regionID] === 0 ||
+            (thicknesses[regionID] === 3 &&
+              (isThinPass ||
+                cellCounts[regionID] >= mergeRegionArea ||
+                isKept[regionID]))
+          ) {
+            continue;
+          }
+          let targetRegionID = RasterizationCell.OBSTACLE_REGION_ID;
+          for (const neighborRegionID of connections[regionID]) {
+            if (
+              neighborRegionID !== RasterizationCell.OBSTACLE_REGION_ID &&
+              areaIDs[firstCells[neighborRegionID]] ===
+                areaIDs[firstCells[regionID]] &&
+              (targetRegionID === RasterizationCell.OBSTACLE_REGION_ID ||
+                cellCounts[neighborRegionID] > cellCounts[targetRegionID]) &&
+              (thicknesses[regionID] !== 3 ||
+                connections[regionID].length +
+                  connections[neighborRegionID].length -
+                  2 <=
+                  maxConnectionCount) &&
+              this.canMerge(connections[regionID], neighborRegionID) &&
+              this.canMerge(connections[neighborRegionID], regionID)
+            ) {
+              targetRegionID = neighborRegionID;
+            }
+          }
+          if (targetRegionID === RasterizationCell.OBSTACLE_REGION_ID) {
+            continue;
+          }
+          connections[targetRegionID] = this.mergeConnections(
+            connections[targetRegionID],
+            targetRegionID,
+            connections[regionID],
+            regionID
+          );
+          connections[regionID] = [];
+          regionMap[regionID] = targetRegionID;
+          // Thin regions are merged only once.
+          thicknesses[targetRegionID] = 3;
+          cellCounts[targetRegionID] += cellCounts[regionID];
+          cellCounts[regionID] = 0;
+          for (
+            let otherRegionID = 1;
+            otherRegionID < cellCounts.length;
+            otherRegionID++
+          ) {
+            const otherConnections = connections[otherRegionID];
+            let isReplaced = false;
+            for (let index = 0; index < otherConnections.length; index++) {
+              if (otherConnections[index] === regionID) {
+                otherConnections[index] = targetRegionID;
+                isReplaced = true;
+              }
+            }
+            if (isReplaced) {
+              SmallRegionFilter.removeAdjacentDuplicates(otherConnections);
+            }
+          }
+          mergeCount++;
+        }
+      } while (mergeCount > 0);
+    }
+  }
+
+  /**
+   * Walk the outer border of a region clockwise like the `walkContour`
+   * function of Recast.
+   *
+   * @param firstCell the 1st cell of the region in the row order.
+   * @returns the regions along the border without consecutive duplicates.
+   */
+  private walkRegionBorder(
+    grid: RasterizationGrid,
+    firstCell: integer
+  ): integer[] {
+    const regionIDs = grid.regionIDs;
+    const neighborOffsets = grid.neighborOffsets;
+    const regionID = regionIDs[firstCell];
+    const connections = new Array<integer>();
+    // The cell above the 1st cell is not in the region.
+    const startDirection = 3;
+    let cell = firstCell;
+    let direction = startDirection;
+    do {
+      const neighborCell = cell + neighborOffsets[direction];
+      const neighborRegionID = regionIDs[neighborCell];
+      if (neighborRegionID !== regionID) {
+        if (
+          connections.length === 0 ||
+          connections[connections.length - 1] !== neighborRegionID
+        ) {
+          connections.push(neighborRegionID);
+        }
+        // Rotate clockwise.
+        direction = (direction + 1) & 3;
+      } else {
+        cell = neighborCell;
+        // Rotate counterclockwise.
+        direction = (direction + 3) & 3;
+      }
+    } while (cell !== firstCell || direction !== startDirection);
+    SmallRegionFilter.removeAdjacentDuplicates(connections);
+    return connections;
+  }
+
+  /**
+   * @returns true when the other region is along only one part of the
+   * border.
+   */
+  private canMerge(connections: integer[], otherRegionID: integer): boolean {
+    let count = 0;
+    for (const regionID of connections) {
+      if (regionID === otherRegionID) {
+        count++;
+      }
+    }
+    return count === 1;
+  }
+
+  /**
+   * Join the borders of 2 regions where they are connected.
+   *
+   * @returns the regions along the border of the merged region.
+   */
+  private mergeConnections(
+    connectionsA: integer[],
+    regionIDA: integer,
+    connectionsB: integer[],
+    regionIDB: integer
+  ): integer[] {
+    const indexA = connectionsA.indexOf(regionIDB);
+    const indexB = connectionsB.indexOf(regionIDA);
+    const connections = new Array<integer>();
+    for (let index = 1; index < connectionsA.length; index++) {
+      connections.push(connectionsA[(indexA + index) % connectionsA.length]);
+    }
+    for (let index = 1; index < connectionsB.length; index++) {
+      connections.push(connectionsB[(indexB + index) % connectionsB.length]);
+    }
+    SmallRegionFilter.removeAdjacentDuplicates(connections);
+    return connections;
+  }
+
+  /**
+   * Remove the consecutive duplicates of a cyclic list.
+   */
+  private static removeAdjacentDuplicates(connections: integer[]): void {
+    let index = 0;
+    while (connections.length > 1 && index < connections.length) {
+      const nextIndex = (index + 1) % connections.length;
+      if (connections[index] === connections[nextIndex]) {
+        connections.splice(nextIndex, 1);
+      } else {
+        index++;
+      }
+    }
+  }
+}
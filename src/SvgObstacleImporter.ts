@@ -0,0 +1,744 @@
+import { Point, float, integer, VertexArray } from "./CommonTypes";
+import { FillRule } from "./NavMeshBuildConfig";
+import { Obstacle } from "./Obstacle";
+
+type OpenElement = {
+  name: string;
+  /** The fill rule inherited by the children. */
+  fillRule: FillRule;
+  isRendered: boolean;
+};
+
+/**
+ * Imports obstacles drawn in SVG.
+ *
+ * The `path`, `rect`, `circle`, `ellipse` and `polygon` elements are
+ * converted to polygons in the scene basis. Paths and polygons keep the
+ * `fill-rule` of the element, so with several subpaths it tells which parts
+ * are holes. Elements that are never rendered by themselves like the
+ * content of `defs`, `clipPath`, `mask` or `symbol` are skipped.
+ *
+ * Curves are flattened in segments that deviate from them less than a part
+ * of a cell. Element and group transforms are not applied.
+ */
+export class SvgObstacleImporter {
+  /**
+   * The maximum distance in cells between a curve and its segments.
+   */
+  static readonly flatteningTolerance = 0.25;
+  private static readonly nonRenderedElements = [
+    "defs",
+    "clipPath",
+    "mask",
+    "symbol",
+    "pattern",
+    "marker",
+  ];
+
+  private tolerance: float;
+
+  /**
+   * @param rasterizationCellSize the cell size used to build the NavMesh.
+   * @param isometricRatio the isometric ratio of the scene.
+   */
+  constructor(rasterizationCellSize: float, isometricRatio: float = 1) {
+    // Cells are squashed vertically in the scene.
+    this.tolerance =
+      (SvgObstacleImporter.flatteningTolerance * rasterizationCellSize) /
+      Math.max(isometricRatio, 1);
+  }
+
+  /**
+   * @param svg the SVG document or a fragment of it.
+   * @returns an obstacle for each element with an area.
+   * @throws Error when a tag or a path data is not valid.
+   */
+  importSvg(svg: string): Obstacle[] {
+    const obstacles = new Array<Obstacle>();
+    const content = svg
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, "");
+    const openElements = new Array<OpenElement>();
+    // Attribute values can contain ">".
+    const tagRegex = /<(\/?)([\w:-]+)((?:"[^"]*"|'[^']*'|[^'">])*?)(\/?)>/g;
+    let tagEnd = 0;
+    for (
+      let match = tagRegex.exec(content);
+      match;
+      match = tagRegex.exec(content)
+    ) {
+      SvgObstacleImporter.checkText(content, tagEnd, match.index);
+      tagEnd = tagRegex.lastIndex;
+      const name = match[2];
+      if (match[1]) {
+        // Close the element and the ones that were never closed in it.
+        for (let index = openElements.length - 1; index >= 0; index--) {
+          if (openElements[index].name === name) {
+            openElements.length = index;
+            break;
+          }
+        }
+        continue;
+      }
+      const attributes = SvgObstacleImporter.parseAttributes(match[3]);
+      const parent =
+        openElements.length > 0 ? openElements[openElements.length - 1] : null;
+      // SVG elements are filled with the nonzero rule by default.
+      const fillRule =
+        SvgObstacleImporter.parseFillRule(attributes) ||
+        (parent ? parent.fillRule : "nonZero");
+      const isRendered =
+        (!parent || parent.isRendered) &&
+        SvgObstacleImporter.nonRenderedElements.indexOf(name) < 0;
+      if (!match[4]) {
+        openElements.push({ name, fillRule, isRendered });
+      }
+      if (!isRendered) {
+        continue;
+      }
+      const getNumber = (name: string) => {
+        const value = parseFloat(attributes[name]);
+        return isFinite(value) ? value : 0;
+      };
+      let rings: VertexArray[];
+      switch (name) {
+        case "path":
+          rings = this.importPathData(attributes["d"] || "");
+          break;
+        case "rect":
+          rings = this.importRectangle(
+            getNumber("x"),
+            getNumber("y"),
+            getNumber("width"),
+            getNumber("height"),
+            attributes["rx"] !== undefined ? getNumber("rx") : null,
+            attributes["ry"] !== undefined ? getNumber("ry") : null
+          );
+          break;
+        case "circle":
+          rings = this.importEllipse(
+            getNumber("cx"),
+            getNumber("cy"),
+            getNumber("r"),
+            getNumber("r")
+          );
+          break;
+        case "ellipse":
+          rings = this.importEllipse(
+            getNumber("cx"),
+            getNumber("cy"),
+            getNumber("rx"),
+            getNumber("ry")
+          );
+          break;
+        case "polygon":
+          rings = [SvgObstacleImporter.parsePoints(attributes["points"] || "")];
+          break;
+        default:
+          continue;
+      }
+      rings = rings.filter((ring) => ring.length >= 3);
+      if (rings.length === 0) {
+        continue;
+      }
+      if (name === "path" || name === "polygon") {
+        // Rings can overlap or intersect themselves.
+        obstacles.push({
+          type: "polygon",
+          vertices: rings[0],
+          holes: rings.slice(1),
+          fillRule,
+        });
+      } else {
+        obstacles.push(rings[0]);
+      }
+    }
+    SvgObstacleImporter.checkText(content, tagEnd, content.length);
+    return obstacles;
+  }
+
+  /**
+   * Flatten the path data of a `path` element.
+   *
+   * @param pathData the `d` attribute value.
+   * @returns the vertices of each subpath.
+   * @throws Error when the path data is not valid.
+   */
+  importPathData(pathData: string): VertexArray[] {
+    const scanner = new PathDataScanner(pathData);
+    const rings = new Array<VertexArray>();
+    let ring: VertexArray | null = null;
+    // The current point
+    let x = 0;
+    let y = 0;
+    let startX = 0;
+    let startY = 0;
+    // The control point to reflect for S and T.
+    let controlX = 0;
+    let controlY = 0;
+    let previousCommand = "";
+    let command = "";
+    const getRing = () => {
+      if (!ring) {
+        // A path can go on after Z without any M.
+        ring = [{ x, y }];
+        rings.push(ring);
+      }
+      return ring;
+    };
+
+    while (scanner.skipSeparators()) {
+      if (scanner.isCommand()) {
+        command = scanner.readCommand();
+      } else if (command === "" || command === "Z" || command === "z") {
+        throw scanner.createError("a command is expected");
+      }
+      const isRelative = command === command.toLowerCase();
+      const originX = isRelative ? x : 0;
+      const originY = isRelative ? y : 0;
+      const upperCommand = command.toUpperCase();
+      switch (upperCommand) {
+        case "M": {
+          x = originX + scanner.readNumber();
+          y = originY + scanner.readNumber();
+          startX = x;
+          startY = y;
+          ring = [{ x, y }];
+          rings.push(ring);
+          // Next coordinates are lines.
+          command = isRelative ? "l" : "L";
+          break;
+        }
+        case "Z": {
+          if (ring) {
+            const first = ring[0];
+            const last = ring[ring.length - 1];
+            if (ring.length > 1 && first.x === last.x && first.y === last.y) {
+              ring.pop();
+            }
+          }
+          ring = null;
+          x = startX;
+          y = startY;
+          break;
+        }
+        case "L": {
+          x = originX + scanner.readNumber();
+          y = originY + scanner.readNumber();
+          getRing().push({ x, y });
+          break;
+        }
+        case "H": {
+          x = originX + scanner.readNumber();
+          getRing().push({ x, y });
+          break;
+        }
+        case "V": {
+          y = originY + scanner.readNumber();
+          getRing().push({ x, y });
+          break;
+        }
+        case "C":
+        case "S": {
+          let control1X: float;
+          let control1Y: float;
+          if (upperCommand === "C") {
+            control1X = originX + scanner.readNumber();
+            control1Y = originY + scanner.readNumber();
+          } else if (previousCommand === "C" || previousCommand === "S") {
+            control1X = 2 * x - controlX;
+            control1Y = 2 * y - controlY;
+          } else {
+            control1X = x;
+            control1Y = y;
+          }
+          controlX = originX + scanner.readNumber();
+          controlY = originY + scanner.readNumber();
+          const endX = originX + scanner.readNumber();
+          const endY = originY + scanner.readNumber();
+          this.flattenCubicCurve(
+            getRing(),
+            x,
+            y,
+            control1X,
+            control1Y,
+            controlX,
+            controlY,
+            endX,
+            endY
+          );
+          x = endX;
+          y = endY;
+          break;
+        }
+        case "Q":
+        case "T": {
+          if (upperCommand === "Q") {
+            controlX = originX + scanner.readNumber();
+            controlY = originY + scanner.readNumber();
+          } else if (previousCommand === "Q" || previousCommand === "T") {
+            controlX = 2 * x - controlX;
+            controlY = 2 * y - controlY;
+          } else {
+            controlX = x;
+            controlY = y;
+          }
+          const endX = originX + scanner.readNumber();
+          const endY = originY + scanner.readNumber();
+          this.flattenQuadraticCurve(
+            getRing(),
+            x,
+            y,
+            controlX,
+            controlY,
+            endX,
+            endY
+          );
+          x = endX;
+          y = endY;
+          break;
+        }
+        case "A": {
+          const radiusX = scanner.readNumber();
+          const radiusY = scanner.readNumber();
+          const rotation = (scanner.readNumber() * Math.PI) / 180;
+          const isLargeArc = scanner.readFlag();
+          const isSweep = scanner.readFlag();
+          const endX = originX + scanner.readNumber();
+          const endY = originY + scanner.readNumber();
+          this.flattenArc(
+            getRing(),
+            x,
+            y,
+            radiusX,
+            radiusY,
+            rotation,
+            isLargeArc,
+            isSweep,
+            endX,
+            endY
+          );
+          x = endX;
+          y = endY;
+          break;
+        }
+        default:
+          throw scanner.createError("unknown command " + command);
+      }
+      previousCommand = upperCommand;
+    }
+    return rings;
+  }
+
+  private importRectangle(
+    x: float,
+    y: float,
+    width: float,
+    height: float,
+    radiusX: float | null,
+    radiusY: float | null
+  ): VertexArray[] {
+    if (width <= 0 || height <= 0) {
+      return [];
+    }
+    // A missing radius is the same as the other one.
+    if (radiusX === null) {
+      radiusX = radiusY !== null ? radiusY : 0;
+    }
+    if (radiusY === null) {
+      radiusY = radiusX;
+    }
+    const rx = Math.min(Math.abs(radiusX), width / 2);
+    const ry = Math.min(Math.abs(radiusY), height / 2);
+    if (rx === 0 || ry === 0) {
+      return [
+        [
+          { x, y },
+          { x: x + width, y },
+          { x: x + width, y: y + height },
+          { x, y: y + height },
+        ],
+      ];
+    }
+    return this.importPathData(
+      [
+        "M",
+        x + rx,
+        y,
+        "H",
+        x + width - rx,
+        "A",
+        rx,
+        ry,
+        0,
+        0,
+        1,
+        x + width,
+        y + ry,
+        "V",
+        y + height - ry,
+        "A",
+        rx,
+        ry,
+        0,
+        0,
+        1,
+        x + width - rx,
+        y + height,
+        "H",
+        x + rx,
+        "A",
+        rx,
+        ry,
+        0,
+        0,
+        1,
+        x,
+        y + height - ry,
+        "V",
+        y + ry,
+        "A",
+        rx,
+        ry,
+        0,
+        0,
+        1,
+        x + rx,
+        y,
+        "Z",
+      ].join(" ")
+    );
+  }
+
+  private importEllipse(
+    centerX: float,
+    centerY: float,
+    radiusX: float,
+    radiusY: float
+  ): VertexArray[] {
+    if (radiusX <= 0 || radiusY <= 0) {
+      return [];
+    }
+    const ring = [{ x: centerX + radiusX, y: centerY }];
+    // An arc can't start and end at the same point.
+    this.flattenArc(
+      ring,
+      centerX + radiusX,
+      centerY,
+      radiusX,
+      radiusY,
+      0,
+      false,
+      true,
+      centerX - radiusX,
+      centerY
+    );
+    this.flattenArc(
+      ring,
+      centerX - radiusX,
+      centerY,
+      radiusX,
+      radiusY,
+      0,
+      false,
+      true,
+      centerX + radiusX,
+      centerY
+    );
+    ring.pop();
+    return [ring];
+  }
+
+  /**
+   * Add the vertices of a cubic Bézier curve except the start.
+   */
+  private flattenCubicCurve(
+    ring: VertexArray,
+    startX: float,
+    startY: float,
+    control1X: float,
+    control1Y: float,
+    control2X: float,
+    control2Y: float,
+    endX: float,
+    endY: float
+  ) {
+    // The distance to the chord is at most 1/8 of the 2nd derivative
+    // times the squared parameter step.
+    const startDeltaX = startX - 2 * control1X + control2X;
+    const startDeltaY = startY - 2 * control1Y + control2Y;
+    const endDeltaX = control1X - 2 * control2X + endX;
+    const endDeltaY = control1Y - 2 * control2Y + endY;
+    const secondDerivativeMax =
+      6 *
+      Math.sqrt(
+        Math.max(
+          startDeltaX * startDeltaX + startDeltaY * startDeltaY,
+          endDeltaX * endDeltaX + endDeltaY * endDeltaY
+        )
+      );
+    const segmentCount = this.getCurveSegmentCount(secondDerivativeMax);
+    for (let index = 1; index < segmentCount; index++) {
+      const t = index / segmentCount;
+      const u = 1 - t;
+      ring.push({
+        x:
+          u * u * u * startX +
+          3 * u * u * t * control1X +
+          3 * u * t * t * control2X +
+          t * t * t * endX,
+        y:
+          u * u * u * startY +
+          3 * u * u * t * control1Y +
+          3 * u * t * t * control2Y +
+          t * t * t * endY,
+      });
+    }
+    ring.push({ x: endX, y: endY });
+  }
+
+  /**
+   * Add the vertices of a quadratic Bézier curve except the start.
+   */
+  private flattenQuadraticCurve(
+    ring: VertexArray,
+    startX: float,
+    startY: float,
+    controlX: float,
+    controlY: float,
+    endX: float,
+    endY: float
+  ) {
+    const deltaX = startX - 2 * controlX + endX;
+    const deltaY = startY - 2 * controlY + endY;
+    const secondDerivative = 2 * Math.sqrt(deltaX * deltaX + deltaY * deltaY);
+    const segmentCount = this.getCurveSegmentCount(secondDerivative);
+    for (let index = 1; index < segmentCount; index++) {
+      const t = index / segmentCount;
+      const u = 1 - t;
+      ring.push({
+        x: u * u * startX + 2 * u * t * controlX + t * t * endX,
+        y: u * u * startY + 2 * u * t * controlY + t * t * endY,
+      });
+    }
+    ring.push({ x: endX, y: endY });
+  }
+
+  private getCurveSegmentCount(secondDerivativeMax: float): integer {
+    return Math.max(
+      1,
+      Math.ceil(Math.sqrt(secondDerivativeMax / (8 * this.tolerance)))
+    );
+  }
+
+  /**
+   * Add the vertices of an elliptical arc except the start.
+   *
+   * The center is found as explained in the SVG implementation notes.
+   */
+  private flattenArc(
+    ring: VertexArray,
+    startX: float,
+    startY: float,
+    radiusX: float,
+    radiusY: float,
+    rotation: float,
+    isLargeArc: boolean,
+    isSweep: boolean,
+    endX: float,
+    endY: float
+  ) {
+    if (startX === endX && startY === endY) {
+      return;
+    }
+    let rx = Math.abs(radiusX);
+    let ry = Math.abs(radiusY);
+    if (rx === 0 || ry === 0) {
+      ring.push({ x: endX, y: endY });
+      return;
+    }
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    // The start in the ellipse basis centered between the ends.
+    const halfDeltaX = (startX - endX) / 2;
+    const halfDeltaY = (startY - endY) / 2;
+    const x1 = cos * halfDeltaX + sin * halfDeltaY;
+    const y1 = -sin * halfDeltaX + cos * halfDeltaY;
+    // Radii that are too small are scaled up.
+    const radiiScale = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+    if (radiiScale > 1) {
+      rx *= Math.sqrt(radiiScale);
+      ry *= Math.sqrt(radiiScale);
+    }
+    const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+    const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+    const coefficient =
+      (isLargeArc !== isSweep ? 1 : -1) *
+      Math.sqrt(Math.max(numerator / denominator, 0));
+    const centerX1 = (coefficient * rx * y1) / ry;
+    const centerY1 = (-coefficient * ry * x1) / rx;
+    const centerX = cos * centerX1 - sin * centerY1 + (startX + endX) / 2;
+    const centerY = sin * centerX1 + cos * centerY1 + (startY + endY) / 2;
+
+    const startAngle = Math.atan2((y1 - centerY1) / ry, (x1 - centerX1) / rx);
+    let deltaAngle =
+      Math.atan2((-y1 - centerY1) / ry, (-x1 - centerX1) / rx) - startAngle;
+    if (isSweep && deltaAngle < 0) {
+      deltaAngle += 2 * Math.PI;
+    } else if (!isSweep && deltaAngle > 0) {
+      deltaAngle -= 2 * Math.PI;
+    }
+
+    // The distance between a circle and a chord is r * (1 - cos(angle / 2)).
+    const radius = Math.max(rx, ry);
+    const angleStep =
+      this.tolerance < radius
+        ? 2 * Math.acos(1 - this.tolerance / radius)
+        : Math.PI / 2;
+    const segmentCount = Math.max(
+      1,
+      Math.ceil(Math.abs(deltaAngle) / angleStep)
+    );
+    for (let index = 1; index < segmentCount; index++) {
+      const angle = startAngle + (deltaAngle * index) / segmentCount;
+      const ellipseX = rx * Math.cos(angle);
+      const ellipseY = ry * Math.sin(angle);
+      ring.push({
+        x: centerX + cos * ellipseX - sin * ellipseY,
+        y: centerY + sin * ellipseX + cos * ellipseY,
+      });
+    }
+    ring.push({ x: endX, y: endY });
+  }
+
+  /**
+   * Check that the text between 2 tags doesn't contain the start of a tag
+   * that couldn't be parsed.
+   *
+   * @param content the SVG without comments.
+   * @param start the text start index.
+   * @param end the text end index.
+   * @throws Error when the text contains a malformed tag.
+   */
+  private static checkText(content: string, start: integer, end: integer) {
+    const tagStartRegex = /<\/?[\w:-]/g;
+    tagStartRegex.lastIndex = start;
+    const match = tagStartRegex.exec(content);
+    if (match && match.index < end) {
+      throw new Error(
+        "Invalid SVG: malformed tag: " +
+          content.slice(match.index, match.index + 30)
+      );
+    }
+  }
+
+  private static parseAttributes(text: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const attributeRegex = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    for (
+      let match = attributeRegex.exec(text);
+      match;
+      match = attributeRegex.exec(text)
+    ) {
+      attributes[match[1]] = match[2] !== undefined ? match[2] : match[3];
+    }
+    return attributes;
+  }
+
+  /**
+   * @param attributes
+   * @returns the fill rule of the element or null when it's inherited.
+   */
+  private static parseFillRule(
+    attributes: Record<string, string>
+  ): FillRule | null {
+    // The style has precedence over the attribute.
+    const styleMatch = /(?:^|;)\s*fill-rule\s*:\s*([\w-]+)/.exec(
+      attributes["style"] || ""
+    );
+    const value = styleMatch ? styleMatch[1] : attributes["fill-rule"];
+    return value === "evenodd"
+      ? "evenOdd"
+      : value === "nonzero"
+      ? "nonZero"
+      : null;
+  }
+
+  private static parsePoints(text: string): VertexArray {
+    const scanner = new PathDataScanner(text);
+    const points = new Array<Point>();
+    while (scanner.skipSeparators()) {
+      const x = scanner.readNumber();
+      scanner.skipSeparators();
+      points.push({ x, y: scanner.readNumber() });
+    }
+    return points;
+  }
+}
+
+/**
+ * Reads the commands, numbers and flags of a path data.
+ */
+class PathDataScanner {
+  private static readonly numberRegex = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g;
+
+  private text: string;
+  private index: integer;
+
+  constructor(text: string) {
+    this.text = text;
+    this.index = 0;
+  }
+
+  /**
+   * @returns true when there is something left to read.
+   */
+  skipSeparators(): boolean {
+    while (
+      this.index < this.text.length &&
+      " \t\r\n,".indexOf(this.text.charAt(this.index)) !== -1
+    ) {
+      this.index++;
+    }
+    return this.index < this.text.length;
+  }
+
+  isCommand(): boolean {
+    return /[a-zA-Z]/.test(this.text.charAt(this.index));
+  }
+
+  readCommand(): string {
+    return this.text.charAt(this.index++);
+  }
+
+  readNumber(): float {
+    this.skipSeparators();
+    const numberRegex = PathDataScanner.numberRegex;
+    numberRegex.lastIndex = this.index;
+    const match = numberRegex.exec(this.text);
+    if (!match || match.index !== this.index) {
+      throw this.createError("a number is expected");
+    }
+    this.index += match[0].length;
+    return parseFloat(match[0]);
+  }
+
+  /**
+   * Arc flags can be written without any separator like "a1 1 0 01 1 1".
+   */
+  readFlag(): boolean {
+    this.skipSeparators();
+    const flag = this.text.charAt(this.index);
+    if (flag !== "0" && flag !== "1") {
+      throw this.createError("a flag is expected");
+    }
+    this.index++;
+    return flag === "1";
+  }
+
+  createError(reason: string): Error {
+    return new Error(
+      "Invalid SVG path data: " + reason + " at " + this.index + "."
+    );
+  }
+}
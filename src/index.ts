@@ -5,5 +5,16 @@
 
 import { NavMeshGenerator } from "./NavMeshGenerator";
 
+export * from "./BuildDiagnostics";
 export * from "./CommonTypes";
+export * from "./GridTextFormat";
+export * from "./NavMeshBuildConfig";
+export * from "./NavMeshBuildTask";
+export * from "./NavMeshData";
+export * from "./NavMeshWorker";
+export * from "./NavMeshWorkerClient";
+export * from "./NavMeshWorkerProtocol";
+export * from "./Obstacle";
+export * from "./RasterizationGrid";
+export * from "./SvgObstacleImporter";
 export default NavMeshGenerator;